@@ -1,10 +1,7 @@
 module.exports = {
   collectCoverageFrom: [
     'src/**/*.ts',
-    '!**/node_modules/**',
-    // Exclude unused functionality
-    '!src/rates/ecb.ts',
-    '!src/controllers/liquidity-congestion.ts'
+    '!**/node_modules/**'
   ],
   coverageDirectory: 'coverage',
   preset: 'ts-jest',
@@ -10,6 +10,7 @@ import {
   IlpAddress,
   IlpError,
   deserializeIlpReply,
+  serializeIlpFulfill,
 } from 'ilp-packet'
 import {
   generateFulfillment,
@@ -42,6 +43,8 @@ import {
   RejectBuilder,
 } from './utils'
 import { AccountController } from './controllers/asset-details'
+import { ReceiveController } from './controllers/receive'
+import { noopMetrics, PaymentMetric, PaymentMetrics } from './metrics'
 
 /** Serialize & send, and receive & authenticate all ILP and STREAM packets */
 export interface StreamConnection {
@@ -56,7 +59,8 @@ export const createConnection = async (
   controllers: ControllerMap,
   sharedSecret: Buffer,
   destinationAddress: IlpAddress,
-  getExpiry: (destination?: string) => Date = getDefaultExpiry
+  getExpiry: (destination?: string) => Date = getDefaultExpiry,
+  metrics: PaymentMetrics = noopMetrics
 ): Promise<StreamConnection> => {
   const log = createLogger(`ilp-pay:${await getConnectionId(destinationAddress)}`)
 
@@ -67,7 +71,7 @@ export const createConnection = async (
   const createReject = (code: IlpError) =>
     new RejectBuilder().setCode(code).setTriggeredBy(sourceAddress)
 
-  // Reject all incoming packets, but ACK incoming STREAM packets and handle connection closes
+  // Reject incoming packets, unless receiving money is enabled, but ACK incoming STREAM packets and handle connection closes
   plugin.deregisterDataHandler()
   plugin.registerDataHandler(async (data) => {
     let prepare: IlpPrepare
@@ -103,8 +107,43 @@ export const createConnection = async (
     // In case the server closed the stream/connection, end the payment
     controllers.get(FailureController).handleRemoteClose(streamRequest.frames, log)
 
-    // No frames are necessary, since on connect we told the receive we can't receive money or data
-    const streamReply = new Packet(streamRequest.sequence, +IlpPacketType.Reject, prepare.amount)
+    // If receiving is enabled, accept money in fulfillable packets that meet
+    // the sender's minimum and are within our receive max
+    let responseFrames: Frame[] = []
+    const receiveController = controllers.get(ReceiveController)
+    if (receiveController.isReceiving()) {
+      const fulfillment = await generateFulfillment(fulfillmentKey, prepare.data)
+      const isFulfillable = (await hash(fulfillment)).equals(prepare.executionCondition)
+      const amount = Int.from(prepare.amount)
+      const minAmount = Int.from(streamRequest.prepareAmount)
+
+      if (isFulfillable && amount && amount.isGreaterThanOrEqualTo(minAmount)) {
+        const { accept, frames } = receiveController.receive(amount, streamRequest.frames, log)
+        responseFrames = frames
+
+        if (accept) {
+          const streamReply = new Packet(
+            streamRequest.sequence,
+            +IlpPacketType.Fulfill,
+            prepare.amount,
+            responseFrames
+          )
+          const ilpData = await streamReply.serializeAndEncrypt(encryptionKey)
+
+          log.debug('fulfilling incoming Prepare. amount: %s', amount)
+          return serializeIlpFulfill({ fulfillment, data: ilpData })
+        }
+      }
+    }
+
+    // Otherwise, reject. If receiving is disabled, no frames are necessary, since on connect
+    // we told the receiver we can't receive money or data
+    const streamReply = new Packet(
+      streamRequest.sequence,
+      +IlpPacketType.Reject,
+      prepare.amount,
+      responseFrames
+    )
     const ilpData = await streamReply.serializeAndEncrypt(encryptionKey)
 
     log.debug('rejecting with F99: cannot receive money or data')
@@ -112,8 +151,6 @@ export const createConnection = async (
   })
 
   const connection: StreamConnection = {
-    // TODO start and stoppable send loop? should it automatically start when connection is created?
-    //      something like that could be useful for WM
     async runSendLoop() {
       for (;;) {
         const builder = new StreamRequestBuilder(
@@ -204,6 +241,8 @@ export const createConnection = async (
 
       const { timeoutPromise, cancelTimeout } = createTimeout(timeoutDuration)
 
+      metrics.increment(PaymentMetric.PacketsSent, 1, { fulfillable: String(isFulfillable) })
+
       // Send the packet!
       const ilpReply: IlpReply = await Promise.race([
         timeoutPromise.then(() => createReject(IlpError.R00_TRANSFER_TIMED_OUT)),
@@ -243,8 +282,10 @@ export const createConnection = async (
 
       if (isFulfill(ilpReply)) {
         log.debug('got Fulfill for amount %s', sourceAmount)
+        metrics.increment(PaymentMetric.PacketsFulfilled, 1, {})
       } else {
         log.debug('got %s Reject: %s', ilpReply.code, ILP_ERROR_CODES[ilpReply.code])
+        metrics.increment(PaymentMetric.PacketsRejected, 1, { code: ilpReply.code })
 
         if (ilpReply.message.length > 0 || ilpReply.triggeredBy.length > 0) {
           log.trace('Reject message="%s" triggeredBy=%s', ilpReply.message, ilpReply.triggeredBy)
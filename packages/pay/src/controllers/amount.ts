@@ -14,6 +14,7 @@ import {
   ErrorCode,
 } from 'ilp-protocol-stream/dist/src/packet'
 import { MaxPacketAmountController } from './max-packet'
+import { CongestionController } from './liquidity-congestion'
 import { ExchangeRateCalculator } from './exchange-rate'
 import { PaymentError } from '..'
 import { Logger } from 'ilp-logger'
@@ -31,6 +32,31 @@ export enum PaymentType {
   FixedDelivery,
 }
 
+/** Fixed source amount to send over a single STREAM stream, to split the payment across streams */
+export interface StreamTarget {
+  streamId: number
+  amount: PositiveInt
+}
+
+/** Amounts sent and delivered over a single STREAM stream */
+export interface StreamProgress {
+  streamId: number
+  amountSent: Int
+  amountDelivered: Int
+}
+
+/** Amounts and limits of a single STREAM stream the payment sends money over */
+interface StreamState extends StreamProgress {
+  /** Fixed source amount to send over this stream, if the payment is split across streams */
+  targetAmount?: PositiveInt
+  /** Amount sent over this stream that is yet to be fulfilled or rejected */
+  sourceAmountInFlight: Int
+  /** Minimum amount that will be delivered if all in-flight packets on this stream are fulfilled */
+  minDestinationAmountInFlight: Int
+  /** Maximum amount the recipient can receive on this stream */
+  remoteReceiveMax?: Int
+}
+
 /** Amount and exchange rate conditions that must be met for the payment to complete */
 interface PaymentTarget {
   type: PaymentType
@@ -38,6 +64,8 @@ interface PaymentTarget {
   minDeliveryAmount: Int
   minExchangeRate: Ratio
   rateCalculator: ExchangeRateCalculator
+  /** Packets less than this source amount may fail due to rounding when enforcing the minimum exchange rate */
+  minSourcePacketAmount: Int
 }
 
 /** Controller to track and calculate amounts to send and deliver */
@@ -57,11 +85,14 @@ export class AmountController implements StreamController {
   /** Estimate of the amount that may be delivered from in-flight packets, in scaled units of the receiving account */
   private destinationAmountInFlight = Int.ZERO
 
+  /** Minimum amount that will be delivered if all in-flight packets are fulfilled, in scaled units of the receiving account */
+  private minDestinationAmountInFlight = Int.ZERO
+
   /** Amount in destination units allowed to be lost to rounding, below the enforced exchange rate */
   private availableDeliveryShortfall = Int.ZERO
 
-  /** Maximum amount the recipient can receive on the default stream */
-  private remoteReceiveMax?: Int
+  /** Streams to send money over, in the order they should be paid */
+  private streams: StreamState[]
 
   /** Should the connection be closed because the receiver violated the STREAM protocol? */
   private encounteredProtocolViolation = false
@@ -69,8 +100,37 @@ export class AmountController implements StreamController {
   /** Set of all STREAM controllers */
   private controllers: ControllerMap
 
-  constructor(controllers: ControllerMap) {
+  /**
+   * @param controllers Set of all STREAM controllers
+   * @param initialAmounts Amounts already sent and delivered, in total and over each stream, such as when resuming a payment
+   */
+  constructor(
+    controllers: ControllerMap,
+    initialAmounts?: {
+      amountSent: Int
+      amountDelivered: Int
+      streams?: StreamProgress[]
+    }
+  ) {
     this.controllers = controllers
+    if (initialAmounts) {
+      this.amountSent = initialAmounts.amountSent
+      this.amountDelivered = initialAmounts.amountDelivered
+    }
+
+    this.streams = (
+      initialAmounts?.streams ?? [
+        {
+          streamId: DEFAULT_STREAM_ID,
+          amountSent: this.amountSent,
+          amountDelivered: this.amountDelivered,
+        },
+      ]
+    ).map((stream) => ({
+      ...stream,
+      sourceAmountInFlight: Int.ZERO,
+      minDestinationAmountInFlight: Int.ZERO,
+    }))
   }
 
   setPaymentTarget(
@@ -79,7 +139,8 @@ export class AmountController implements StreamController {
     minExchangeRate: Ratio,
     rateCalculator: ExchangeRateCalculator,
     maxSourcePacketAmount: Int,
-    log: Logger
+    log: Logger,
+    streamTargets?: StreamTarget[]
   ): EstimatedPaymentOutcome | PaymentError {
     const { lowerBoundRate, upperBoundRate } = rateCalculator
 
@@ -116,15 +177,32 @@ export class AmountController implements StreamController {
       return PaymentError.ExchangeRateRoundingError
     }
 
+    // Split the payment across multiple streams, each with a fixed source amount
+    if (streamTargets) {
+      this.streams = streamTargets.map(({ streamId, amount }) => {
+        const stream = this.streams.find((s) => s.streamId === streamId)
+        return {
+          streamId,
+          targetAmount: amount,
+          amountSent: stream?.amountSent ?? Int.ZERO,
+          amountDelivered: stream?.amountDelivered ?? Int.ZERO,
+          sourceAmountInFlight: Int.ZERO,
+          minDestinationAmountInFlight: Int.ZERO,
+        }
+      })
+    }
+
     // To prevent the final packet from failing due to rounding, account for a small
     // "shortfall" of 1 source unit, converted to destination units,
     // to tolerate below the enforced destination amounts from the minimum exchange rate.
-    this.availableDeliveryShortfall = Int.ONE.multiplyCeil(minExchangeRate)
+    // The final packet of each stream may incur the shortfall.
+    const numberOfStreams = Int.from(this.streams.length) as PositiveInt
+    this.availableDeliveryShortfall = numberOfStreams.multiplyCeil(minExchangeRate)
 
     if (targetType === PaymentType.FixedSend) {
       const estimatedNumberOfPackets = targetAmount.divideCeil(maxSourcePacketAmount)
       const maxSourceAmount = targetAmount
-      const minDeliveryAmount = targetAmount.subtract(Int.ONE).multiplyCeil(minExchangeRate)
+      const minDeliveryAmount = targetAmount.subtract(numberOfStreams).multiplyCeil(minExchangeRate)
 
       this.target = {
         type: PaymentType.FixedSend,
@@ -132,6 +210,7 @@ export class AmountController implements StreamController {
         minDeliveryAmount,
         minExchangeRate,
         rateCalculator,
+        minSourcePacketAmount,
       }
 
       return {
@@ -157,6 +236,7 @@ export class AmountController implements StreamController {
         maxSourceAmount,
         minExchangeRate,
         rateCalculator,
+        minSourcePacketAmount,
       }
 
       return {
@@ -178,20 +258,30 @@ export class AmountController implements StreamController {
       return SendState.Ready
     }
 
-    const { maxSourceAmount, minDeliveryAmount, minExchangeRate, rateCalculator } = this.target
+    const {
+      maxSourceAmount,
+      minDeliveryAmount,
+      minExchangeRate,
+      rateCalculator,
+      minSourcePacketAmount,
+    } = this.target
     const { log } = builder
 
-    // Is the recipient's advertised `receiveMax` less than the fixed destination amount?
-    const incompatibleReceiveMax =
-      this.remoteReceiveMax && minDeliveryAmount.isGreaterThan(this.remoteReceiveMax)
-    if (incompatibleReceiveMax) {
-      log.error(
-        'ending payment: minimum delivery amount is too much for recipient. minimum delivery amount: %s, receive max: %s',
-        minDeliveryAmount,
-        this.remoteReceiveMax
-      )
-      builder.sendConnectionClose(ErrorCode.ApplicationError)
-      return PaymentError.IncompatibleReceiveMax
+    // Is the recipient's advertised `receiveMax` less than the fixed destination amount of any stream?
+    for (const { streamId, targetAmount, remoteReceiveMax } of this.streams) {
+      const streamMinDeliveryAmount = targetAmount
+        ? targetAmount.subtract(Int.ONE).multiplyCeil(minExchangeRate)
+        : minDeliveryAmount
+      if (remoteReceiveMax && streamMinDeliveryAmount.isGreaterThan(remoteReceiveMax)) {
+        log.error(
+          'ending payment: minimum delivery amount is too much for recipient. stream: %s, minimum delivery amount: %s, receive max: %s',
+          streamId,
+          streamMinDeliveryAmount,
+          remoteReceiveMax
+        )
+        builder.sendConnectionClose(ErrorCode.ApplicationError)
+        return PaymentError.IncompatibleReceiveMax
+      }
     }
 
     if (this.target.type === PaymentType.FixedSend) {
@@ -218,6 +308,33 @@ export class AmountController implements StreamController {
       .orLesser(maxPacketAmount ?? Int.MAX_U64)
       .orLesser(Int.MAX_U64)
 
+    // Send over the first stream with a remaining amount, limited to that amount
+    const stream = this.streams.find(
+      ({ targetAmount, amountSent, sourceAmountInFlight }) =>
+        !targetAmount ||
+        targetAmount.subtract(amountSent).subtract(sourceAmountInFlight).isPositive()
+    )
+    if (!stream) {
+      return SendState.Ready
+    }
+
+    let availableOnStream = availableToSend
+    if (stream.targetAmount) {
+      const remainingOnStream = stream.targetAmount
+        .subtract(stream.amountSent)
+        .subtract(stream.sourceAmountInFlight)
+      if (remainingOnStream.isPositive()) {
+        availableOnStream = remainingOnStream.orLesser(availableToSend)
+        sourceAmount = sourceAmount.orLesser(availableOnStream)
+      }
+    }
+
+    // Limit packets to the estimated liquidity bandwidth, but not so small they fail due to rounding
+    const congestionLimit = this.controllers.get(CongestionController).getNextPacketAmount()
+    if (congestionLimit) {
+      sourceAmount = sourceAmount.orLesser(congestionLimit.orGreater(minSourcePacketAmount))
+    }
+
     // Check if fixed delivery payment is complete, and apply limits
     if (this.target.type === PaymentType.FixedDelivery) {
       const remainingToDeliver = minDeliveryAmount.subtract(this.amountDelivered)
@@ -259,7 +376,7 @@ export class AmountController implements StreamController {
       // Is it probable that this packet will complete the payment?
       const completesPayment =
         this.target.type === PaymentType.FixedSend
-          ? sourceAmount.isEqualTo(availableToSend)
+          ? sourceAmount.isEqualTo(availableOnStream)
           : this.amountDelivered
               .add(this.destinationAmountInFlight)
               .add(estimatedDestinationAmount)
@@ -278,14 +395,20 @@ export class AmountController implements StreamController {
       .setSourceAmount(sourceAmount)
       .setMinDestinationAmount(minDestinationAmount)
       .enableFulfillment()
-      .addFrames(new StreamMoneyFrame(DEFAULT_STREAM_ID, 1))
+      .addFrames(new StreamMoneyFrame(stream.streamId, 1))
       .send()
 
     return SendState.Wait
   }
 
   applyRequest(request: StreamRequest): (reply: StreamReply) => void {
-    const { sourceAmount, minDestinationAmount, isFulfillable, log } = request
+    const { sourceAmount, minDestinationAmount, requestFrames, isFulfillable, log } = request
+
+    // Stream the money in this packet is sent over
+    const moneyFrame = requestFrames.find(
+      (frame): frame is StreamMoneyFrame => frame.type === FrameType.StreamMoney
+    )
+    const stream = moneyFrame && this.streams.find((s) => moneyFrame.streamId.equals(s.streamId))
 
     let highEndDestinationAmount = Int.ZERO
     let deliveryDeficit = Int.ZERO
@@ -299,6 +422,15 @@ export class AmountController implements StreamController {
       // Update in-flight amounts
       this.sourceAmountInFlight = this.sourceAmountInFlight.add(sourceAmount)
       this.destinationAmountInFlight = this.destinationAmountInFlight.add(highEndDestinationAmount)
+      this.minDestinationAmountInFlight = this.minDestinationAmountInFlight.add(
+        minDestinationAmount
+      )
+      if (stream) {
+        stream.sourceAmountInFlight = stream.sourceAmountInFlight.add(sourceAmount)
+        stream.minDestinationAmountInFlight = stream.minDestinationAmountInFlight.add(
+          minDestinationAmount
+        )
+      }
 
       // Update the delivery shoftfall, if applicable
       const baselineMinDestinationAmount = sourceAmount.multiplyCeil(this.target.minExchangeRate)
@@ -338,6 +470,10 @@ export class AmountController implements StreamController {
 
         this.amountSent = this.amountSent.add(sourceAmount)
         this.amountDelivered = this.amountDelivered.add(destinationAmount)
+        if (stream) {
+          stream.amountSent = stream.amountSent.add(sourceAmount)
+          stream.amountDelivered = stream.amountDelivered.add(destinationAmount)
+        }
       } else if (destinationAmount?.isLessThan(minDestinationAmount)) {
         log.debug(
           'packet rejected for insufficient rate: min destination amount: %s, received amount: %s',
@@ -351,6 +487,15 @@ export class AmountController implements StreamController {
         this.destinationAmountInFlight = this.destinationAmountInFlight.subtract(
           highEndDestinationAmount
         )
+        this.minDestinationAmountInFlight = this.minDestinationAmountInFlight.subtract(
+          minDestinationAmount
+        )
+        if (stream) {
+          stream.sourceAmountInFlight = stream.sourceAmountInFlight.subtract(sourceAmount)
+          stream.minDestinationAmountInFlight = stream.minDestinationAmountInFlight.subtract(
+            minDestinationAmount
+          )
+        }
 
         // If this packet failed, "refund" the delivery deficit so it may be retried
         if (deliveryDeficit.isPositive() && reply.isReject()) {
@@ -381,10 +526,15 @@ export class AmountController implements StreamController {
   private updateReceiveMax({ frames, log }: StreamReply) {
     frames
       ?.filter((frame): frame is StreamMaxMoneyFrame => frame.type === FrameType.StreamMaxMoney)
-      .filter((frame) => frame.streamId.equals(DEFAULT_STREAM_ID))
       .forEach((frame) => {
+        const stream = this.streams.find((s) => frame.streamId.equals(s.streamId))
+        if (!stream) {
+          return
+        }
+
         log.trace(
-          'recipient told us the stream has received %s of up to %s',
+          'recipient told us stream %s has received %s of up to %s',
+          stream.streamId,
           frame.totalReceived,
           frame.receiveMax
         )
@@ -393,7 +543,7 @@ export class AmountController implements StreamController {
         const receiveMax = Int.from(frame.receiveMax)
 
         // Remote receive max can only increase
-        this.remoteReceiveMax = this.remoteReceiveMax?.orGreater(receiveMax) ?? receiveMax
+        stream.remoteReceiveMax = stream.remoteReceiveMax?.orGreater(receiveMax) ?? receiveMax
       })
   }
 
@@ -404,4 +554,34 @@ export class AmountController implements StreamController {
   getAmountDelivered(): Int {
     return this.amountDelivered
   }
+
+  getSourceAmountInFlight(): Int {
+    return this.sourceAmountInFlight
+  }
+
+  getMinDestinationAmountInFlight(): Int {
+    return this.minDestinationAmountInFlight
+  }
+
+  /** Amounts sent, delivered, and in-flight over each stream */
+  getStreams(): (StreamProgress & {
+    sourceAmountInFlight: Int
+    minDestinationAmountInFlight: Int
+  })[] {
+    return this.streams.map(
+      ({
+        streamId,
+        amountSent,
+        amountDelivered,
+        sourceAmountInFlight,
+        minDestinationAmountInFlight,
+      }) => ({
+        streamId,
+        amountSent,
+        amountDelivered,
+        sourceAmountInFlight,
+        minDestinationAmountInFlight,
+      })
+    )
+  }
 }
@@ -12,6 +12,7 @@ import { DEFAULT_STREAM_ID } from './amount'
 import { PaymentError } from '..'
 import { IlpAddress } from 'ilp-packet'
 import { AssetScale } from 'ilp-protocol-ildcp'
+import { Int } from '../utils'
 
 /** Asset and Interledger address for an account (sender or receiver) */
 export interface AccountDetails extends AssetDetails {
@@ -29,6 +30,9 @@ export interface AssetDetails {
 
 /** Controller for sharing source/destination account details */
 export class AccountController implements StreamController {
+  /** Maximum number of streams the recipient may open to send money to us, if we can receive */
+  private static MAX_INCOMING_STREAMS = 10
+
   private remoteKnowsOurAccount = false
   private sourceAccount: AccountDetails
 
@@ -37,14 +41,24 @@ export class AccountController implements StreamController {
 
   private remoteAssetChanged = false
 
+  /** Maximum total amount the recipient may send to us over this connection, in source units */
+  private receiveMax: Int
+
+  /** Amount already received over this connection, such as before the payment was resumed, in source units */
+  private amountReceived: Int
+
   constructor(
     sourceAccount: AccountDetails,
     destinationAddress: IlpAddress,
-    destinationAsset?: AssetDetails
+    destinationAsset?: AssetDetails,
+    receiveMax = Int.ZERO,
+    amountReceived = Int.ZERO
   ) {
     this.sourceAccount = sourceAccount
     this.destinationAddress = destinationAddress
     this.destinationAsset = destinationAsset
+    this.receiveMax = receiveMax
+    this.amountReceived = amountReceived
   }
 
   getSourceAccount(): AccountDetails {
@@ -66,6 +80,27 @@ export class AccountController implements StreamController {
       return PaymentError.DestinationAssetConflict
     }
 
+    // If we can receive money, share our address and receive limit so the recipient may send packets to us
+    if (this.receiveMax.isPositive()) {
+      if (!this.remoteKnowsOurAccount) {
+        builder.addFrames(
+          new ConnectionNewAddressFrame(this.sourceAccount.ilpAddress),
+          // Advertise the remaining connection limit (JS auto opens a new stream for this)
+          new StreamMaxMoneyFrame(
+            DEFAULT_STREAM_ID,
+            this.receiveMax.toLong(),
+            this.amountReceived.toLong()
+          ),
+          // Disallow incoming data
+          new ConnectionMaxDataFrame(0),
+          // Allow the recipient to open streams, which are even-numbered
+          new ConnectionMaxStreamIdFrame(2 * AccountController.MAX_INCOMING_STREAMS)
+        )
+      }
+
+      return SendState.Ready
+    }
+
     // We can't receive packets, so only send a `ConnectionNewAddress` for backwards
     // compatibility to fetch asset details. If we already know asset details, skip this!
     if (!this.destinationAsset) {
@@ -0,0 +1,35 @@
+import { Logger } from 'ilp-logger'
+import { StreamController, StreamReply, StreamRequest } from '.'
+
+/**
+ * Controller to notify a listener before each packet is sent and after each Fulfill, so the payment state
+ * may be persisted. Since the listener is invoked before the packet is sent, the snapshot includes its
+ * source amount and sequence number, so a resumed payment never resends its money or reuses its sequence
+ */
+export class CheckpointController implements StreamController {
+  /** Callback to invoke after all other controllers applied the request or Fulfill */
+  private listener?: () => void
+
+  setListener(listener: () => void): void {
+    this.listener = listener
+  }
+
+  applyRequest({ log }: StreamRequest): (reply: StreamReply) => void {
+    this.notify(log)
+
+    return (reply: StreamReply) => {
+      if (reply.isFulfill()) {
+        this.notify(reply.log)
+      }
+    }
+  }
+
+  /** Invoke the listener, but catch its errors so the other controllers still apply the request and reply */
+  private notify(log: Logger): void {
+    try {
+      this.listener?.()
+    } catch (err) {
+      log.error('checkpoint listener threw an error: %s', err)
+    }
+  }
+}
@@ -1,6 +1,7 @@
 import { StreamController, StreamReply, StreamRequest } from '.'
 import { Ratio, PositiveInt, Int } from '../utils'
 import { Logger } from 'ilp-logger'
+import BigNumber from 'bignumber.js'
 
 /** Track exchange rates and calculate corresponding source/destination amounts */
 export class ExchangeRateCalculator {
@@ -16,13 +17,30 @@ export class ExchangeRateCalculator {
   /** Mapping of packet sent amounts to its most recent received amount */
   private receivedAmounts = new Map<bigint, Int>()
 
-  constructor(sourceAmount: PositiveInt, receivedAmount: Int, log: Logger) {
-    this.upperBoundRate = new Ratio(receivedAmount.add(Int.ONE), sourceAmount)
-    this.lowerBoundRate = new Ratio(receivedAmount, sourceAmount)
-    log.trace('setting initial rate to [%s, %s]', this.lowerBoundRate, this.upperBoundRate)
+  constructor(lowerBoundRate: Ratio, upperBoundRate: Ratio) {
+    this.lowerBoundRate = lowerBoundRate
+    this.upperBoundRate = upperBoundRate
+  }
 
-    this.sentAmounts.set(receivedAmount.value, sourceAmount)
-    this.receivedAmounts.set(sourceAmount.value, receivedAmount)
+  /** Establish the initial rate from the first packet with an authentic reply */
+  static fromPacket(
+    sourceAmount: PositiveInt,
+    receivedAmount: Int,
+    log: Logger
+  ): ExchangeRateCalculator {
+    const calculator = new ExchangeRateCalculator(
+      new Ratio(receivedAmount, sourceAmount),
+      new Ratio(receivedAmount.add(Int.ONE), sourceAmount)
+    )
+    log.trace(
+      'setting initial rate to [%s, %s]',
+      calculator.lowerBoundRate,
+      calculator.upperBoundRate
+    )
+
+    calculator.sentAmounts.set(receivedAmount.value, sourceAmount)
+    calculator.receivedAmounts.set(sourceAmount.value, receivedAmount)
+    return calculator
   }
 
   updateRate(sourceAmount: PositiveInt, receivedAmount: Int, log: Logger): void {
@@ -74,6 +92,19 @@ export class ExchangeRateCalculator {
     this.receivedAmounts.set(sourceAmount.value, receivedAmount)
   }
 
+  /**
+   * Relative width of the rate bounds, `(upper bound - lower bound) / lower bound`,
+   * or `Infinity` if the lower bound is 0
+   */
+  getUncertainty(): BigNumber {
+    return this.lowerBoundRate.isPositive()
+      ? this.upperBoundRate
+          .subtract(this.lowerBoundRate)
+          .toBigNumber()
+          .dividedBy(this.lowerBoundRate.toBigNumber())
+      : new BigNumber(Infinity)
+  }
+
   /**
    * Estimate the delivered amount from the given source amount.
    * (1) Low-end estimate: at least this amount will get delivered, if the rate hasn't fluctuated.
@@ -129,6 +160,10 @@ export class ExchangeRateCalculator {
 export class ExchangeRateController implements StreamController {
   state?: ExchangeRateCalculator
 
+  constructor(state?: ExchangeRateCalculator) {
+    this.state = state
+  }
+
   applyRequest({ sourceAmount, log }: StreamRequest): (reply: StreamReply) => void {
     return ({ destinationAmount }: StreamReply) => {
       // Discard 0 amount packets
@@ -143,7 +178,7 @@ export class ExchangeRateController implements StreamController {
 
       if (!this.state) {
         // Once we establish a rate, from that point on, a rate is always known
-        this.state = new ExchangeRateCalculator(sourceAmount, destinationAmount, log)
+        this.state = ExchangeRateCalculator.fromPacket(sourceAmount, destinationAmount, log)
       } else {
         this.state.updateRate(sourceAmount, destinationAmount, log)
       }
@@ -7,16 +7,52 @@ import {
   StreamCloseFrame,
   Frame,
 } from 'ilp-protocol-stream/dist/src/packet'
-import { DEFAULT_STREAM_ID } from './amount'
 import { Logger } from 'ilp-logger'
 import { PaymentError } from '..'
 import { IlpError } from 'ilp-packet'
 
 /** Controller to cancel a payment if no more money is fulfilled */
 export class FailureController implements StreamController {
-  /** Number of milliseconds since the last Fulfill was received before the payment should fail */
+  /** Default number of milliseconds since the last Fulfill was received before the payment should fail */
   private static MAX_DURATION_SINCE_LAST_FULFILL = 10_000
 
+  /** Default number of retryable rejects of each error code tolerated within the window */
+  private static MAX_RETRYABLE_REJECTS = 5
+
+  /** Default number of milliseconds of the window to count retryable rejects */
+  private static REJECT_WINDOW_MS = 10_000
+
+  /** Delay before sending another packet after the first retryable reject, which doubles with each reject in the window */
+  private static BASE_BACKOFF_MS = 100
+
+  /** Maximum delay before sending another packet after a retryable reject */
+  private static MAX_BACKOFF_MS = 5_000
+
+  /** Errors that tend to be transient routing failures, which are retried within the budget */
+  private static RETRYABLE_ERRORS: string[] = [
+    IlpError.F00_BAD_REQUEST,
+    IlpError.F02_UNREACHABLE,
+    IlpError.R00_TRANSFER_TIMED_OUT,
+  ]
+
+  /** Number of milliseconds since the last Fulfill was received before the payment should fail */
+  private readonly idleTimeout: number
+
+  /** Number of retryable rejects of each error code tolerated within the window */
+  private readonly maxRetryableRejects: number
+
+  /** Number of milliseconds of the window to count retryable rejects */
+  private readonly rejectWindow: number
+
+  /** UNIX timestamps of recent retryable rejects in the window, by ILP error code */
+  private recentRejects = new Map<string, number[]>()
+
+  /** UNIX timestamp when packets may be sent again after a retryable reject */
+  private backoffUntil = 0
+
+  /** Number of rejected packets that could be fulfilled, by ILP error code */
+  private rejectCounts: { [code: string]: number } = {}
+
   /** UNIX timestamp when the last Fulfill was received. Begins when the first fulfillable Prepare is sent */
   private lastFulfillTime?: number
 
@@ -26,6 +62,25 @@ export class FailureController implements StreamController {
   /** Was the connection or stream closed by the recipient? */
   private remoteClosed = false
 
+  constructor({
+    idleTimeout = FailureController.MAX_DURATION_SINCE_LAST_FULFILL,
+    maxRetryableRejects = FailureController.MAX_RETRYABLE_REJECTS,
+    rejectWindow = FailureController.REJECT_WINDOW_MS,
+  }: {
+    idleTimeout?: number
+    maxRetryableRejects?: number
+    rejectWindow?: number
+  } = {}) {
+    this.idleTimeout = idleTimeout
+    this.maxRetryableRejects = maxRetryableRejects
+    this.rejectWindow = rejectWindow
+  }
+
+  /** Number of rejected packets that could be fulfilled, by ILP error code */
+  getRejectCounts(): { [code: string]: number } {
+    return { ...this.rejectCounts }
+  }
+
   nextState(builder: StreamRequestBuilder): SendState | PaymentError {
     const { log } = builder
 
@@ -40,7 +95,7 @@ export class FailureController implements StreamController {
     }
 
     if (this.lastFulfillTime) {
-      const deadline = this.lastFulfillTime + FailureController.MAX_DURATION_SINCE_LAST_FULFILL
+      const deadline = this.lastFulfillTime + this.idleTimeout
       if (Date.now() > deadline) {
         log.error(
           'ending payment: no Fulfill received before idle deadline. last fulfill: %s, deadline: %s',
@@ -52,9 +107,19 @@ export class FailureController implements StreamController {
       }
     }
 
+    // Exponentially backoff after retryable rejects
+    if (this.backoffUntil > Date.now()) {
+      return SendState.Wait
+    }
+
     return SendState.Ready
   }
 
+  /** Restart the idle timeout when the next fulfillable packet is sent, such as after the payment was paused */
+  resetIdleTimeout(): void {
+    this.lastFulfillTime = undefined
+  }
+
   applyRequest({ log, isFulfillable }: StreamRequest): (reply: StreamReply) => void {
     // Initialize timer when first fulfillable packet is sent
     // so the rate probe doesn't trigger an idle timeout
@@ -75,6 +140,10 @@ export class FailureController implements StreamController {
       if (reply.isReject()) {
         const { code, message, triggeredBy } = reply.ilpReject
 
+        if (isFulfillable) {
+          this.rejectCounts[code] = (this.rejectCounts[code] ?? 0) + 1
+        }
+
         // Ignore all temporary errors, F08, F99, & R01
         if (code[0] === 'T') {
           return
@@ -86,9 +155,31 @@ export class FailureController implements StreamController {
             return
         }
 
-        // TODO F02, R00 (and maybe even F00) tend to be routing errors.
-        //      Should it tolerate a few of these before ending the payment?
-        //      Timeout error could be a routing loop though?
+        // F02, R00, and F00 tend to be transient routing errors, so retry them
+        // within the budget. The rate probe fails fast, since the path may be unusable
+        if (isFulfillable && FailureController.RETRYABLE_ERRORS.includes(code)) {
+          const now = Date.now()
+          const recentRejects = (this.recentRejects.get(code) ?? [])
+            .filter((timestamp) => timestamp > now - this.rejectWindow)
+            .concat(now)
+          this.recentRejects.set(code, recentRejects)
+
+          if (recentRejects.length <= this.maxRetryableRejects) {
+            const backoffDuration = Math.min(
+              FailureController.BASE_BACKOFF_MS * 2 ** (recentRejects.length - 1),
+              FailureController.MAX_BACKOFF_MS
+            )
+            this.backoffUntil = Math.max(this.backoffUntil, now + backoffDuration)
+            log.debug(
+              'handling %s. retrying after %sms. %s of %s retryable rejects in window',
+              code,
+              backoffDuration,
+              recentRejects.length,
+              this.maxRetryableRejects
+            )
+            return
+          }
+        }
 
         // On any other error, end the payment immediately
         this.terminalReject = true
@@ -104,14 +195,15 @@ export class FailureController implements StreamController {
   }
 
   /**
-   * End the payment if the receiver closed the connection or the stream used to send money.
+   * End the payment if the receiver closed the connection or any stream used to send money.
+   * Since the sender opens all streams, they're odd-numbered, and receiver-initiated streams are ignored.
    * Note: this is also called when we received incoming packets to check for close frames
    */
   handleRemoteClose(responseFrames: Frame[], log: Logger): void {
     const closeFrame = responseFrames.find(
       (frame): frame is ConnectionCloseFrame | StreamCloseFrame =>
         frame.type === FrameType.ConnectionClose ||
-        (frame.type === FrameType.StreamClose && frame.streamId.equals(DEFAULT_STREAM_ID))
+        (frame.type === FrameType.StreamClose && frame.streamId.isOdd())
     )
     if (closeFrame) {
       log.error(
@@ -0,0 +1,39 @@
+import { StreamController, StreamRequestBuilder, SendState } from '.'
+import { PaymentError } from '..'
+
+/**
+ * Controller to stop sending packets once the invoice the payment pays into expires,
+ * since the recipient will no longer credit payments toward it
+ */
+export class InvoiceController implements StreamController {
+  /** UNIX timestamp in milliseconds when the invoice expires. Omitted if the payment doesn't pay into an invoice */
+  private readonly expiresAt?: number
+
+  constructor(expiresAt?: number) {
+    this.expiresAt = expiresAt
+  }
+
+  /** Limit the expiration of an ILP Prepare so it must be fulfilled before the invoice expires */
+  limitExpiry(packetExpiry: Date): Date {
+    return this.expiresAt !== undefined && packetExpiry.getTime() > this.expiresAt
+      ? new Date(this.expiresAt)
+      : packetExpiry
+  }
+
+  nextState(builder: StreamRequestBuilder): SendState | PaymentError {
+    if (this.expiresAt !== undefined && Date.now() >= this.expiresAt) {
+      builder.log.error(
+        'ending payment: invoice expired at %s',
+        new Date(this.expiresAt).toISOString()
+      )
+      builder.sendConnectionClose()
+      return PaymentError.InvoiceExpired
+    }
+
+    return SendState.Ready
+  }
+
+  applyRequest(): () => void {
+    return () => undefined
+  }
+}
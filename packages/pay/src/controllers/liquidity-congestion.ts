@@ -1,96 +1,114 @@
-// import { StreamController, StreamRequest, StreamReject, StreamFulfill } from './'
-// import { Errors } from 'ilp-packet'
-// import BigNumber from 'bignumber.js'
-// import { Integer, Rational } from '../utils'
-// import { PacingController } from './pacer'
-// import { ControllerMap } from './'
-
-// enum PacketType {
-//   Fulfill,
-//   LiquidityError,
-// }
-
-// // TODO Set "minimum bandwidth" to some multiple of the max packet amount?
-
-// export class CongestionController implements StreamController {
-//   /**
-//    * Fulfilled and rejected packets in window, sorted oldest to newest.
-//    * An epoch contains the last n fulfilled packets, and all T04 insufficient
-//    * liquidity errors in the same time interval.
-//    */
-//   private epochPackets: {
-//     type: PacketType
-//     timestamp: number
-//     sourceAmount: Integer
-//   }[] = []
-//   private pacer: PacingController
-
-//   constructor(controllers: ControllerMap) {
-//     this.pacer = controllers.get(PacingController)
-//   }
-
-//   public getPacketAmount(): Maybe<Integer> {
-//     // TODO Here's a problem: pacer freqency may not correspond to *actual* packet frequency
-//     const packetFrequency = new BigNumber(this.pacer.getPacketFrequency()) as Rational
-//     return this.estimateBandwidth().map(multiply(packetFrequency)).map(floor)
-//   }
-
-//   private estimateBandwidth(): number {
-//     if (this.epochPackets.length === 0) {
-//       return 0
-//     }
-
-//     const oldestPacket = this.epochPackets[0]
-//     const latestPacket = this.epochPackets[this.epochPackets.length - 1]
-
-//     const totalFulfilledInEpoch = this.epochPackets
-//       .filter((packet) => packet.type === PacketType.Fulfill)
-//       .map(({ sourceAmount }) => +sourceAmount)
-//       .reduce((a, b) => a + b)
-
-//     // TODO Improve this logic -- use all T04s in window to compute bandwidth ceilings
-//     //      at different points in time, then reduce to minimum
-
-//     // TODO What about on T04, set target to the middle between totalFulfilledInEpoch & totalFulfilled + sourceAmount?
-//     const bandwidthLimit =
-//       latestPacket.type === PacketType.LiquidityError
-//         ? // Total amount fulfilled + latest T04 amount is an upper bound on the available bandwidth
-//           totalFulfilledInEpoch + +latestPacket.sourceAmount // TODO This should still be limited by 1.4x
-//         : // If no T04 in epoch, increase available bandwidth
-//           totalFulfilledInEpoch * 1.4 // TODO What factor?
-
-//     // TODO Latest packet timestamp, or current timestamp?
-//     const epochDuration = latestPacket.timestamp - oldestPacket.timestamp
-//     return bandwidthLimit / epochDuration
-//   }
-
-//   applyRequest({ sourceAmount }: StreamRequest) {
-//     return (reply: StreamFulfill | StreamReject) => {
-//       if (reply instanceof StreamFulfill) {
-//         const numberFulfillsInEpoch = this.epochPackets.filter(
-//           (packet) => packet.type === PacketType.Fulfill
-//         ).length
-//         if (numberFulfillsInEpoch >= this.pacer.getMaxNumberInFlightPackets()) {
-//           // Remove the oldest Fulfill and all preceding packets
-//           // Number of Fulfills within the epoch should always be *at most* 10
-//           const oldestFulfill = this.epochPackets.findIndex(
-//             (packet) => packet.type === PacketType.Fulfill
-//           )
-//           this.epochPackets.splice(0, oldestFulfill + 1)
-//         }
-
-//         this.epochPackets.push({
-//           type: PacketType.Fulfill,
-//           timestamp: Date.now(),
-//           sourceAmount,
-//         })
-//       } else if (reply.ilpReject.code === Errors.codes.T04_INSUFFICIENT_LIQUIDITY) {
-//         this.epochPackets.push({
-//           type: PacketType.LiquidityError,
-//           timestamp: Date.now(),
-//           sourceAmount,
-//         })
-//       }
-//     }
-//   }
-// }
+import { ControllerMap, StreamController, StreamReject, StreamReply, StreamRequest } from '.'
+import { IlpError } from 'ilp-packet'
+import { Int, PositiveInt } from '../utils'
+import { PacingController } from './pacer'
+
+/**
+ * Congestion controller to limit packet amounts based on the liquidity bandwidth of the path.
+ * After connectors reject packets with T04 Insufficient Liquidity errors, the bandwidth estimate
+ * is reduced multiplicatively, then increased gradually as packets are fulfilled
+ */
+export class CongestionController implements StreamController {
+  /** Number of recent Fulfills to measure the throughput of the path */
+  private static MAX_FULFILLS_IN_WINDOW = 20
+
+  /** Factor to reduce the estimated bandwidth after a T04 error */
+  private static DECREASE_FACTOR = 0.5
+
+  /** Factor to increase the estimated bandwidth after each Fulfill */
+  private static INCREASE_FACTOR = 1.05
+
+  /** Recently fulfilled packets, sorted oldest to newest */
+  private recentFulfills: {
+    timestamp: number
+    sourceAmount: Int
+  }[] = []
+
+  /**
+   * Estimated liquidity available over the path, in source units per second.
+   * Unlimited until a T04 error is encountered
+   */
+  private bandwidth?: number
+
+  /** Set of all STREAM controllers */
+  private controllers: ControllerMap
+
+  constructor(controllers: ControllerMap) {
+    this.controllers = controllers
+  }
+
+  /**
+   * Return a limit on the amount of the next packet so packets sent at the
+   * current pace don't exceed the estimated bandwidth, if it's limited
+   */
+  getNextPacketAmount(): PositiveInt | undefined {
+    if (this.bandwidth === undefined) {
+      return
+    }
+
+    const packetFrequency = this.controllers.get(PacingController).getPacketFrequency()
+    const packetAmount = Int.from(Math.floor((this.bandwidth * packetFrequency) / 1000))
+    return packetAmount?.orGreater(Int.ONE)
+  }
+
+  applyRequest({ sourceAmount, isFulfillable }: StreamRequest): (reply: StreamReply) => void {
+    return (reply: StreamReply) => {
+      // Only track packets sent at the pace of the payment, not rate probe packets
+      if (!isFulfillable || !sourceAmount.isPositive()) {
+        return
+      }
+
+      if (reply.isReject()) {
+        if (reply.ilpReject.code === IlpError.T04_INSUFFICIENT_LIQUIDITY) {
+          this.reduceBandwidth(reply, sourceAmount)
+        }
+        return
+      }
+
+      this.recentFulfills.push({
+        timestamp: Date.now(),
+        sourceAmount,
+      })
+      if (this.recentFulfills.length > CongestionController.MAX_FULFILLS_IN_WINDOW) {
+        this.recentFulfills.shift()
+      }
+
+      if (this.bandwidth !== undefined) {
+        this.bandwidth *= CongestionController.INCREASE_FACTOR
+      }
+    }
+  }
+
+  /** Reduce the estimated bandwidth in response to a T04 error */
+  private reduceBandwidth({ log }: StreamReject, sourceAmount: PositiveInt) {
+    // Bandwidth is less than sending packets of this amount at the current pace,
+    // and less than the throughput that was recently fulfilled over the path
+    const packetFrequency = this.controllers.get(PacingController).getPacketFrequency()
+    const packetBandwidth = (+sourceAmount * 1000) / packetFrequency
+    const bandwidthLimit = Math.min(
+      packetBandwidth,
+      this.measureThroughput() ?? Infinity,
+      this.bandwidth ?? Infinity
+    )
+
+    this.bandwidth = bandwidthLimit * CongestionController.DECREASE_FACTOR
+    log.debug('handling T04. reducing estimated bandwidth to %s units / second', this.bandwidth)
+  }
+
+  /** Compute the amount fulfilled per second over the window of recent Fulfills */
+  private measureThroughput(): number | undefined {
+    if (this.recentFulfills.length < 2) {
+      return
+    }
+
+    // Amount of the oldest Fulfill was sent before the window began
+    const [oldestFulfill, ...fulfills] = this.recentFulfills
+    const duration = Date.now() - oldestFulfill.timestamp
+    if (duration <= 0) {
+      return
+    }
+
+    const amountFulfilled = fulfills.reduce((sum, { sourceAmount }) => sum + +sourceAmount, 0)
+    return (amountFulfilled * 1000) / duration
+  }
+}
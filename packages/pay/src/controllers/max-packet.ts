@@ -44,19 +44,36 @@ type MaxPacketAmount =
 /** Controller to limit packet amount based on F08 errors */
 export class MaxPacketAmountController implements StreamController {
   /** Max packet amount and how it was discovered */
-  private state: MaxPacketAmount = {
-    type: MaxPacketState.UnknownMax,
-  }
+  private state: MaxPacketAmount
 
   /**
    * Greatest amount the recipient acknowledged to have received.
    * Note: this is always reduced so it's never greater than the max packet amount
    */
-  private verifiedPathCapacity = Int.ZERO
+  private verifiedPathCapacity: Int
 
   /** Is the max packet amount 0 and impossible to send value over this path? */
   private noCapacityAvailable = false
 
+  /**
+   * @param discoveredMaxPacketAmount Max packet amount of the path if it was previously discovered,
+   *   such as when resuming a payment, to skip discovery via F08 errors
+   */
+  constructor(discoveredMaxPacketAmount?: PositiveInt) {
+    if (discoveredMaxPacketAmount) {
+      this.state = {
+        type: MaxPacketState.PreciseMax,
+        maxPacketAmount: discoveredMaxPacketAmount,
+      }
+      this.verifiedPathCapacity = discoveredMaxPacketAmount
+    } else {
+      this.state = {
+        type: MaxPacketState.UnknownMax,
+      }
+      this.verifiedPathCapacity = Int.ZERO
+    }
+  }
+
   nextState(builder: StreamRequestBuilder): SendState | PaymentError {
     if (this.noCapacityAvailable) {
       builder.sendConnectionClose()
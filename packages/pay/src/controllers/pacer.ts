@@ -1,12 +1,13 @@
 import { StreamController, StreamReply, SendState } from '.'
 import { IlpError } from 'ilp-packet'
+import { noopMetrics, PaymentMetric, PaymentMetrics } from '../metrics'
 
 /**
  * Flow controller to send packets at a consistent cadence
  * and prevent sending more packets than the network can handle
  */
 export class PacingController implements StreamController {
-  /** Maximum number of packets to have in-flight, yet to receive a Fulfill or Reject */
+  /** Default maximum number of packets to have in-flight, yet to receive a Fulfill or Reject */
   private static MAX_INFLIGHT_PACKETS = 20
 
   /** Initial number of packets to send in 1 second interval (25ms delay between packets) */
@@ -15,7 +16,7 @@ export class PacingController implements StreamController {
   /** Always try to send at least 1 packet in 1 second (unless RTT is very high) */
   private static MIN_PACKETS_PER_SECOND = 1
 
-  /** Maximum number of packets to send in a 1 second interval, after ramp up (5ms delay) */
+  /** Default maximum number of packets to send in a 1 second interval, after ramp up (5ms delay) */
   private static MAX_PACKETS_PER_SECOND = 200
 
   /** RTT to use for pacing before an average can be ascertained */
@@ -24,6 +25,15 @@ export class PacingController implements StreamController {
   /** Weight to compute next RTT average. Halves weight of past round trips every ~5 flights */
   private static ROUND_TRIP_AVERAGE_WEIGHT = 0.9
 
+  /** Maximum number of packets to have in-flight, yet to receive a Fulfill or Reject */
+  private readonly maxInFlightPackets: number
+
+  /** Maximum number of packets to send in a 1 second interval */
+  private readonly maxPacketsPerSecond: number
+
+  /** Minimum number of packets to send in a 1 second interval after backing off */
+  private readonly minPacketsPerSecond: number
+
   /** UNIX timestamp when most recent packet was sent */
   private lastPacketSentTime = 0
 
@@ -34,7 +44,33 @@ export class PacingController implements StreamController {
   private averageRoundTrip = PacingController.DEFAULT_ROUND_TRIP_TIME_MS
 
   /** Rate of packets to send per second. This shouldn't ever be 0, but may become a small fraction */
-  private packetsPerSecond = PacingController.DEFAULT_PACKETS_PER_SECOND
+  private packetsPerSecond: number
+
+  /** Hooks to record the round trip time of each packet */
+  private readonly metrics: PaymentMetrics
+
+  constructor(
+    {
+      maxInFlightPackets = PacingController.MAX_INFLIGHT_PACKETS,
+      maxPacketsPerSecond = PacingController.MAX_PACKETS_PER_SECOND,
+    }: {
+      maxInFlightPackets?: number
+      maxPacketsPerSecond?: number
+    } = {},
+    metrics = noopMetrics
+  ) {
+    this.metrics = metrics
+    this.maxInFlightPackets = maxInFlightPackets
+    this.maxPacketsPerSecond = maxPacketsPerSecond
+    this.minPacketsPerSecond = Math.min(
+      PacingController.MIN_PACKETS_PER_SECOND,
+      maxPacketsPerSecond
+    )
+    this.packetsPerSecond = Math.min(
+      PacingController.DEFAULT_PACKETS_PER_SECOND,
+      maxPacketsPerSecond
+    )
+  }
 
   /**
    * Rate to send packets, in packets / millisecond, using packet rate limit and round trip time.
@@ -42,11 +78,16 @@ export class PacingController implements StreamController {
    */
   getPacketFrequency(): number {
     const packetsPerSecondDelay = 1000 / this.packetsPerSecond
-    const maxInFlightDelay = this.averageRoundTrip / PacingController.MAX_INFLIGHT_PACKETS
+    const maxInFlightDelay = this.averageRoundTrip / this.maxInFlightPackets
 
     return Math.max(packetsPerSecondDelay, maxInFlightDelay)
   }
 
+  /** Current rate of packets to send per second, which decreases after temporary errors */
+  getPacketsPerSecond(): number {
+    return this.packetsPerSecond
+  }
+
   /** Earliest UNIX timestamp when the pacer will allow the next packet to be sent */
   getNextPacketSendTime(): number {
     const delayDuration = this.getPacketFrequency()
@@ -54,7 +95,7 @@ export class PacingController implements StreamController {
   }
 
   nextState(): SendState {
-    const exceedsMaxInFlight = this.numberInFlight + 1 > PacingController.MAX_INFLIGHT_PACKETS
+    const exceedsMaxInFlight = this.numberInFlight + 1 > this.maxInFlightPackets
     if (exceedsMaxInFlight) {
       return SendState.Wait
     }
@@ -77,6 +118,7 @@ export class PacingController implements StreamController {
       // Only update the RTT if we know the request got to the recipient
       if (reply.isAuthentic()) {
         const roundTripTime = Math.max(Date.now() - sentTime, 0)
+        this.metrics.observe(PaymentMetric.RoundTripTime, roundTripTime / 1000, {})
         this.averageRoundTrip =
           this.averageRoundTrip * PacingController.ROUND_TRIP_AVERAGE_WEIGHT +
           roundTripTime * (1 - PacingController.ROUND_TRIP_AVERAGE_WEIGHT)
@@ -90,7 +132,7 @@ export class PacingController implements StreamController {
         reply.ilpReject.code !== IlpError.T04_INSUFFICIENT_LIQUIDITY
       ) {
         const reducedRate = Math.max(
-          PacingController.MIN_PACKETS_PER_SECOND,
+          this.minPacketsPerSecond,
           this.packetsPerSecond / 2 // Fractional rates are fine
         )
         reply.log.debug(
@@ -102,10 +144,7 @@ export class PacingController implements StreamController {
       }
       // If the packet got through, additive increase of sending rate, up to some maximum
       else if (reply.isAuthentic()) {
-        this.packetsPerSecond = Math.min(
-          PacingController.MAX_PACKETS_PER_SECOND,
-          this.packetsPerSecond + 0.5
-        )
+        this.packetsPerSecond = Math.min(this.maxPacketsPerSecond, this.packetsPerSecond + 0.5)
       }
     }
   }
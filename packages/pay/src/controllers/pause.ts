@@ -0,0 +1,42 @@
+import { StreamController, StreamRequestBuilder, SendState } from '.'
+import { PaymentError } from '..'
+
+/**
+ * Controller to stop sending packets if the payment is paused or aborted. Unlike
+ * other errors, the connection isn't closed, so the payment may be resumed
+ */
+export class PauseController implements StreamController {
+  /** Did the user pause the payment? */
+  private paused = false
+
+  /** Signal to abort the payment, if provided when the payment was started */
+  private signal?: AbortSignal
+
+  pause(): void {
+    this.paused = true
+  }
+
+  /**
+   * Allow the payment to send packets again, until it's paused or the given signal is aborted.
+   * If no signal is given, the previous signal is still enforced, unless it was already aborted
+   */
+  resume(signal?: AbortSignal): void {
+    this.paused = false
+    if (signal || this.signal?.aborted) {
+      this.signal = signal
+    }
+  }
+
+  nextState({ log }: StreamRequestBuilder): SendState | PaymentError {
+    if (this.paused || this.signal?.aborted) {
+      log.debug('stopping payment: paused or aborted by user')
+      return PaymentError.Cancelled
+    }
+
+    return SendState.Ready
+  }
+
+  applyRequest(): () => void {
+    return () => undefined
+  }
+}
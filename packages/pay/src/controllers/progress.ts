@@ -0,0 +1,200 @@
+import { EventEmitter } from 'events'
+import BigNumber from 'bignumber.js'
+import createLogger from 'ilp-logger'
+import { ControllerMap, StreamController, StreamReply, StreamRequest } from '.'
+import { AccountController } from './asset-details'
+import { AmountController } from './amount'
+import { ExchangeRateController } from './exchange-rate'
+import { MaxPacketAmountController } from './max-packet'
+import { PacingController } from './pacer'
+import { Int, Ratio } from '../utils'
+import { Receipt } from '..'
+
+/** Running totals of the payment, in normalized units with arbitrary precision */
+export interface PaymentProgress {
+  /** Amount sent and fulfilled, in normalized source units */
+  amountSent: BigNumber
+  /** Amount delivered to the recipient, in normalized destination units */
+  amountDelivered: BigNumber
+  /** Amount sent that is yet to be fulfilled or rejected, in normalized source units */
+  sourceAmountInFlight: BigNumber
+}
+
+/** Outcome of a single ILP Prepare that could be fulfilled */
+export interface PacketProgress extends PaymentProgress {
+  /** Sequence number of the STREAM packet */
+  sequence: number
+  /** Amount of the ILP Prepare, in normalized source units */
+  sourceAmount: BigNumber
+  /** Amount the recipient claimed to receive, in normalized destination units. Omitted if no authentic STREAM reply */
+  destinationAmount?: BigNumber
+}
+
+/** Outcome of an ILP Prepare that was rejected */
+export interface RejectProgress extends PacketProgress {
+  /** ILP error code of the Reject */
+  code: string
+}
+
+/** Events emitted by a payment, in the order they may occur */
+export interface PaymentEvents {
+  /** Payment started sending money. Not emitted again if the payment is resumed */
+  start: () => void
+  /** Packet was fulfilled, and the running totals were updated */
+  fulfill: (event: PacketProgress) => void
+  /** Packet was rejected */
+  reject: (event: RejectProgress) => void
+  /** Probed exchange rate changed: range of [minimum, maximum] in normalized units */
+  rate: (estimatedExchangeRate: [BigNumber, BigNumber]) => void
+  /** Discovered a new max packet amount of the path, in normalized source units */
+  maxPacketAmount: (maxPacketAmount: BigNumber) => void
+  /** Reduced the rate of sending packets after a temporary error */
+  backoff: (event: { packetsPerSecond: number; code: string }) => void
+  /** Payment ended, successfully or with an error. Not emitted if the payment is paused or aborted */
+  end: (receipt: Receipt) => void
+}
+
+/** Event emitter to observe the progress and lifecycle of a payment */
+export interface PaymentEventEmitter {
+  on<E extends keyof PaymentEvents>(event: E, listener: PaymentEvents[E]): this
+  once<E extends keyof PaymentEvents>(event: E, listener: PaymentEvents[E]): this
+  off<E extends keyof PaymentEvents>(event: E, listener: PaymentEvents[E]): this
+  emit<E extends keyof PaymentEvents>(event: E, ...args: Parameters<PaymentEvents[E]>): boolean
+}
+
+const log = createLogger('ilp-pay:events')
+
+/**
+ * Event emitter that catches and logs errors thrown by listeners. Events are emitted while applying
+ * replies, so a throwing listener would otherwise prevent other controllers from applying the reply
+ */
+class SafeEventEmitter extends EventEmitter {
+  emit(event: string | symbol, ...args: unknown[]): boolean {
+    const listeners = this.rawListeners(event)
+    for (const listener of listeners) {
+      try {
+        listener.apply(this, args)
+      } catch (err) {
+        log.error('%s listener threw an error: %s', String(event), err)
+      }
+    }
+    return listeners.length > 0
+  }
+}
+
+export const createPaymentEmitter = (): PaymentEventEmitter =>
+  new SafeEventEmitter() as PaymentEventEmitter
+
+/**
+ * Controller to emit progress events after each reply, once all amounts,
+ * rates, and limits are updated by the other controllers
+ */
+export class ProgressController implements StreamController {
+  /** Emitter to notify of events. Omitted before the payment is quoted, so no events are emitted */
+  private emitter?: PaymentEventEmitter
+
+  /** Most recently reported bounds of the probed exchange rate */
+  private lastRate?: [Ratio, Ratio]
+
+  /** Most recently reported max packet amount */
+  private lastMaxPacketAmount?: Int
+
+  /** Rate of sending packets after the previous reply */
+  private lastPacketsPerSecond = 0
+
+  /** Set of all STREAM controllers */
+  private controllers: ControllerMap
+
+  constructor(controllers: ControllerMap) {
+    this.controllers = controllers
+  }
+
+  setEmitter(emitter: PaymentEventEmitter): void {
+    this.emitter = emitter
+
+    // Only report changes after the quote
+    const rateCalculator = this.controllers.get(ExchangeRateController).state
+    if (rateCalculator) {
+      this.lastRate = [rateCalculator.lowerBoundRate, rateCalculator.upperBoundRate]
+    }
+    this.lastMaxPacketAmount = this.controllers
+      .get(MaxPacketAmountController)
+      .getDiscoveredMaxPacketAmount()
+    this.lastPacketsPerSecond = this.controllers.get(PacingController).getPacketsPerSecond()
+  }
+
+  applyRequest({
+    sequence,
+    sourceAmount,
+    isFulfillable,
+  }: StreamRequest): (reply: StreamReply) => void {
+    return (reply: StreamReply) => {
+      const accountController = this.controllers.get(AccountController)
+      const sourceScale = accountController.getSourceAccount().assetScale
+      const destinationScale = accountController.getDestinationAccount()?.assetScale
+      if (!this.emitter || destinationScale === undefined) {
+        return
+      }
+
+      const toSourceUnits = (amount: Int) => amount.toBigNumber().shiftedBy(-sourceScale)
+      const toDestinationUnits = (amount: Int) => amount.toBigNumber().shiftedBy(-destinationScale)
+      const toRate = (rate: Ratio) =>
+        rate.toBigNumber().shiftedBy(-destinationScale).shiftedBy(sourceScale)
+
+      if (isFulfillable) {
+        const amountController = this.controllers.get(AmountController)
+        const event: PacketProgress = {
+          sequence,
+          sourceAmount: toSourceUnits(sourceAmount),
+          ...(reply.destinationAmount && {
+            destinationAmount: toDestinationUnits(reply.destinationAmount),
+          }),
+          amountSent: toSourceUnits(amountController.getAmountSent()),
+          amountDelivered: toDestinationUnits(amountController.getAmountDelivered()),
+          sourceAmountInFlight: toSourceUnits(amountController.getSourceAmountInFlight()),
+        }
+
+        if (reply.isReject()) {
+          this.emitter.emit('reject', { ...event, code: reply.ilpReject.code })
+        } else {
+          this.emitter.emit('fulfill', event)
+        }
+      }
+
+      const rateCalculator = this.controllers.get(ExchangeRateController).state
+      if (rateCalculator) {
+        const { lowerBoundRate, upperBoundRate } = rateCalculator
+        const rateChanged =
+          !this.lastRate ||
+          !isEqualRatio(this.lastRate[0], lowerBoundRate) ||
+          !isEqualRatio(this.lastRate[1], upperBoundRate)
+        if (rateChanged) {
+          this.lastRate = [lowerBoundRate, upperBoundRate]
+          this.emitter.emit('rate', [toRate(lowerBoundRate), toRate(upperBoundRate)])
+        }
+      }
+
+      const maxPacketAmount = this.controllers
+        .get(MaxPacketAmountController)
+        .getDiscoveredMaxPacketAmount()
+      if (
+        maxPacketAmount &&
+        (!this.lastMaxPacketAmount || !maxPacketAmount.isEqualTo(this.lastMaxPacketAmount))
+      ) {
+        this.lastMaxPacketAmount = maxPacketAmount
+        this.emitter.emit('maxPacketAmount', toSourceUnits(maxPacketAmount))
+      }
+
+      const packetsPerSecond = this.controllers.get(PacingController).getPacketsPerSecond()
+      if (reply.isReject() && packetsPerSecond < this.lastPacketsPerSecond) {
+        this.emitter.emit('backoff', {
+          packetsPerSecond,
+          code: reply.ilpReject.code,
+        })
+      }
+      this.lastPacketsPerSecond = packetsPerSecond
+    }
+  }
+}
+
+const isEqualRatio = (a: Ratio, b: Ratio): boolean => !a.isLessThan(b) && !a.isGreaterThan(b)
@@ -7,27 +7,22 @@ import {
   StreamRequest,
   StreamReply,
 } from '.'
-import { Int } from '../utils'
+import { Int, PositiveInt } from '../utils'
 import { MaxPacketAmountController } from './max-packet'
 import { PromiseResolver } from '../utils'
 import { ExchangeRateController, ExchangeRateCalculator } from './exchange-rate'
 
-// TODO Improve discovery of accurate exchange rates
-
 export interface RateProbeOutcome {
-  maxPacketAmount: Int
+  maxPacketAmount: PositiveInt
   rateCalculator: ExchangeRateCalculator
 }
 
 export class RateProbe implements StreamController {
+  /** Default number of milliseconds after the first test packet is sent before the probe fails */
   private static TIMEOUT_MS = 10000
 
-  private status = new PromiseResolver<RateProbeOutcome>()
-
-  private deadline?: number
-  private controllers: ControllerMap
-  private initialTestPacketAmounts = [
-    0,
+  /** Default ladder of test packet amounts, in source units */
+  private static TEST_PACKET_AMOUNTS = [
     1e12,
     1e11,
     1e10,
@@ -41,7 +36,27 @@ export class RateProbe implements StreamController {
     100,
     10,
     1,
-  ].map(Int.from)
+  ].map(Int.from) as PositiveInt[]
+
+  /** Maximum number of source amounts to consider when searching for a packet to refine the rate */
+  private static MAX_REFINEMENT_CANDIDATES = 1000
+
+  private status = new PromiseResolver<RateProbeOutcome>()
+
+  private deadline?: number
+  private controllers: ControllerMap
+
+  /** Remaining test packet amounts to send, beginning with 0 to fetch the destination asset details */
+  private initialTestPacketAmounts: Int[]
+
+  /** Number of milliseconds after the first test packet is sent to stop probing */
+  private readonly timeout: number
+
+  /**
+   * Maximum relative width of the rate bounds for the probe to complete, so it continues to refine
+   * the rate after the test packets, within its time budget. If omitted, the rate is not refined
+   */
+  private readonly tolerance?: number
 
   /** Amounts that are in flight */
   private inFlightAmounts = new Set<bigint>()
@@ -49,8 +64,25 @@ export class RateProbe implements StreamController {
   /** Amounts sent that received an authentic reply */
   private ackedAmounts = new Set<bigint>()
 
-  constructor(controllers: ControllerMap) {
+  /** Greatest amount sent that received an authentic reply */
+  private greatestAckedAmount = Int.ZERO
+
+  constructor(
+    controllers: ControllerMap,
+    {
+      testPacketAmounts = RateProbe.TEST_PACKET_AMOUNTS,
+      timeout = RateProbe.TIMEOUT_MS,
+      tolerance,
+    }: {
+      testPacketAmounts?: PositiveInt[]
+      timeout?: number
+      tolerance?: number
+    } = {}
+  ) {
     this.controllers = controllers
+    this.initialTestPacketAmounts = [Int.ZERO, ...testPacketAmounts]
+    this.timeout = timeout
+    this.tolerance = tolerance
   }
 
   done(): Promise<RateProbeOutcome> {
@@ -58,12 +90,10 @@ export class RateProbe implements StreamController {
   }
 
   nextState(builder: StreamRequestBuilder): SendState | PaymentError {
-    if (this.deadline && Date.now() > this.deadline) {
-      return PaymentError.RateProbeFailed
-    }
+    const isExpired = !!this.deadline && Date.now() > this.deadline
 
     const nextTestPacket = this.initialTestPacketAmounts[0]
-    if (nextTestPacket) {
+    if (nextTestPacket && !isExpired) {
       builder.setSourceAmount(nextTestPacket).send()
       return SendState.Wait
     }
@@ -74,7 +104,25 @@ export class RateProbe implements StreamController {
       .get(MaxPacketAmountController)
       .getDiscoveredMaxPacketAmount()
     const rateCalculator = this.controllers.get(ExchangeRateController).state
-    if (knownMaxPacketAmount && rateCalculator && this.inFlightAmounts.size === 0) {
+    if (knownMaxPacketAmount && rateCalculator) {
+      // Wait for the reply to the previous refinement packet
+      if (this.inFlightAmounts.size > 0) {
+        return SendState.Wait
+      }
+
+      // Within the time budget, continue probing until the rate bounds converge
+      const refinementAmount =
+        !isExpired && this.getRefinementAmount(knownMaxPacketAmount, rateCalculator)
+      if (refinementAmount) {
+        builder.setSourceAmount(refinementAmount).send()
+        return SendState.Wait
+      }
+
+      builder.log.debug(
+        'rate probe complete. bounds: [%s, %s]',
+        rateCalculator.lowerBoundRate,
+        rateCalculator.upperBoundRate
+      )
       this.status.resolve({
         maxPacketAmount: knownMaxPacketAmount,
         rateCalculator,
@@ -82,6 +130,10 @@ export class RateProbe implements StreamController {
       return SendState.End
     }
 
+    if (isExpired) {
+      return PaymentError.RateProbeFailed
+    }
+
     const maxPacketProbeAmount = this.controllers
       .get(MaxPacketAmountController)
       .getNextMaxPacketAmount()
@@ -105,7 +157,7 @@ export class RateProbe implements StreamController {
 
     // Set deadline when the first test packet is sent
     if (!this.deadline) {
-      this.deadline = Date.now() + RateProbe.TIMEOUT_MS
+      this.deadline = Date.now() + this.timeout
     }
 
     return (reply: StreamReply) => {
@@ -113,7 +165,45 @@ export class RateProbe implements StreamController {
 
       if (reply.isAuthentic()) {
         this.ackedAmounts.add(sourceAmount.value)
+        this.greatestAckedAmount = this.greatestAckedAmount.orGreater(sourceAmount)
       }
     }
   }
+
+  /**
+   * Find the greatest source amount, up to the greatest amount the recipient acknowledged, that may
+   * narrow the rate bounds, if they haven't yet converged within the tolerance. Returns `undefined`
+   * if refinement is disabled, the bounds converged, or no amount may narrow them any further.
+   */
+  private getRefinementAmount(
+    maxPacketAmount: PositiveInt,
+    rateCalculator: ExchangeRateCalculator
+  ): PositiveInt | undefined {
+    if (
+      this.tolerance === undefined ||
+      rateCalculator.getUncertainty().isLessThanOrEqualTo(this.tolerance)
+    ) {
+      return
+    }
+
+    // Don't exceed amounts known to reach the recipient, since the max packet amount may be unbounded
+    let sourceAmount = maxPacketAmount.orLesser(this.greatestAckedAmount)
+
+    // Amounts whose destination amount is already known, or would be the same at either rate
+    // bound, can't narrow the bounds, so try successively smaller amounts
+    for (let i = 0; i < RateProbe.MAX_REFINEMENT_CANDIDATES; i++) {
+      if (!sourceAmount.isPositive()) {
+        return
+      }
+
+      const [lowEndDestination, highEndDestination] = rateCalculator.estimateDestinationAmount(
+        sourceAmount
+      )
+      if (lowEndDestination.isLessThan(highEndDestination)) {
+        return sourceAmount
+      }
+
+      sourceAmount = sourceAmount.subtract(Int.ONE)
+    }
+  }
 }
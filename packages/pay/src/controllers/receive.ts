@@ -0,0 +1,107 @@
+import { StreamController } from '.'
+import {
+  Frame,
+  FrameType,
+  StreamMaxMoneyFrame,
+  StreamMoneyFrame,
+} from 'ilp-protocol-stream/dist/src/packet'
+import { Logger } from 'ilp-logger'
+import { Int, Ratio } from '../utils'
+
+/**
+ * Controller to accept incoming money from the recipient over the same connection,
+ * such as for refunds, up to a maximum amount in source units. Receiving is disabled
+ * unless a positive receive max is provided.
+ */
+export class ReceiveController implements StreamController {
+  /** Maximum total amount to accept over the connection, in source units */
+  private readonly receiveMax: Int
+
+  /** Total amount received and fulfilled over the connection, in source units */
+  private amountReceived: Int
+
+  /** Amount received and fulfilled over each stream, in source units */
+  private amountReceivedByStream = new Map<number, Int>()
+
+  constructor(receiveMax = Int.ZERO, amountReceived = Int.ZERO) {
+    this.receiveMax = receiveMax
+    this.amountReceived = amountReceived
+  }
+
+  /** Can incoming money be accepted from the recipient? */
+  isReceiving(): boolean {
+    return this.receiveMax.isPositive()
+  }
+
+  getReceiveMax(): Int {
+    return this.receiveMax
+  }
+
+  getAmountReceived(): Int {
+    return this.amountReceived
+  }
+
+  /**
+   * Credit an incoming ILP Prepare that will be fulfilled, if it's within the receive max.
+   * Returns if the money was accepted, and frames to advertise the remaining limit of each stream.
+   * @param amount Amount of the incoming ILP Prepare, in source units
+   * @param requestFrames Frames of the incoming STREAM request
+   * @param log Logger namespaced to this connection
+   */
+  receive(amount: Int, requestFrames: Frame[], log: Logger): { accept: boolean; frames: Frame[] } {
+    const moneyFrames = requestFrames.filter(
+      (frame): frame is StreamMoneyFrame => frame.type === FrameType.StreamMoney
+    )
+    const totalShares = moneyFrames.reduce((sum, { shares }) => sum.add(Int.from(shares)), Int.ZERO)
+    if (!totalShares.isPositive() || !amount.isPositive()) {
+      return { accept: false, frames: [] }
+    }
+
+    const accept = this.amountReceived.add(amount).isLessThanOrEqualTo(this.receiveMax)
+    if (accept) {
+      this.amountReceived = this.amountReceived.add(amount)
+
+      // Split the amount across the streams proportional to their shares, like `ilp-protocol-stream`
+      let remainingAmount: Int = amount
+      moneyFrames.forEach(({ streamId, shares }, i) => {
+        const streamAmount =
+          i === moneyFrames.length - 1
+            ? remainingAmount
+            : amount.multiplyFloor(new Ratio(Int.from(shares), totalShares))
+        remainingAmount = remainingAmount.subtract(streamAmount)
+
+        const id = streamId.toNumber()
+        this.amountReceivedByStream.set(
+          id,
+          (this.amountReceivedByStream.get(id) ?? Int.ZERO).add(streamAmount)
+        )
+      })
+
+      log.debug('accepted incoming money: %s. total received: %s', amount, this.amountReceived)
+    } else {
+      log.debug(
+        'declining incoming money: %s exceeds receive max. received: %s, receive max: %s',
+        amount,
+        this.amountReceived,
+        this.receiveMax
+      )
+    }
+
+    // Advertise the remaining connection limit as the receive max of each stream
+    const remainingReceiveMax = this.receiveMax.subtract(this.amountReceived)
+    const frames = moneyFrames.map(({ streamId }) => {
+      const streamReceived = this.amountReceivedByStream.get(streamId.toNumber()) ?? Int.ZERO
+      return new StreamMaxMoneyFrame(
+        streamId,
+        streamReceived.add(remainingReceiveMax).toLong(),
+        streamReceived.toLong()
+      )
+    })
+
+    return { accept, frames }
+  }
+
+  applyRequest(): () => void {
+    return () => undefined
+  }
+}
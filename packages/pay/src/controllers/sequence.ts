@@ -4,7 +4,16 @@ import { PaymentError } from '..'
 /** Track the sequence number of outgoing packets */
 export class SequenceController implements StreamController {
   private static PACKET_LIMIT = 2 ** 32
-  private nextSequence = 0
+  private nextSequence: number
+
+  constructor(nextSequence = 0) {
+    this.nextSequence = nextSequence
+  }
+
+  /** Sequence number of the next packet to send */
+  getNextSequence(): number {
+    return this.nextSequence
+  }
 
   nextState(builder: StreamRequestBuilder): SendState | PaymentError {
     builder.setSequence(this.nextSequence)
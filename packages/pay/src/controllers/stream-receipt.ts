@@ -0,0 +1,75 @@
+import { StreamController, StreamReply } from '.'
+import { FrameType, StreamReceiptFrame } from 'ilp-protocol-stream/dist/src/packet'
+import { decodeReceipt, verifyReceipt } from 'ilp-protocol-stream/dist/src/util/receipt'
+import BigNumber from 'bignumber.js'
+import { Int } from '../utils'
+
+/** Contents of a STREAM receipt that was authenticated with the receipt secret */
+export interface VerifiedStreamReceipt {
+  /** Nonce the recipient was provided to generate receipts for this connection */
+  nonce: Buffer
+  /** Stream the receipt was issued for */
+  streamId: number
+  /** Total amount received on the stream, in base units of the destination asset */
+  totalReceived: BigNumber
+}
+
+/**
+ * Verify a STREAM receipt was signed with the receipt secret, so a third party may prove how much was
+ * delivered without trusting the sender. Returns its contents, or `undefined` if it's invalid or inauthentic
+ */
+export const verifyStreamReceipt = (
+  receipt: Buffer,
+  secret: Buffer
+): VerifiedStreamReceipt | undefined => {
+  try {
+    const { nonce, streamId, totalReceived } = verifyReceipt(receipt, secret)
+    return {
+      nonce,
+      streamId: +streamId,
+      totalReceived: new BigNumber(totalReceived.toString()),
+    }
+  } catch (_) {
+    return
+  }
+}
+
+/** Controller to collect the latest STREAM receipt the recipient issued for each stream */
+export class StreamReceiptController implements StreamController {
+  /** Receipt with the greatest total received for each stream, by stream ID */
+  private receipts = new Map<number, { receipt: Buffer; totalReceived: Int }>()
+
+  /** Latest STREAM receipt for the given stream, if the recipient issued any */
+  getReceipt(streamId: number): Buffer | undefined {
+    return this.receipts.get(streamId)?.receipt
+  }
+
+  applyRequest(): (reply: StreamReply) => void {
+    return ({ frames, log }: StreamReply) => {
+      frames
+        ?.filter((frame): frame is StreamReceiptFrame => frame.type === FrameType.StreamReceipt)
+        .forEach(({ streamId, receipt }) => {
+          // Receipts can only be verified with the secret, so only check they're well-formed
+          let totalReceived: Int
+          try {
+            const decoded = decodeReceipt(receipt)
+            if (!streamId.equals(decoded.streamId)) {
+              log.warn('ignoring STREAM receipt: stream ID does not match frame')
+              return
+            }
+            totalReceived = Int.from(decoded.totalReceived)
+          } catch (_) {
+            log.warn('ignoring STREAM receipt: invalid encoding')
+            return
+          }
+
+          // Replies may arrive out of order, so only keep the receipt for the greatest amount
+          const id = streamId.toNumber()
+          const latest = this.receipts.get(id)
+          if (!latest || totalReceived.isGreaterThanOrEqualTo(latest.totalReceived)) {
+            this.receipts.set(id, { receipt, totalReceived })
+          }
+        })
+    }
+  }
+}
@@ -0,0 +1,115 @@
+import Axios, { Method } from 'axios'
+
+/** Options of an HTTP request, a subset of the Fetch API `RequestInit` */
+export interface HttpRequestOptions {
+  /** HTTP method of the request. Default: `GET` */
+  method?: Method
+  /** Headers of the request, such as `Accept` */
+  headers?: {
+    [name: string]: string
+  }
+  /** Signal to cancel the request, such as an `AbortSignal`. Once aborted, the request should reject */
+  signal?: CancelSignal
+}
+
+/** Signal to cancel an in-flight request, a subset of the DOM `AbortSignal` */
+export interface CancelSignal {
+  /** Has the request been cancelled? */
+  readonly aborted: boolean
+  /** Register a listener called once the request is cancelled */
+  addEventListener(type: 'abort', listener: () => void): void
+}
+
+/** Response to an HTTP request, a subset of the Fetch API `Response` */
+export interface HttpResponse {
+  /** Is the status code within 200-299? */
+  ok: boolean
+  /** HTTP status code of the response */
+  status: number
+  /** Parse the body of the response as JSON */
+  json(): Promise<unknown>
+  /** Read the body of the response as a string */
+  text(): Promise<string>
+}
+
+/**
+ * Fetch-like function to send HTTP requests to Open Payments and SPSP servers and external rate APIs,
+ * such as to add authentication headers, use a proxy or mTLS, or respond from test fixtures
+ */
+export type HttpClient = (url: string, options?: HttpRequestOptions) => Promise<HttpResponse>
+
+/** Number of milliseconds until requests sent by the default HTTP client time out */
+const DEFAULT_HTTP_TIMEOUT_MS = 5000
+
+/** Default HTTP client using Axios, which rejects if no response is received within 5 seconds */
+export const defaultHttpClient: HttpClient = async (
+  url,
+  { method = 'GET', headers, signal } = {}
+) => {
+  const { token, cancel } = Axios.CancelToken.source()
+  if (signal?.aborted) {
+    cancel()
+  } else {
+    signal?.addEventListener('abort', () => cancel())
+  }
+
+  const { status, data } = await Axios.request({
+    url,
+    method,
+    headers,
+    cancelToken: token,
+    timeout: DEFAULT_HTTP_TIMEOUT_MS,
+    responseType: 'text',
+    transformResponse: (body) => body, // Don't parse JSON, so the raw body is available
+    validateStatus: () => true, // Resolve with any status code, like the Fetch API
+  })
+
+  const body = typeof data === 'string' ? data : String(data ?? '')
+  return {
+    ok: status >= 200 && status < 300,
+    status,
+    json: async () => JSON.parse(body),
+    text: async () => body,
+  }
+}
+
+/** Send a request with the given HTTP client and parse the JSON body, or reject if the status code isn't 2xx */
+export const fetchJson = async (
+  httpClient: HttpClient,
+  url: string,
+  options?: HttpRequestOptions
+): Promise<unknown> => {
+  const response = await httpClient(url, options)
+  if (!response.ok) {
+    throw new Error(`Request to ${url} failed with status ${response.status}`)
+  }
+  return response.json()
+}
+
+/**
+ * Create a signal to cancel requests, using an `AbortController` if the runtime provides one,
+ * so it may also be passed to the Fetch API
+ */
+export const createCancelSignal = (): { signal: CancelSignal; cancel: () => void } => {
+  if (typeof AbortController !== 'undefined') {
+    const controller = new AbortController()
+    return { signal: controller.signal, cancel: () => controller.abort() }
+  }
+
+  const listeners: (() => void)[] = []
+  const signal = {
+    aborted: false,
+    addEventListener: (_: 'abort', listener: () => void) => {
+      listeners.push(listener)
+    },
+  }
+  return {
+    signal,
+    cancel: () => {
+      if (!signal.aborted) {
+        signal.aborted = true
+        listeners.splice(0).forEach((listener) => listener())
+      }
+    },
+  }
+}
@@ -1,31 +1,91 @@
 import BigNumber from 'bignumber.js'
 import { Plugin } from 'ilp-protocol-stream/dist/src/util/plugin-interface'
-import { ControllerMap } from './controllers'
+import { ControllerMap, SendState } from './controllers'
 import { AccountController, AccountDetails } from './controllers/asset-details'
 import { PendingRequestTracker } from './controllers/pending-requests'
-import { fetchCoinCapRates } from './rates/coincap'
-import { AmountController, PaymentType } from './controllers/amount'
+import { CoinCapRateBackend } from './rates/coincap'
+import { RateBackend, StaticRateBackend } from './rates'
+import {
+  AmountController,
+  DEFAULT_STREAM_ID,
+  PaymentType,
+  StreamTarget,
+} from './controllers/amount'
 import { ExchangeRateController } from './controllers/exchange-rate'
 import { SequenceController } from './controllers/sequence'
 import { PacingController } from './controllers/pacer'
 import { FailureController } from './controllers/failure'
 import { MaxPacketAmountController } from './controllers/max-packet'
-import { createConnection } from './connection'
-import { RateProbe } from './controllers/rate-probe'
+import { CongestionController } from './controllers/liquidity-congestion'
+import { createConnection, StreamConnection } from './connection'
+import { RateProbe, RateProbeOutcome } from './controllers/rate-probe'
+import { CheckpointController } from './controllers/checkpoint'
+import { PauseController } from './controllers/pause'
+import { InvoiceController } from './controllers/invoice'
+import { ReceiveController } from './controllers/receive'
+import { StreamReceiptController } from './controllers/stream-receipt'
+import {
+  ProgressController,
+  PaymentEventEmitter,
+  createPaymentEmitter,
+} from './controllers/progress'
+import { ExchangeRateCalculator } from './controllers/exchange-rate'
 import { fetch as sendIldcpRequest, isValidAssetScale } from 'ilp-protocol-ildcp'
 import {
   getConnectionId,
+  getDefaultExpiry,
   Ratio,
   isNonNegativeNumber,
   NonNegativeNumber,
   PositiveInt,
   Int,
 } from './utils'
-import createLogger from 'ilp-logger'
-import { fetchPaymentDetails } from './open-payments'
-import { isValidIlpAddress, getScheme } from 'ilp-packet'
+import createLogger, { Logger } from 'ilp-logger'
+import {
+  fetchPaymentDetails,
+  OpenPaymentsInvoice,
+  OpenPaymentsMandate,
+  queryInvoice,
+  queryMandate,
+} from './open-payments'
+import { isValidIlpAddress, getScheme, IlpAddress } from 'ilp-packet'
+import { PaymentState, serializePaymentState, deserializePaymentState } from './state'
+import { HttpClient } from './http'
+import { PathCache } from './path-cache'
+import { createSafeMetrics, noopMetrics, PaymentMetric, PaymentMetrics } from './metrics'
+import { ConnectionCloseFrame, ErrorCode } from 'ilp-protocol-stream/dist/src/packet'
 
 export { AccountDetails } from './controllers/asset-details'
+export { PaymentState } from './state'
+export {
+  PaymentEvents,
+  PaymentEventEmitter,
+  PaymentProgress,
+  PacketProgress,
+  RejectProgress,
+} from './controllers/progress'
+export {
+  RateBackend,
+  Prices,
+  StaticRateBackend,
+  CallbackRateBackend,
+  CachedRateBackend,
+  CacheOptions,
+  FallbackRateBackend,
+} from './rates'
+export { CoinCapRateBackend } from './rates/coincap'
+export { EcbRateBackend } from './rates/ecb'
+export { PaymentPool, createPaymentPool } from './pool'
+export { VerifiedStreamReceipt, verifyStreamReceipt } from './controllers/stream-receipt'
+export {
+  HttpClient,
+  HttpRequestOptions,
+  HttpResponse,
+  CancelSignal,
+  defaultHttpClient,
+} from './http'
+export { PathCache, PathCacheOptions } from './path-cache'
+export { PaymentMetric, PaymentMetrics, MetricLabels } from './metrics'
 
 /** Parameters to setup and prepare a payment */
 export interface PaymentOptions {
@@ -33,10 +93,26 @@ export interface PaymentOptions {
   plugin: Plugin
   /** Payment pointer, Open Payments or SPSP account URL to query STREAM connection credentials */
   paymentPointer?: string
-  /** Open Payments invoice URL to resolve details and credentials to pay a fixed-delivery payment */
+  /**
+   * Open Payments invoice or incoming payment URL to resolve details and credentials to pay a fixed-delivery payment.
+   * If the incoming payment has no fixed amount to deliver, only its STREAM credentials are used
+   */
   invoiceUrl?: string
+  /**
+   * Open Payments mandate URL authorizing payments from the source account. The payment must be denominated
+   * in the asset of the mandate, and its maximum source amount may not exceed the remaining balance of the mandate.
+   * The mandate is queried again when the payment is resumed, started or unpaused
+   */
+  mandateUrl?: string
   /** Fixed amount to send to the recipient, in normalized source units with arbitrary precision */
   amountToSend?: BigNumber.Value
+  /**
+   * Split a fixed source amount across multiple STREAM streams, each sending its own fixed amount,
+   * in normalized source units with arbitrary precision. Takes precedence over `amountToSend`
+   */
+  streams?: {
+    amountToSend: BigNumber.Value
+  }[]
   /** Percentage to subtract from an external exchange rate to determine the minimum acceptable exchange rate */
   slippage?: number
   /**
@@ -46,14 +122,114 @@ export interface PaymentOptions {
   prices?: {
     [assetCode: string]: number
   }
+  /**
+   * Source of external prices to calculate exchange rates, such as a chain of fallback backends
+   * with caching. Ignored if `prices` is provided. By default, rates will be pulled from the CoinCap API
+   */
+  rateBackend?: RateBackend
+  /**
+   * Fetch-like function to send HTTP requests to Open Payments and SPSP servers, and the default rate backend,
+   * such as to add authentication headers or use a proxy. By default, requests are sent with Axios
+   */
+  httpClient?: HttpClient
   /** Callback to set the expiration timestamp of each packet given the destination ILP address */
   getExpiry?: (destination?: string) => Date
-  /** For testing purposes: fixed amount to deliver to the recipient, in base units */
-  amountToDeliver?: Int
+  /**
+   * Fixed amount to deliver to the recipient, in normalized destination units with arbitrary precision.
+   * Since the destination asset may only be known after the rate probe, its precision is validated then
+   */
+  amountToDeliver?: BigNumber.Value
   /** For testing purposes: ILP address of the STREAM receiver to send outgoing packets. Requires `sharedSecret` */
   destinationAddress?: string
   /** For testing purposes: symmetric key to encrypt STREAM messages. Requires `destinationAddress` */
   sharedSecret?: Buffer
+  /**
+   * Callback to persist a snapshot of the payment before each packet is sent and after each Fulfill,
+   * so it may be resumed if this process fails. The packet is only sent after the callback returns,
+   * so the snapshot must be persisted synchronously to guarantee it's never resent.
+   * In-flight packets are counted as delivering their minimum destination amount: if they're rejected
+   * after the snapshot, a resumed fixed delivery payment may deliver up to that amount less
+   */
+  onCheckpoint?: (state: PaymentState) => void
+  /**
+   * Number of milliseconds after the quote until it expires, since the probed rate and external prices
+   * may become stale. An expired quote may no longer be executed. Default: 60 seconds
+   */
+  maxQuoteAge?: number
+  /**
+   * Maximum amount to accept from the recipient over the same connection, such as for refunds,
+   * in normalized source units with arbitrary precision. By default, incoming money is rejected
+   */
+  receiveMax?: BigNumber.Value
+  /**
+   * After a payment into an invoice ends, query the invoice again to confirm the recipient credited the amount
+   * delivered. Default: true
+   */
+  reconcileInvoice?: boolean
+  /** Limits on how quickly packets are sent and how long to wait for a Fulfill, to tune for different networks */
+  tuning?: TuningOptions
+  /** Test packet amounts and time budget of the rate probe, and how precisely it should discover the rate */
+  rateProbe?: RateProbeOptions
+  /**
+   * Cache of the max packet amount and exchange rate discovered to each destination, shared across quotes.
+   * If the path to the recipient was recently discovered, the rate probe is skipped
+   */
+  pathCache?: PathCache
+  /** Callbacks to record counters and histograms of packets, round trip times, and quote and payment durations */
+  metrics?: PaymentMetrics
+}
+
+/** Limits on the rate of sending packets and when to fail an unresponsive payment */
+export interface TuningOptions {
+  /** Maximum number of packets to have in-flight, yet to receive a Fulfill or Reject. Default: 20 */
+  maxInFlightPackets?: number
+  /** Maximum number of packets to send in a 1 second interval. Default: 200 */
+  maxPacketsPerSecond?: number
+  /** Number of milliseconds since the last Fulfill was received before the payment fails. Default: 10 seconds */
+  idleTimeout?: number
+  /**
+   * Number of F00, F02, or R00 rejects of each error code tolerated within the `rejectWindow`
+   * before the payment fails. Packets are retried with exponential backoff. Default: 5
+   */
+  maxRetryableRejects?: number
+  /** Number of milliseconds of the window to count retryable rejects. Default: 10 seconds */
+  rejectWindow?: number
+}
+
+/** Strategy to probe the exchange rate and max packet amount of the path during the quote */
+export interface RateProbeOptions {
+  /**
+   * Ladder of test packet amounts to send, in order, in normalized source units with arbitrary precision,
+   * such as to fit paths with low max packet amounts or steep rounding. Default: 10^12 down to 1 unit
+   * of the source account, decreasing by powers of 10
+   */
+  amounts?: BigNumber.Value[]
+  /** Number of milliseconds after the first test packet is sent until the probe stops. Default: 10 seconds */
+  timeout?: number
+  /**
+   * Maximum relative width of the probed rate bounds, `(upper bound - lower bound) / lower bound`. After the test
+   * packets, the probe continues to send packets to narrow the bounds until they converge within this tolerance,
+   * no packet may narrow them further, or the timeout elapses. By default, the rate is not refined
+   */
+  tolerance?: number
+}
+
+/** Parameters to resume a payment from a previously persisted state */
+export type ResumeOptions = Pick<
+  PaymentOptions,
+  | 'getExpiry'
+  | 'onCheckpoint'
+  | 'maxQuoteAge'
+  | 'reconcileInvoice'
+  | 'httpClient'
+  | 'tuning'
+  | 'metrics'
+>
+
+/** Parameters to execute a payment */
+export interface PayOptions {
+  /** Signal to stop sending packets and end the payment early, without closing the connection */
+  signal?: AbortSignal
 }
 
 /** [Open Payments invoice](https://docs.openpayments.dev/invoices) metadata */
@@ -76,10 +252,41 @@ export interface Invoice {
   assetScale: number
 }
 
+/** [Open Payments mandate](https://docs.openpayments.dev/mandates) spend limits */
+export interface Mandate {
+  /** URL identifying the mandate */
+  mandateUrl: string
+  /** URL identifying the account from which payments under the mandate will be debited */
+  accountUrl: string
+  /** Maximum amount that may be sent under the mandate, in ordinary units */
+  amount: BigNumber
+  /** Amount that remains available to send under the mandate, in ordinary units */
+  balance: BigNumber
+  /** Asset code or symbol identifying the currency of the mandate */
+  assetCode: string
+  /** Precision of the mandate's asset denomination: number of decimal places of the ordinary unit */
+  assetScale: number
+  /** UNIX timestamp in milliseconds when payments may begin to be sent under the mandate */
+  startAt?: NonNegativeNumber
+  /** UNIX timestamp in milliseconds when payments may no longer be sent under the mandate */
+  expiresAt?: NonNegativeNumber
+}
+
 /** Parameters of payment execution and the projected outcome of a payment */
 export interface Quote {
   /** Execute the payment within these parameters */
-  pay: () => Promise<Receipt>
+  pay: (options?: PayOptions) => Promise<Receipt>
+  /**
+   * Stop sending packets after in-flight packets complete, so `pay` resolves with a
+   * `Cancelled` error. The connection remains open so the payment may be resumed,
+   * so the invoice isn't reconciled and no `end` event is emitted
+   */
+  pause: () => void
+  /**
+   * Continue sending packets after the payment was paused or aborted. If no signal is given,
+   * the signal of the running payment is still enforced, unless it was already aborted
+   */
+  resume: (options?: PayOptions) => Promise<Receipt>
   /** Cancel the payment (disconnects the plugin and closes connection with recipient) */
   cancel: () => Promise<void>
   /** Maximum amount that will be sent in source units */
@@ -88,18 +295,31 @@ export interface Quote {
   minDeliveryAmount: BigNumber
   /** Probed exchange rate over the path: range of [minimum, maximum] */
   estimatedExchangeRate: [BigNumber, BigNumber]
+  /** Relative width of the probed rate bounds: `(maximum - minimum) / minimum`, or `Infinity` if the minimum is 0 */
+  rateUncertainty: BigNumber
   /** Minimum exchange rate used to enforce rates */
   minExchangeRate: BigNumber
   /** Estimated payment duration in milliseconds, based on max packet amount, RTT, and rate of packet throttling */
   estimatedDuration: number
+  /** Time when the quote expires, after which the payment may no longer be started */
+  expiresAt: Date
   /** Source account details */
   sourceAccount: AccountDetails
   /** Destination account details */
   destinationAccount: AccountDetails
   /** Open Payments invoice metadata, if the payment pays into an invoice */
   invoice?: Invoice
+  /** Open Payments mandate spend limits at the time of the quote, if the payment is authorized by a mandate */
+  mandate?: Mandate
+  /** Snapshot of the payment, including its STREAM credentials, to resume it with `resumePayment` */
+  toJSON: () => PaymentState
+  /** Emitter of progress events while the payment is executed */
+  events: PaymentEventEmitter
 }
 
+/** Projected outcome of a payment from a dry-run quote, which may not be executed */
+export type QuoteEstimate = Omit<Quote, 'pay' | 'pause' | 'resume' | 'cancel' | 'toJSON' | 'events'>
+
 /** Final outcome of a payment */
 export interface Receipt {
   /** Error type if the payment failed with an error */
@@ -108,12 +328,47 @@ export interface Receipt {
   amountSent: BigNumber
   /** Amount delivered to recipient, in normalized destination units with arbitrary precision */
   amountDelivered: BigNumber
+  /** Amount received from the recipient over the same connection, in normalized source units with arbitrary precision */
+  amountReceived: BigNumber
+  /** Number of packets rejected during the payment, by ILP error code */
+  rejectCounts: {
+    [code: string]: number
+  }
+  /** Amounts sent and delivered over each STREAM stream, in normalized units */
+  streams: StreamReceipt[]
+  /**
+   * Latest STREAM receipt the recipient issued for the default stream (1), if the recipient supports receipts.
+   * Receipts for each stream are included in `streams`
+   */
+  streamReceipt?: Buffer
+  /**
+   * Open Payments invoice metadata, refreshed from the Open Payments server after the payment ended,
+   * if the payment paid into an invoice. Omitted if the invoice could not be fetched
+   */
+  invoice?: Invoice
+  /**
+   * Did the amount paid into the invoice increase by at least the amount delivered since the quote?
+   * Omitted if the invoice was not refreshed
+   */
+  invoiceReconciled?: boolean
   /** Source account details */
   sourceAccount: AccountDetails
   /** Destination account details */
   destinationAccount: AccountDetails
 }
 
+/** Outcome of a single STREAM stream of the payment */
+export interface StreamReceipt {
+  /** Identifier of the stream, which is odd since the sender opened it */
+  streamId: number
+  /** Amount sent and fulfilled over the stream, in normalized source units with arbitrary precision */
+  amountSent: BigNumber
+  /** Amount delivered to recipient over the stream, in normalized destination units with arbitrary precision */
+  amountDelivered: BigNumber
+  /** Latest STREAM receipt the recipient issued for the stream, to prove the amount delivered to a third party */
+  streamReceipt?: Buffer
+}
+
 /** Payment error states */
 export enum PaymentError {
   /**
@@ -140,15 +395,29 @@ export enum PaymentError {
   InvalidDestinationAmount = 'InvalidDestinationAmount',
   /** Minimum exchange rate is 0 after subtracting slippage, and cannot enforce a fixed-delivery payment */
   UnenforceableDelivery = 'UnenforceableDelivery',
+  /** Payment state to resume is invalid or corrupted */
+  InvalidPaymentState = 'InvalidPaymentState',
+  /** Payment was paused or aborted before it completed */
+  Cancelled = 'Cancelled',
+  /** Tuning options, rate probe options, max quote age, or receive max are invalid: limits must be positive numbers, the in-flight and reject limits integers, and the amounts no more precise than the source account */
+  InvalidConfig = 'InvalidConfig',
+  /** Quote expired before the payment was started, so the rate must be probed again with a new quote */
+  QuoteExpired = 'QuoteExpired',
+  /** Mandate is not active, or is denominated in a different asset than the source account */
+  InvalidMandate = 'InvalidMandate',
+  /** Source amount the payment may still send exceeds the remaining balance of the mandate */
+  InsufficientMandateBalance = 'InsufficientMandateBalance',
 
   /**
    * Errors likely caused by the receiver, connectors, or other externalities
    */
 
-  /** Failed to query an account or invoice from an Open Payments or SPSP server */
+  /** Failed to query an account, invoice, or mandate from an Open Payments or SPSP server */
   QueryFailed = 'QueryFailed',
   /** Invoice is complete: amount paid into the invoice already meets or exceeds the invoice amount */
   InvoiceAlreadyPaid = 'InvoiceAlreadyPaid',
+  /** Invoice expired before or during the payment, so the recipient will no longer credit payments toward it */
+  InvoiceExpired = 'InvoiceExpired',
   /** Failed to fetch the external exchange rate and unable to enforce a minimum exchange rate */
   ExternalRateUnavailable = 'ExternalRateUnavailable',
   /** Probed exchange rate is too low: less than the minimum pulled from external rate APIs */
@@ -178,6 +447,78 @@ export enum PaymentError {
 // eslint-disable-next-line @typescript-eslint/no-explicit-any, @typescript-eslint/explicit-module-boundary-types
 export const isPaymentError = (o: any): o is PaymentError => Object.values(PaymentError).includes(o)
 
+/** Are the tuning limits, if provided, positive (or non-negative for the reject budget) and finite? */
+const isValidTuning = ({
+  maxInFlightPackets,
+  maxPacketsPerSecond,
+  idleTimeout,
+  maxRetryableRejects,
+  rejectWindow,
+}: TuningOptions = {}): boolean =>
+  (maxInFlightPackets === undefined ||
+    (Number.isInteger(maxInFlightPackets) && maxInFlightPackets > 0)) &&
+  (maxPacketsPerSecond === undefined ||
+    (isNonNegativeNumber(maxPacketsPerSecond) && maxPacketsPerSecond > 0)) &&
+  (idleTimeout === undefined || (isNonNegativeNumber(idleTimeout) && idleTimeout > 0)) &&
+  (maxRetryableRejects === undefined ||
+    (Number.isInteger(maxRetryableRejects) && maxRetryableRejects >= 0)) &&
+  (rejectWindow === undefined || (isNonNegativeNumber(rejectWindow) && rejectWindow > 0))
+
+/** Are the rate probe test packet amounts, if provided, positive numbers, the timeout positive, and the tolerance non-negative? */
+const isValidRateProbe = ({ amounts, timeout, tolerance }: RateProbeOptions = {}): boolean =>
+  (amounts === undefined ||
+    (amounts.length > 0 &&
+      amounts.every((amount) => {
+        const n = new BigNumber(amount)
+        return n.isFinite() && n.isGreaterThan(0)
+      }))) &&
+  (timeout === undefined || (isNonNegativeNumber(timeout) && timeout > 0)) &&
+  (tolerance === undefined || isNonNegativeNumber(tolerance))
+
+/** Is the max quote age, if provided, a positive number of milliseconds? */
+const isValidQuoteAge = (maxQuoteAge?: number): boolean =>
+  maxQuoteAge === undefined || (isNonNegativeNumber(maxQuoteAge) && maxQuoteAge > 0)
+
+/**
+ * Fetch the spend limits of the mandate, and ensure it's active and, if the source account is known,
+ * denominated in its asset. Its balance is enforced separately, against the amount the payment may still send
+ */
+const fetchMandate = async (
+  mandateUrl: string,
+  log: Logger,
+  httpClient?: HttpClient,
+  sourceAccount?: AccountDetails
+): Promise<OpenPaymentsMandate | PaymentError> => {
+  const mandate = await queryMandate(mandateUrl, httpClient)
+  if (isPaymentError(mandate)) {
+    return mandate
+  }
+
+  const now = Date.now()
+  if (
+    (mandate.startAt !== undefined && mandate.startAt > now) ||
+    (mandate.expiresAt !== undefined && mandate.expiresAt <= now)
+  ) {
+    log.debug('mandate is not active. start: %s, expiry: %s', mandate.startAt, mandate.expiresAt)
+    return PaymentError.InvalidMandate
+  }
+
+  if (
+    sourceAccount &&
+    (mandate.assetCode !== sourceAccount.assetCode ||
+      mandate.assetScale !== sourceAccount.assetScale)
+  ) {
+    log.debug(
+      'mandate asset %s (scale %s) is incompatible with source account',
+      mandate.assetCode,
+      mandate.assetScale
+    )
+    return PaymentError.InvalidMandate
+  }
+
+  return mandate
+}
+
 /**
  * Quote and prepare to perform a payment:
  * - Query the recipient's payment pointer, if provided
@@ -186,7 +527,65 @@ export const isPaymentError = (o: any): o is PaymentError => Object.values(Payme
  * - Prepare to enforce exchange rate by comparing against
  *   rates pulled from external sources
  */
-export const quote = async ({ plugin, ...options }: PaymentOptions): Promise<Quote> => {
+export const quote = (options: PaymentOptions): Promise<Quote> => createQuote(options)
+
+/**
+ * Quote a payment without the ability to execute it, such as to compare prices. Only unfulfillable
+ * packets are sent to probe the rate, so no money is ever sent, and after the quote, the STREAM
+ * connection is closed with a `ConnectionClose` frame and the plugin is disconnected.
+ */
+export const quoteOnly = async (options: PaymentOptions): Promise<QuoteEstimate> => {
+  const {
+    sourceAccount,
+    destinationAccount,
+    invoice,
+    mandate,
+    estimatedExchangeRate,
+    rateUncertainty,
+    minExchangeRate,
+    maxSourceAmount,
+    minDeliveryAmount,
+    estimatedDuration,
+    expiresAt,
+  } = await createQuote(options, true)
+
+  return {
+    sourceAccount,
+    destinationAccount,
+    invoice,
+    mandate,
+    estimatedExchangeRate,
+    rateUncertainty,
+    minExchangeRate,
+    maxSourceAmount,
+    minDeliveryAmount,
+    estimatedDuration,
+    expiresAt,
+  }
+}
+
+/** Quote the payment and record how long it took */
+const createQuote = async (options: PaymentOptions, quoteOnly = false): Promise<Quote> => {
+  const metrics = createSafeMetrics(options.metrics)
+  const startTime = Date.now()
+  const observeDuration = (result: string) =>
+    metrics.observe(PaymentMetric.QuoteDuration, (Date.now() - startTime) / 1000, { result })
+
+  try {
+    const quote = await performQuote({ ...options, metrics }, quoteOnly)
+    observeDuration('success')
+    return quote
+  } catch (err) {
+    observeDuration(isPaymentError(err) ? err : 'unknown')
+    throw err
+  }
+}
+
+/** Quote the payment, and if it's only a dry run, close the connection afterward */
+const performQuote = async (
+  { plugin, ...options }: PaymentOptions,
+  quoteOnly = false
+): Promise<Quote> => {
   let log = createLogger('ilp-pay')
 
   // Validate the slippage
@@ -196,6 +595,17 @@ export const quote = async ({ plugin, ...options }: PaymentOptions): Promise<Quo
     throw PaymentError.InvalidSlippage
   }
 
+  if (
+    !isValidTuning(options.tuning) ||
+    !isValidRateProbe(options.rateProbe) ||
+    !isValidQuoteAge(options.maxQuoteAge)
+  ) {
+    log.debug(
+      'invalid config: tuning limits, rate probe options, or max quote age are not positive numbers'
+    )
+    throw PaymentError.InvalidConfig
+  }
+
   // Determine STREAM credentials, amount to pay, and destination details
   // by performing Open Payments/SPSP queries, or using the provided info
   const recipientDetailsOrError = await fetchPaymentDetails(options)
@@ -204,6 +614,16 @@ export const quote = async ({ plugin, ...options }: PaymentOptions): Promise<Quo
   }
   const { sharedSecret, destinationAddress, destinationAsset, invoice } = recipientDetailsOrError
 
+  // Fetch the spend limits authorizing payments from the source account, if any
+  let mandate: OpenPaymentsMandate | undefined
+  if (options.mandateUrl) {
+    const mandateOrError = await fetchMandate(options.mandateUrl, log, options.httpClient)
+    if (isPaymentError(mandateOrError)) {
+      throw mandateOrError
+    }
+    mandate = mandateOrError
+  }
+
   const connectionId = await getConnectionId(destinationAddress)
   log = log.extend(connectionId)
 
@@ -255,10 +675,28 @@ export const quote = async ({ plugin, ...options }: PaymentOptions): Promise<Quo
     throw PaymentError.IncompatibleInterledgerNetworks
   }
 
-  let target: {
-    type: PaymentType
-    amount: PositiveInt
+  if (
+    mandate &&
+    (mandate.assetCode !== sourceAccount.assetCode ||
+      mandate.assetScale !== sourceAccount.assetScale)
+  ) {
+    log.debug(
+      'quote failed: mandate asset %s (scale %s) is incompatible with source account',
+      mandate.assetCode,
+      mandate.assetScale
+    )
+    await close()
+    throw PaymentError.InvalidMandate
   }
+
+  let target:
+    | {
+        type: PaymentType
+        amount: PositiveInt
+      }
+    | undefined
+  let amountToDeliver: BigNumber | undefined
+  let streamTargets: StreamTarget[] | undefined
   if (invoice) {
     const remainingToDeliver = invoice.amountToDeliver.subtract(invoice.amountDelivered)
     if (!remainingToDeliver.isPositive()) {
@@ -271,11 +709,42 @@ export const quote = async ({ plugin, ...options }: PaymentOptions): Promise<Quo
       throw PaymentError.InvoiceAlreadyPaid
     }
 
+    if (invoice.expiresAt <= Date.now()) {
+      log.debug('quote failed: invoice expired at %s', new Date(invoice.expiresAt).toISOString())
+      await close()
+      throw PaymentError.InvoiceExpired
+    }
+
     target = {
       type: PaymentType.FixedDelivery,
       amount: remainingToDeliver,
     }
   }
+  // Validate the amount of each stream is non-zero and compatible with the precision of the source account
+  else if (options.streams !== undefined) {
+    const streamAmounts = options.streams
+      .map(({ amountToSend }) =>
+        Int.from(new BigNumber(amountToSend).shiftedBy(sourceAccount.assetScale))
+      )
+      .filter((amount): amount is PositiveInt => !!amount && amount.isPositive())
+    if (streamAmounts.length === 0 || streamAmounts.length !== options.streams.length) {
+      log.debug(
+        'invalid config: amount to send over each stream is not a positive integer or more precise than the source account'
+      )
+      await close()
+      throw PaymentError.InvalidSourceAmount
+    }
+
+    // Client-initiated streams are odd-numbered
+    streamTargets = streamAmounts.map((amount, i) => ({
+      streamId: DEFAULT_STREAM_ID + 2 * i,
+      amount,
+    }))
+    target = {
+      type: PaymentType.FixedSend,
+      amount: streamAmounts.reduce((sum, amount) => sum.add(amount), Int.ZERO) as PositiveInt,
+    }
+  }
   // Validate the target amount is non-zero and compatible with the precision of the accounts
   else if (options.amountToSend !== undefined) {
     const amountToSend = Int.from(
@@ -293,45 +762,113 @@ export const quote = async ({ plugin, ...options }: PaymentOptions): Promise<Quo
       type: PaymentType.FixedSend,
       amount: amountToSend,
     }
-  } else if (options.amountToDeliver !== undefined) {
-    log.warn('amountToDeliver is for testing. invoices are recommended for fixed-delivery')
-
-    if (!options.amountToDeliver.isPositive()) {
-      log.debug(
-        'invalid config: amount to deliver is not a positive integer or more precise than the destination account'
-      )
+  }
+  // Validate the amount to deliver is positive. Its precision is validated once the destination asset is known
+  else if (options.amountToDeliver !== undefined) {
+    amountToDeliver = new BigNumber(options.amountToDeliver)
+    if (!amountToDeliver.isFinite() || !amountToDeliver.isGreaterThan(0)) {
+      log.debug('invalid config: amount to deliver is not a positive number')
       await close()
       throw PaymentError.InvalidDestinationAmount
     }
-
-    target = {
-      type: PaymentType.FixedDelivery,
-      amount: options.amountToDeliver,
-    }
   } else {
     log.debug('invalid config: no invoice, amount to send, or amount to deliver was provided')
     await close()
     throw PaymentError.UnknownPaymentTarget
   }
 
+  // Validate the receive max is non-negative and compatible with the precision of the source account
+  let receiveMax = Int.ZERO
+  if (options.receiveMax !== undefined) {
+    const amount = Int.from(new BigNumber(options.receiveMax).shiftedBy(sourceAccount.assetScale))
+    if (!amount) {
+      log.debug(
+        'invalid config: receive max is not a non-negative integer or more precise than the source account'
+      )
+      await close()
+      throw PaymentError.InvalidConfig
+    }
+    receiveMax = amount
+  }
+
+  // Validate the test packet amounts are compatible with the precision of the source account
+  let testPacketAmounts: PositiveInt[] | undefined
+  if (options.rateProbe?.amounts) {
+    const amounts = options.rateProbe.amounts
+      .map((amount) => Int.from(new BigNumber(amount).shiftedBy(sourceAccount.assetScale)))
+      .filter((amount): amount is PositiveInt => !!amount && amount.isPositive())
+    if (amounts.length !== options.rateProbe.amounts.length) {
+      log.debug(
+        'invalid config: test packet amounts are not positive integers or more precise than the source account'
+      )
+      await close()
+      throw PaymentError.InvalidConfig
+    }
+    testPacketAmounts = amounts
+  }
+
+  // Use the path previously discovered to the recipient, if it was probed to the same asset
+  const cachedPath = options.pathCache?.get(destinationAddress, sourceAccount)
+  const cachedProbeResult: RateProbeOutcome | undefined =
+    cachedPath &&
+    (!destinationAsset ||
+      (destinationAsset.assetCode === cachedPath.destinationAsset.assetCode &&
+        destinationAsset.assetScale === cachedPath.destinationAsset.assetScale))
+      ? {
+          maxPacketAmount: cachedPath.maxPacketAmount,
+          // New calculator, so rate updates during the payment don't mutate the cached bounds
+          rateCalculator: new ExchangeRateCalculator(
+            cachedPath.lowerBoundRate,
+            cachedPath.upperBoundRate
+          ),
+        }
+      : undefined
+
   const controllers: ControllerMap = new Map()
   controllers
     // First so all other controllers log the sequence number
     .set(SequenceController, new SequenceController())
+    // Stop sending if the payment is paused or aborted
+    .set(PauseController, new PauseController())
     // Fail-fast on terminal rejects or timeouts
-    .set(FailureController, new FailureController())
+    .set(FailureController, new FailureController(options.tuning))
+    // Stop before the invoice expires
+    .set(InvoiceController, new InvoiceController(invoice?.expiresAt))
     // Fail-fast on destination asset detail conflict
     .set(
       AccountController,
-      new AccountController(sourceAccount, destinationAddress, destinationAsset)
+      new AccountController(
+        sourceAccount,
+        destinationAddress,
+        destinationAsset ?? (cachedProbeResult && cachedPath?.destinationAsset),
+        receiveMax
+      )
     )
     // Fail-fast if max packet amount is 0
-    .set(MaxPacketAmountController, new MaxPacketAmountController())
+    .set(
+      MaxPacketAmountController,
+      new MaxPacketAmountController(cachedProbeResult?.maxPacketAmount)
+    )
     // Limit how frequently packets are sent and early return
-    .set(PacingController, new PacingController())
+    .set(PacingController, new PacingController(options.tuning, options.metrics))
+    // Limit packet amounts based on available liquidity
+    .set(CongestionController, new CongestionController(controllers))
     .set(AmountController, new AmountController(controllers))
-    .set(ExchangeRateController, new ExchangeRateController())
-    .set(RateProbe, new RateProbe(controllers))
+    .set(ExchangeRateController, new ExchangeRateController(cachedProbeResult?.rateCalculator))
+    .set(
+      RateProbe,
+      new RateProbe(controllers, {
+        testPacketAmounts,
+        timeout: options.rateProbe?.timeout,
+        tolerance: options.rateProbe?.tolerance,
+      })
+    )
+    // Accept incoming money, if enabled
+    .set(ReceiveController, new ReceiveController(receiveMax))
+    .set(StreamReceiptController, new StreamReceiptController())
+    // Notify listeners and checkpoint after all amounts and rates are updated
+    .set(ProgressController, new ProgressController(controllers))
+    .set(CheckpointController, new CheckpointController())
     // Ensure each controller processes reply before resolving Promises
     .set(PendingRequestTracker, new PendingRequestTracker())
 
@@ -341,20 +878,23 @@ export const quote = async ({ plugin, ...options }: PaymentOptions): Promise<Quo
     controllers,
     sharedSecret,
     destinationAddress,
-    options.getExpiry
+    (destination) =>
+      controllers
+        .get(InvoiceController)
+        .limitExpiry((options.getExpiry ?? getDefaultExpiry)(destination)),
+    options.metrics
   )
 
-  log.debug('starting quote.')
+  log.debug(cachedProbeResult ? 'starting quote using cached path.' : 'starting quote.')
 
-  // Send test packets
+  // Send test packets, unless the path was cached
   // - Fetch asset details from the recipient
   // - Ensure the recipient is routable
   // - Probe the realized exchange rate
   // - Discover path max packet amount
-  const probeResult = await Promise.race([
-    connection.runSendLoop(),
-    controllers.get(RateProbe).done(),
-  ])
+  const probeResult =
+    cachedProbeResult ??
+    (await Promise.race([connection.runSendLoop(), controllers.get(RateProbe).done()]))
   controllers.delete(RateProbe)
 
   // If the send loop failed due to an error, end the payment/quote
@@ -372,16 +912,51 @@ export const quote = async ({ plugin, ...options }: PaymentOptions): Promise<Quo
     throw PaymentError.UnknownDestinationAsset
   }
 
+  // Cache the newly discovered path so later quotes to the same recipient may skip the rate probe
+  if (!cachedProbeResult) {
+    options.pathCache?.set(destinationAddress, {
+      sourceAsset: { assetCode: sourceAccount.assetCode, assetScale: sourceAccount.assetScale },
+      destinationAsset: {
+        assetCode: destinationAccount.assetCode,
+        assetScale: destinationAccount.assetScale,
+      },
+      maxPacketAmount,
+      lowerBoundRate: rateCalculator.lowerBoundRate,
+      upperBoundRate: rateCalculator.upperBoundRate,
+    })
+  }
+
+  // Validate the fixed delivery amount is compatible with the precision of the destination account
+  if (!target) {
+    const amount =
+      amountToDeliver && Int.from(amountToDeliver.shiftedBy(destinationAccount.assetScale))
+    if (!amount || !amount.isPositive()) {
+      log.debug(
+        'invalid config: amount to deliver is not a positive integer or more precise than the destination account'
+      )
+      await close()
+      throw PaymentError.InvalidDestinationAmount
+    }
+
+    target = {
+      type: PaymentType.FixedDelivery,
+      amount,
+    }
+  }
+
   // Determine minimum exchange rate & pull prices from external API
   let externalRate = 1
   if (sourceAccount.assetCode !== destinationAccount.assetCode) {
-    const prices =
-      options.prices ??
-      (await fetchCoinCapRates().catch(async (err) => {
+    const rateBackend = options.prices
+      ? new StaticRateBackend(options.prices)
+      : options.rateBackend ?? new CoinCapRateBackend(options.httpClient)
+    const prices = await rateBackend
+      .fetchPrices([sourceAccount.assetCode, destinationAccount.assetCode])
+      .catch(async (err) => {
         log.debug('quote failed: error fetching external prices: %s', err) // Note: stringify since axios errors are verbose
         await close()
         throw PaymentError.ExternalRateUnavailable
-      }))
+      })
 
     const sourcePrice = prices[sourceAccount.assetCode]
     const destinationPrice = prices[destinationAccount.assetCode]
@@ -411,16 +986,286 @@ export const quote = async ({ plugin, ...options }: PaymentOptions): Promise<Quo
   const minimumRate = Ratio.fromNumber((scaledExternalRate * (1 - slippage)) as NonNegativeNumber)
   log.debug('calculated min exchange rate of %s', minimumRate)
 
+  return startPayment({
+    log,
+    close,
+    controllers,
+    connection,
+    sharedSecret,
+    destinationAddress,
+    sourceAccount,
+    destinationAccount,
+    target,
+    streams: streamTargets,
+    minExchangeRate: minimumRate,
+    rateCalculator,
+    maxPacketAmount,
+    invoice,
+    mandate,
+    onCheckpoint: options.onCheckpoint,
+    maxQuoteAge: options.maxQuoteAge,
+    reconcileInvoice: options.reconcileInvoice,
+    httpClient: options.httpClient,
+    metrics: options.metrics,
+    quoteOnly,
+  })
+}
+
+/**
+ * Resume a payment from a snapshot persisted by `onCheckpoint` or `Quote#toJSON`, continuing
+ * over the same STREAM connection. The plugin must be connected to the same source account.
+ * Packets that were in-flight when the snapshot was taken are assumed to be sent and to deliver
+ * their minimum destination amount, so the payment never exceeds its maximum source amount or
+ * overpays a fixed delivery amount. However, if those packets were rejected, a fixed delivery
+ * payment may deliver up to their minimum destination amount less than its target, without an error.
+ */
+export const resumePayment = async (
+  state: PaymentState,
+  plugin: Plugin,
+  options: ResumeOptions = {}
+): Promise<Quote> => {
+  let log = createLogger('ilp-pay')
+  const metrics = createSafeMetrics(options.metrics)
+
+  const checkpoint = deserializePaymentState(state)
+  if (!checkpoint) {
+    log.debug('invalid config: payment state to resume is invalid')
+    throw PaymentError.InvalidPaymentState
+  }
+
+  if (!isValidTuning(options.tuning) || !isValidQuoteAge(options.maxQuoteAge)) {
+    log.debug('invalid config: tuning limits or max quote age are not positive numbers')
+    throw PaymentError.InvalidConfig
+  }
+  const {
+    sharedSecret,
+    destinationAddress,
+    sourceAccount,
+    destinationAccount,
+    rateCalculator,
+    maxPacketAmount,
+  } = checkpoint
+
+  // Fetch the mandate again, since its balance or expiry may have changed since the snapshot.
+  // Its balance is enforced when the payment target is set
+  let mandate = checkpoint.mandate
+  if (mandate) {
+    const mandateOrError = await fetchMandate(
+      mandate.mandateUrl,
+      log,
+      options.httpClient,
+      sourceAccount
+    )
+    if (isPaymentError(mandateOrError)) {
+      throw mandateOrError
+    }
+    mandate = mandateOrError
+  }
+
+  const connectionId = await getConnectionId(destinationAddress)
+  log = log.extend(connectionId)
+
+  await plugin.connect().catch((err: Error) => {
+    log.debug('error connecting plugin:', err)
+    throw PaymentError.Disconnected
+  })
+
+  const close = async () => {
+    await plugin
+      .disconnect()
+      .then(() => log.debug('plugin disconnected.'))
+      .catch((err: Error) => log.error('error disconnecting plugin:', err))
+    plugin.deregisterDataHandler()
+  }
+
+  const controllers: ControllerMap = new Map()
+  controllers
+    .set(SequenceController, new SequenceController(checkpoint.nextSequence))
+    .set(PauseController, new PauseController())
+    .set(FailureController, new FailureController(options.tuning))
+    .set(InvoiceController, new InvoiceController(checkpoint.invoice?.expiresAt))
+    .set(
+      AccountController,
+      new AccountController(
+        sourceAccount,
+        destinationAddress,
+        destinationAccount,
+        checkpoint.receiveMax,
+        checkpoint.amountReceived
+      )
+    )
+    .set(MaxPacketAmountController, new MaxPacketAmountController(maxPacketAmount))
+    .set(PacingController, new PacingController(options.tuning, metrics))
+    .set(CongestionController, new CongestionController(controllers))
+    .set(
+      AmountController,
+      new AmountController(controllers, {
+        amountSent: checkpoint.amountSent,
+        amountDelivered: checkpoint.amountDelivered,
+        streams: checkpoint.streams,
+      })
+    )
+    .set(ExchangeRateController, new ExchangeRateController(rateCalculator))
+    .set(ReceiveController, new ReceiveController(checkpoint.receiveMax, checkpoint.amountReceived))
+    .set(StreamReceiptController, new StreamReceiptController())
+    .set(ProgressController, new ProgressController(controllers))
+    .set(CheckpointController, new CheckpointController())
+    .set(PendingRequestTracker, new PendingRequestTracker())
+
+  const connection = await createConnection(
+    plugin,
+    controllers,
+    sharedSecret,
+    destinationAddress,
+    (destination) =>
+      controllers
+        .get(InvoiceController)
+        .limitExpiry((options.getExpiry ?? getDefaultExpiry)(destination)),
+    metrics
+  )
+
+  log.debug(
+    'resuming payment. sent: %s, delivered: %s, next sequence: %s',
+    checkpoint.amountSent,
+    checkpoint.amountDelivered,
+    checkpoint.nextSequence
+  )
+
+  return startPayment({
+    log,
+    close,
+    controllers,
+    connection,
+    ...checkpoint,
+    mandate,
+    onCheckpoint: options.onCheckpoint,
+    maxQuoteAge: options.maxQuoteAge,
+    reconcileInvoice: options.reconcileInvoice,
+    httpClient: options.httpClient,
+    metrics,
+  })
+}
+
+/** Default number of milliseconds after the quote until it expires */
+const DEFAULT_MAX_QUOTE_AGE = 60_000
+
+/** Set the payment target and prepare to execute the payment from a new or resumed quote */
+const startPayment = async ({
+  log,
+  close,
+  controllers,
+  connection,
+  sharedSecret,
+  destinationAddress,
+  sourceAccount,
+  destinationAccount,
+  target,
+  streams,
+  minExchangeRate: minimumRate,
+  rateCalculator,
+  maxPacketAmount,
+  invoice,
+  mandate,
+  onCheckpoint,
+  maxQuoteAge = DEFAULT_MAX_QUOTE_AGE,
+  reconcileInvoice = true,
+  httpClient,
+  metrics = noopMetrics,
+  quoteOnly = false,
+}: {
+  log: Logger
+  close: () => Promise<void>
+  controllers: ControllerMap
+  connection: StreamConnection
+  sharedSecret: Buffer
+  destinationAddress: IlpAddress
+  sourceAccount: AccountDetails
+  destinationAccount: AccountDetails
+  target: {
+    type: PaymentType
+    amount: PositiveInt
+  }
+  streams?: StreamTarget[]
+  minExchangeRate: Ratio
+  rateCalculator: ExchangeRateCalculator
+  maxPacketAmount: PositiveInt
+  invoice?: OpenPaymentsInvoice
+  mandate?: OpenPaymentsMandate
+  onCheckpoint?: (state: PaymentState) => void
+  maxQuoteAge?: number
+  reconcileInvoice?: boolean
+  httpClient?: HttpClient
+  metrics?: PaymentMetrics
+  quoteOnly?: boolean
+}): Promise<Quote> => {
   const projectedOutcome = controllers
     .get(AmountController)
-    .setPaymentTarget(target.amount, target.type, minimumRate, rateCalculator, maxPacketAmount, log)
+    .setPaymentTarget(
+      target.amount,
+      target.type,
+      minimumRate,
+      rateCalculator,
+      maxPacketAmount,
+      log,
+      streams
+    )
   if (isPaymentError(projectedOutcome)) {
     await close()
     throw projectedOutcome
   }
 
+  // Payment may never send more than the mandate authorizes. Its balance is debited as money is sent,
+  // so it only needs to cover the amount the payment may still send, including the amount in-flight
+  const checkMandateBalance = (): PaymentError | undefined => {
+    const amountController = controllers.get(AmountController)
+    const remainingSourceAmount = projectedOutcome.maxSourceAmount.subtract(
+      amountController.getAmountSent().add(amountController.getSourceAmountInFlight())
+    )
+    if (mandate && remainingSourceAmount.isGreaterThan(mandate.balance)) {
+      log.debug(
+        'remaining source amount exceeds mandate balance. remaining source amount: %s, balance: %s',
+        remainingSourceAmount,
+        mandate.balance
+      )
+      return PaymentError.InsufficientMandateBalance
+    }
+  }
+
+  const balanceError = checkMandateBalance()
+  if (balanceError) {
+    await close()
+    throw balanceError
+  }
+
+  // Fetch the mandate again before sending, since its balance or expiry may have changed since the quote
+  const refreshMandate = async (): Promise<PaymentError | undefined> => {
+    if (!mandate) {
+      return
+    }
+
+    const mandateOrError = await fetchMandate(mandate.mandateUrl, log, httpClient, sourceAccount)
+    if (isPaymentError(mandateOrError)) {
+      return mandateOrError
+    }
+    mandate = mandateOrError
+    return checkMandateBalance()
+  }
+
   log.debug('quote complete.')
 
+  // After a dry-run quote, close the connection so the payment may never send money
+  if (quoteOnly) {
+    await connection.sendRequest({
+      sequence: controllers.get(SequenceController).getNextSequence(),
+      sourceAmount: Int.ZERO,
+      minDestinationAmount: Int.ZERO,
+      requestFrames: [new ConnectionCloseFrame(ErrorCode.NoError, '')],
+      isFulfillable: false, // Random condition, so the recipient can never fulfill it
+      log,
+    })
+    await close()
+  }
+
   // Convert amounts & rates into normalized units
   const shiftRate = (rate: BigNumber) =>
     rate.shiftedBy(-destinationAccount.assetScale).shiftedBy(sourceAccount.assetScale)
@@ -438,40 +1283,131 @@ export const quote = async ({ plugin, ...options }: PaymentOptions): Promise<Quo
   const packetFrequency = controllers.get(PacingController).getPacketFrequency()
   const estimatedDuration = +projectedOutcome.estimatedNumberOfPackets * packetFrequency
 
-  return {
-    sourceAccount,
-    destinationAccount,
+  const normalizeInvoice = (invoice: OpenPaymentsInvoice): Invoice => ({
+    ...invoice,
+    assetCode: destinationAccount.assetCode,
+    assetScale: destinationAccount.assetScale,
+    amountDelivered: invoice.amountDelivered
+      .toBigNumber()
+      .shiftedBy(-destinationAccount.assetScale),
+    amountToDeliver: invoice.amountToDeliver
+      .toBigNumber()
+      .shiftedBy(-destinationAccount.assetScale),
+  })
 
-    invoice: invoice && {
-      ...invoice,
-      assetCode: destinationAccount.assetCode,
-      assetScale: destinationAccount.assetScale,
-      amountDelivered: invoice.amountDelivered
-        .toBigNumber()
-        .shiftedBy(-destinationAccount.assetScale),
-      amountToDeliver: invoice.amountToDeliver
-        .toBigNumber()
-        .shiftedBy(-destinationAccount.assetScale),
-    },
+  // Probed rate and external prices may become stale, so only allow starting the payment until the quote expires
+  const expiresAt = new Date(Date.now() + maxQuoteAge)
 
-    estimatedExchangeRate: [lowerBoundRate, upperBoundRate],
-    minExchangeRate,
+  // Capture the current progress of the payment. The rate calculator is updated in-place.
+  // In-flight packets are assumed to be sent and deliver their minimum amount, so resuming never overpays,
+  // but may underpay a fixed delivery amount if they were rejected
+  const toJSON = (): PaymentState => {
+    const amountController = controllers.get(AmountController)
+    const receiveController = controllers.get(ReceiveController)
+    return serializePaymentState({
+      sharedSecret,
+      destinationAddress,
+      sourceAccount,
+      destinationAccount,
+      target,
+      minExchangeRate: minimumRate,
+      rateCalculator,
+      maxPacketAmount:
+        controllers.get(MaxPacketAmountController).getDiscoveredMaxPacketAmount() ??
+        maxPacketAmount,
+      amountSent: amountController.getAmountSent().add(amountController.getSourceAmountInFlight()),
+      amountDelivered: amountController
+        .getAmountDelivered()
+        .add(amountController.getMinDestinationAmountInFlight()),
+      nextSequence: controllers.get(SequenceController).getNextSequence(),
+      receiveMax: receiveController.getReceiveMax(),
+      amountReceived: receiveController.getAmountReceived(),
+      ...(streams && {
+        streams: streams.map(({ streamId, amount }) => {
+          const progress = amountController.getStreams().find((s) => s.streamId === streamId)
+          return {
+            streamId,
+            amount,
+            amountSent: progress
+              ? progress.amountSent.add(progress.sourceAmountInFlight)
+              : Int.ZERO,
+            amountDelivered: progress
+              ? progress.amountDelivered.add(progress.minDestinationAmountInFlight)
+              : Int.ZERO,
+          }
+        }),
+      }),
+      invoice,
+      mandate,
+    })
+  }
 
-    maxSourceAmount,
-    minDeliveryAmount,
+  const events = createPaymentEmitter()
+  controllers.get(ProgressController).setEmitter(events)
 
-    estimatedDuration,
+  if (onCheckpoint) {
+    controllers.get(CheckpointController).setListener(() => onCheckpoint(toJSON()))
+  }
 
-    pay: async () => {
-      log.debug('starting payment.')
+  // Start the send loop, or if it's already running, unpause it and share its outcome
+  let sendLoop: Promise<Receipt> | undefined
+  let started = false
+  const execute = ({ signal }: PayOptions = {}): Promise<Receipt> => {
+    controllers.get(PauseController).resume(signal)
+    if (sendLoop) {
+      return sendLoop
+    }
 
-      // Start send loop to execute the payment
-      const finalState = await connection.runSendLoop()
-      await close()
+    sendLoop = (async () => {
+      const startTime = Date.now()
+      let finalState: SendState | PaymentError
+      const isExpired = !started && Date.now() > expiresAt.getTime()
+      const mandateError = isExpired ? undefined : await refreshMandate()
+      if (isExpired) {
+        log.debug('payment failed: quote expired at %s', expiresAt.toISOString())
+        finalState = PaymentError.QuoteExpired
+      } else if (mandateError) {
+        log.debug('payment failed: mandate no longer authorizes the payment')
+        finalState = mandateError
+      } else {
+        if (!started) {
+          started = true
+          log.debug('starting payment.')
+          events.emit('start')
+        } else {
+          log.debug('resuming payment.')
+        }
 
-      log.debug('payment ended.')
+        // Packets may not have been fulfilled for some time if the payment was paused
+        controllers.get(FailureController).resetIdleTimeout()
 
-      return {
+        // Start send loop to execute the payment
+        finalState = await connection.runSendLoop()
+      }
+      sendLoop = undefined
+
+      // If the payment was paused or aborted, keep the connection open so it may be resumed
+      const isPaused = finalState === PaymentError.Cancelled
+      if (isPaused) {
+        log.debug('payment paused.')
+      } else {
+        await close()
+        log.debug('payment ended.')
+      }
+
+      // Refresh the amount paid into the invoice to confirm the recipient credited the amount delivered.
+      // If the payment was paused, it may still be resumed, so it's only reconciled once it ends
+      let refreshedInvoice: OpenPaymentsInvoice | undefined
+      if (invoice && reconcileInvoice && !isPaused) {
+        const detailsOrError = await queryInvoice(invoice.invoiceUrl, httpClient)
+        if (!isPaymentError(detailsOrError)) {
+          refreshedInvoice = detailsOrError.invoice
+        }
+      }
+
+      const streamReceipts = controllers.get(StreamReceiptController)
+      const streamReceipt = streamReceipts.getReceipt(DEFAULT_STREAM_ID)
+      const receipt: Receipt = {
         ...(isPaymentError(finalState) && { error: finalState }),
 
         amountSent: controllers
@@ -484,12 +1420,85 @@ export const quote = async ({ plugin, ...options }: PaymentOptions): Promise<Quo
           .getAmountDelivered()
           .toBigNumber()
           .shiftedBy(-destinationAccount.assetScale),
+        amountReceived: controllers
+          .get(ReceiveController)
+          .getAmountReceived()
+          .toBigNumber()
+          .shiftedBy(-sourceAccount.assetScale),
+
+        rejectCounts: controllers.get(FailureController).getRejectCounts(),
+
+        streams: controllers
+          .get(AmountController)
+          .getStreams()
+          .map(({ streamId, amountSent, amountDelivered }) => {
+            const streamReceipt = streamReceipts.getReceipt(streamId)
+            return {
+              streamId,
+              amountSent: amountSent.toBigNumber().shiftedBy(-sourceAccount.assetScale),
+              amountDelivered: amountDelivered
+                .toBigNumber()
+                .shiftedBy(-destinationAccount.assetScale),
+              ...(streamReceipt && { streamReceipt }),
+            }
+          }),
+        ...(streamReceipt && { streamReceipt }),
+        ...(invoice &&
+          refreshedInvoice && {
+            invoice: normalizeInvoice(refreshedInvoice),
+            invoiceReconciled: refreshedInvoice.amountDelivered
+              .subtract(invoice.amountDelivered)
+              .isGreaterThanOrEqualTo(controllers.get(AmountController).getAmountDelivered()),
+          }),
 
         sourceAccount,
         destinationAccount,
       }
+
+      metrics.observe(PaymentMetric.PaymentDuration, (Date.now() - startTime) / 1000, {
+        result: receipt.error ?? 'success',
+      })
+
+      if (!isPaused) {
+        events.emit('end', receipt)
+      }
+      return receipt
+    })()
+
+    return sendLoop
+  }
+
+  return {
+    sourceAccount,
+    destinationAccount,
+
+    invoice: invoice && normalizeInvoice(invoice),
+    mandate: mandate && {
+      ...mandate,
+      amount: mandate.amount.toBigNumber().shiftedBy(-mandate.assetScale),
+      balance: mandate.balance.toBigNumber().shiftedBy(-mandate.assetScale),
     },
 
+    estimatedExchangeRate: [lowerBoundRate, upperBoundRate],
+    rateUncertainty: rateCalculator.getUncertainty(),
+    minExchangeRate,
+
+    maxSourceAmount,
+    minDeliveryAmount,
+
+    estimatedDuration,
+    expiresAt,
+
+    pay: execute,
+
+    pause: () => controllers.get(PauseController).pause(),
+
+    resume: execute,
+
     cancel: close,
+
+    toJSON,
+
+    events,
   }
 }
@@ -0,0 +1,65 @@
+import createLogger from 'ilp-logger'
+
+const log = createLogger('ilp-pay:metrics')
+
+/** Names of the metrics recorded while quoting and executing payments, following Prometheus naming conventions */
+export enum PaymentMetric {
+  /** Counter of ILP Prepares sent. Labels: `fulfillable`, `true` or `false` */
+  PacketsSent = 'ilp_pay_packets_sent_total',
+  /** Counter of ILP Fulfills received */
+  PacketsFulfilled = 'ilp_pay_packets_fulfilled_total',
+  /** Counter of ILP Rejects received. Labels: `code`, the ILP error code */
+  PacketsRejected = 'ilp_pay_packets_rejected_total',
+  /** Histogram of round trip times, in seconds, of packets that reached the recipient */
+  RoundTripTime = 'ilp_pay_round_trip_time_seconds',
+  /** Histogram of quote durations, in seconds. Labels: `result`, `success` or the `PaymentError` */
+  QuoteDuration = 'ilp_pay_quote_duration_seconds',
+  /**
+   * Histogram of the durations of each time a payment is executed or resumed, in seconds.
+   * Labels: `result`, `success` or the `PaymentError`
+   */
+  PaymentDuration = 'ilp_pay_payment_duration_seconds',
+}
+
+/** Labels to partition a metric, such as by ILP error code */
+export interface MetricLabels {
+  [name: string]: string
+}
+
+/**
+ * Callbacks to record payment telemetry, such as to Prometheus counters and histograms.
+ * Each metric is always recorded with the same set of label names. Errors thrown by callbacks are logged.
+ */
+export interface PaymentMetrics {
+  /** Increase a counter by the given value, such as with `Counter#inc` in `prom-client` */
+  increment(name: PaymentMetric, value: number, labels: MetricLabels): void
+  /** Record an observation in a histogram, such as with `Histogram#observe` in `prom-client` */
+  observe(name: PaymentMetric, value: number, labels: MetricLabels): void
+}
+
+/** Metrics hooks that discard all telemetry, used if none are provided */
+export const noopMetrics: PaymentMetrics = {
+  increment: () => undefined,
+  observe: () => undefined,
+}
+
+/**
+ * Wrap metrics hooks to catch and log their errors. Metrics are recorded while sending packets and applying
+ * replies, so a throwing hook would otherwise prevent the payment from completing
+ */
+export const createSafeMetrics = (metrics: PaymentMetrics = noopMetrics): PaymentMetrics => ({
+  increment: (name, value, labels) => {
+    try {
+      metrics.increment(name, value, labels)
+    } catch (err) {
+      log.error('failed to increment %s: %s', name, err)
+    }
+  },
+  observe: (name, value, labels) => {
+    try {
+      metrics.observe(name, value, labels)
+    } catch (err) {
+      log.error('failed to observe %s: %s', name, err)
+    }
+  },
+})
@@ -1,11 +1,11 @@
 /* eslint-disable @typescript-eslint/no-explicit-any, @typescript-eslint/explicit-module-boundary-types, @typescript-eslint/no-empty-function */
 import { Int, NonNegativeNumber, isNonNegativeNumber, PositiveInt } from './utils'
-import Axios from 'axios'
 import { PaymentError, PaymentOptions } from '.'
 import createLogger from 'ilp-logger'
 import { AssetDetails } from './controllers/asset-details'
 import { IlpAddress, isValidIlpAddress } from 'ilp-packet'
-import { isValidAssetScale } from 'ilp-protocol-ildcp'
+import { AssetScale, isValidAssetScale } from 'ilp-protocol-ildcp'
+import { createCancelSignal, defaultHttpClient, fetchJson, HttpClient } from './http'
 
 const log = createLogger('ilp-pay')
 
@@ -35,6 +35,26 @@ export interface OpenPaymentsInvoice {
   description: string
 }
 
+/** Validated spend limits from an Open Payments mandate, which authorizes payments from the sender's account */
+export interface OpenPaymentsMandate {
+  /** URL identifying the mandate */
+  mandateUrl: string
+  /** URL identifying the account from which payments under the mandate will be debited */
+  accountUrl: string
+  /** Maximum amount in base source units that may be sent under the mandate */
+  amount: PositiveInt
+  /** Amount in base source units that remains available to send under the mandate */
+  balance: Int
+  /** Asset code or symbol identifying the currency of the mandate */
+  assetCode: string
+  /** Precision of the asset denomination of the mandate */
+  assetScale: AssetScale
+  /** UNIX timestamp in milliseconds when payments may begin to be sent under the mandate. Omitted if already active */
+  startAt?: NonNegativeNumber
+  /** UNIX timestamp in milliseconds when payments may no longer be sent under the mandate. Omitted if it never expires */
+  expiresAt?: NonNegativeNumber
+}
+
 /** Payment details provided by the recipient, including their asset, ILP address, STREAM shared secret, and/or invoice */
 export interface PaymentDetails extends StreamCredentials {
   invoice?: OpenPaymentsInvoice
@@ -46,11 +66,11 @@ export const fetchPaymentDetails = async (
 ): Promise<PaymentDetails | PaymentError> => {
   // Resolve invoice and STREAM credentials
   if (options.invoiceUrl) {
-    return queryInvoice(options.invoiceUrl)
+    return queryInvoice(options.invoiceUrl, options.httpClient)
   }
   // Resolve STREAM credentials from a payment pointer or account URL via Open Payments or SPSP
   else if (options.paymentPointer) {
-    return queryAccount(options.paymentPointer)
+    return queryAccount(options.paymentPointer, options.httpClient)
   }
   // STREAM credentials were provided directly
   else if (isStreamCredentials(options)) {
@@ -66,15 +86,21 @@ export const fetchPaymentDetails = async (
   }
 }
 
-/** Fetch an invoice and STREAM credentials from an Open Payments */
-const queryInvoice = async (invoiceUrl: string): Promise<PaymentDetails | PaymentError> =>
-  Axios.get(invoiceUrl, {
-    timeout: 5000,
+/**
+ * Fetch an invoice or incoming payment and STREAM credentials from an Open Payments server.
+ * If an incoming payment has no fixed amount to deliver, only its STREAM credentials are resolved
+ */
+export const queryInvoice = async (
+  invoiceUrl: string,
+  httpClient: HttpClient = defaultHttpClient
+): Promise<PaymentDetails | PaymentError> =>
+  fetchJson(httpClient, invoiceUrl, {
     headers: {
       Accept: 'application/ilp-stream+json', // Also include STREAM credentials
     },
   })
-    .then(({ data }) => {
+    .then((data) => {
+      // Invoices include the STREAM credentials alongside the invoice details
       const invoice = validateOpenPaymentsInvoice(data)
       const credentials = validateOpenPaymentsCredentials(data)
       if (invoice && credentials) {
@@ -82,36 +108,67 @@ const queryInvoice = async (invoiceUrl: string): Promise<PaymentDetails | Paymen
           invoice,
           ...credentials,
         }
-      } else {
-        log.debug('invoice query returned an invalid response.')
-        return PaymentError.QueryFailed
       }
+
+      // Incoming payments include the STREAM credentials within their connection
+      const incomingPayment = validateIncomingPayment(data)
+      if (incomingPayment) {
+        return incomingPayment
+      }
+
+      log.debug('invoice query returned an invalid response.')
+      return PaymentError.QueryFailed
+    })
+    .catch((err) => {
+      log.debug('invoice query failed: %s', err) // Stringify, since HTTP errors may be verbose
+      return PaymentError.QueryFailed
+    })
+
+/** Fetch the spend limits of an Open Payments mandate to send payments from the sender's account */
+export const queryMandate = async (
+  mandateUrl: string,
+  httpClient: HttpClient = defaultHttpClient
+): Promise<OpenPaymentsMandate | PaymentError> =>
+  fetchJson(httpClient, mandateUrl, {
+    headers: {
+      Accept: 'application/json',
+    },
+  })
+    .then((data) => {
+      const mandate = validateOpenPaymentsMandate(data)
+      if (mandate) {
+        return mandate
+      }
+
+      log.debug('mandate query returned an invalid response.')
+      return PaymentError.QueryFailed
     })
     .catch((err) => {
-      log.debug('invoice query failed: %s', err) // Stringify, since Axios errors are verbose
+      log.debug('mandate query failed: %s', err)
       return PaymentError.QueryFailed
     })
 
 /** Query the payment pointer, Open Payments server, or SPSP server for credentials to establish a STREAM connection */
-const queryAccount = async (paymentPointer: string): Promise<PaymentDetails | PaymentError> => {
+const queryAccount = async (
+  paymentPointer: string,
+  httpClient: HttpClient = defaultHttpClient
+): Promise<PaymentDetails | PaymentError> => {
   const accountUrls = parsePaymentPointer(paymentPointer)
   if (!accountUrls) {
     log.debug('payment pointer or account url is invalid: %s', paymentPointer)
     return PaymentError.InvalidPaymentPointer
   }
 
-  const { token, cancel } = Axios.CancelToken.source()
-
   // Perform SPSP & Open Payments queries in parallel
-  const requests = accountUrls.map((url) =>
-    Axios.get(url, {
-      timeout: 5000,
+  const cancellations = accountUrls.map(() => createCancelSignal())
+  const requests = accountUrls.map((url, i) =>
+    fetchJson(httpClient, url, {
       headers: {
         Accept: 'application/ilp-stream+json, application/spsp4+json',
       },
-      cancelToken: token,
+      signal: cancellations[i].signal,
     })
-      .then(async ({ data }) => {
+      .then(async (data) => {
         const credentials = validateOpenPaymentsCredentials(data) ?? validateSpspCredentials(data)
         if (credentials) {
           return credentials
@@ -129,7 +186,9 @@ const queryAccount = async (paymentPointer: string): Promise<PaymentDetails | Pa
     noPromises(requests), // All requests failed
   ])
 
-  cancel() // Cancel the other pending request
+  // Cancel the request that lost the race, if it's still pending
+  cancellations.forEach(({ cancel }) => cancel())
+
   return result || PaymentError.QueryFailed
 }
 
@@ -168,8 +227,8 @@ const parsePaymentPointer = (pointer: string): string[] | undefined => {
 }
 
 /** Validate the input is a number or string in the range of a u64 integer, and transform into `Int` */
-const validateUInt64 = (o: any): Int | void => {
-  const n = Int.from(o)
+export const validateUInt64 = (o: unknown): Int | void => {
+  const n = typeof o === 'string' ? Int.from(o) : typeof o === 'number' ? Int.from(o) : undefined
   if (n?.isLessThanOrEqualTo(Int.MAX_U64)) {
     return n
   }
@@ -218,6 +277,133 @@ const validateOpenPaymentsInvoice = (o: any): OpenPaymentsInvoice | void => {
   }
 }
 
+/** Validate an Open Payments amount with its asset, and transform into `Int` */
+const validateOpenPaymentsAmount = (o: any): (AssetDetails & { value: Int }) | void => {
+  if (typeof o !== 'object' || o === null) {
+    return
+  }
+
+  const { value: amount, assetCode, assetScale } = o
+  const value = ['string', 'number'].includes(typeof amount) && validateUInt64(amount)
+  if (value && typeof assetCode === 'string' && isValidAssetScale(assetScale)) {
+    return { value, assetCode, assetScale }
+  }
+}
+
+/** Transform the Open Payments incoming payment and its STREAM connection into validated payment details */
+const validateIncomingPayment = (o: any): PaymentDetails | void => {
+  if (typeof o !== 'object' || o === null) {
+    return
+  }
+
+  const {
+    id: invoiceUrl,
+    accountId,
+    paymentPointer,
+    expiresAt: expiresAtIso,
+    description = '',
+    incomingAmount,
+    receivedAmount,
+    ilpStreamConnection,
+  } = o
+  const accountUrl = accountId ?? paymentPointer
+  const expiresAt = Date.parse(expiresAtIso) // `NaN` if date is invalid
+
+  const credentials = validateOpenPaymentsCredentials(ilpStreamConnection)
+  const received = validateOpenPaymentsAmount(receivedAmount)
+  if (
+    typeof invoiceUrl !== 'string' ||
+    typeof accountUrl !== 'string' ||
+    typeof description !== 'string' ||
+    !credentials ||
+    !credentials.destinationAsset ||
+    !received
+  ) {
+    return
+  }
+
+  // Amounts must be denominated in the asset of the connection
+  const isSameAsset = ({ assetCode, assetScale }: AssetDetails) =>
+    assetCode === credentials.destinationAsset?.assetCode &&
+    assetScale === credentials.destinationAsset?.assetScale
+  if (!isSameAsset(received)) {
+    return
+  }
+
+  // Without a fixed amount to deliver, the incoming payment only provides credentials
+  if (incomingAmount === undefined || incomingAmount === null) {
+    return credentials
+  }
+
+  const incoming = validateOpenPaymentsAmount(incomingAmount)
+  if (
+    !incoming ||
+    !incoming.value.isPositive() ||
+    !isSameAsset(incoming) ||
+    !isNonNegativeNumber(expiresAt)
+  ) {
+    return
+  }
+
+  return {
+    ...credentials,
+    invoice: {
+      invoiceUrl,
+      accountUrl,
+      expiresAt,
+      description,
+      amountDelivered: received.value,
+      amountToDeliver: incoming.value,
+    },
+  }
+}
+
+/** Transform the Open Payments mandate into validated spend limits */
+const validateOpenPaymentsMandate = (o: any): OpenPaymentsMandate | void => {
+  if (typeof o !== 'object' || o === null) {
+    return
+  }
+
+  const { id: mandateUrl, account: accountUrl, assetCode, assetScale } = o
+  if (
+    typeof mandateUrl !== 'string' ||
+    typeof accountUrl !== 'string' ||
+    typeof assetCode !== 'string' ||
+    !isValidAssetScale(assetScale) ||
+    !['string', 'number'].includes(typeof o.amount) ||
+    !['string', 'number'].includes(typeof o.balance)
+  ) {
+    return
+  }
+
+  const amount = validateUInt64(o.amount)
+  const balance = validateUInt64(o.balance)
+  if (!amount || !amount.isPositive() || !balance) {
+    return
+  }
+
+  // Start and expiration are optional, but must be valid dates if provided
+  const startAt = o.startAt !== undefined ? Date.parse(o.startAt) : undefined
+  const expiresAt = o.expiresAt !== undefined ? Date.parse(o.expiresAt) : undefined
+  if (
+    (startAt !== undefined && !isNonNegativeNumber(startAt)) ||
+    (expiresAt !== undefined && !isNonNegativeNumber(expiresAt))
+  ) {
+    return
+  }
+
+  return {
+    mandateUrl,
+    accountUrl,
+    amount,
+    balance,
+    assetCode,
+    assetScale,
+    ...(startAt !== undefined && { startAt }),
+    ...(expiresAt !== undefined && { expiresAt }),
+  }
+}
+
 /** Validate Open Payments STREAM credentials and asset details */
 const validateOpenPaymentsCredentials = (o: any): StreamCredentials | void => {
   if (typeof o !== 'object' || o === null) {
@@ -0,0 +1,96 @@
+import { AssetDetails } from './controllers/asset-details'
+import { isNonNegativeNumber, PositiveInt, Ratio } from './utils'
+
+/** Parameters to cache the discovered path to each destination */
+export interface PathCacheOptions {
+  /** Number of milliseconds to use a discovered path before probing it again. Default: 5 minutes */
+  ttl?: number
+}
+
+/** Max packet amount and exchange rate previously discovered over the path to a destination */
+export interface CachedPath {
+  /** Asset details of the sending account the path was probed from */
+  sourceAsset: AssetDetails
+  /** Asset details of the recipient the path was probed to */
+  destinationAsset: AssetDetails
+  /** Discovered max packet amount of the path, in source units */
+  maxPacketAmount: PositiveInt
+  /** Realized exchange rate is greater than or equal to this ratio (inclusive): destination / source */
+  lowerBoundRate: Ratio
+  /** Realized exchange rate is less than this ratio (exclusive): destination / source */
+  upperBoundRate: Ratio
+}
+
+/**
+ * Prefix shared by all connections to a recipient: its ILP address, without the final segment
+ * that STREAM servers append to identify each connection
+ */
+const getDestinationPrefix = (destinationAddress: string): string => {
+  const i = destinationAddress.lastIndexOf('.')
+  return i > 0 ? destinationAddress.slice(0, i) : destinationAddress
+}
+
+/**
+ * Cache of the max packet amount and exchange rate discovered over the path to each destination,
+ * keyed by destination prefix. Share a cache across quotes, such as for recurring payouts to the same
+ * recipients, to skip the rate probe while the discovered path is fresh.
+ */
+export class PathCache {
+  private static DEFAULT_TTL_MS = 5 * 60_000
+
+  private readonly ttl: number
+
+  /** Most recently discovered path and UNIX timestamp in milliseconds when it was cached, by destination prefix */
+  private paths = new Map<string, { path: CachedPath; cachedAt: number }>()
+
+  constructor({ ttl }: PathCacheOptions = {}) {
+    this.ttl = ttl ?? PathCache.DEFAULT_TTL_MS
+
+    if (!isNonNegativeNumber(this.ttl)) {
+      throw new Error('Cache TTL must be a non-negative number')
+    }
+  }
+
+  /**
+   * Fresh path discovered to the recipient at the given address, if it was probed from an account
+   * with the same asset, or `undefined` if none is cached
+   */
+  get(destinationAddress: string, sourceAsset: AssetDetails): CachedPath | undefined {
+    const prefix = getDestinationPrefix(destinationAddress)
+    const entry = this.paths.get(prefix)
+    if (!entry) {
+      return
+    }
+
+    if (Date.now() - entry.cachedAt > this.ttl) {
+      this.paths.delete(prefix)
+      return
+    }
+
+    const { path } = entry
+    if (
+      path.sourceAsset.assetCode === sourceAsset.assetCode &&
+      path.sourceAsset.assetScale === sourceAsset.assetScale
+    ) {
+      return path
+    }
+  }
+
+  /** Cache the path discovered to the recipient at the given address */
+  set(destinationAddress: string, path: CachedPath): void {
+    this.paths.set(getDestinationPrefix(destinationAddress), {
+      path,
+      cachedAt: Date.now(),
+    })
+  }
+
+  /** Discard the path cached to the recipient at the given address, so the next quote probes it again */
+  delete(destinationAddress: string): void {
+    this.paths.delete(getDestinationPrefix(destinationAddress))
+  }
+
+  /** Discard all cached paths */
+  clear(): void {
+    this.paths.clear()
+  }
+}
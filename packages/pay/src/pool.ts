@@ -0,0 +1,198 @@
+import { randomBytes } from 'crypto'
+import createLogger from 'ilp-logger'
+import { deserializeIlpPrepare, IlpError, IlpPrepare } from 'ilp-packet'
+import { fetch as sendIldcpRequest, IldcpResponse, serve as serveIldcp } from 'ilp-protocol-ildcp'
+import { Plugin } from 'ilp-protocol-stream/dist/src/util/plugin-interface'
+import { isPaymentError, PaymentError, PaymentOptions, Quote, quote } from '.'
+import { RejectBuilder } from './utils'
+
+/** Quote and execute many concurrent payments over a single shared plugin */
+export interface PaymentPool {
+  /** Quote a payment over its own STREAM connection, sharing the plugin of the pool */
+  quote: (options: Omit<PaymentOptions, 'plugin'>) => Promise<Quote>
+  /**
+   * Quote many payments concurrently. Resolves with a quote or error for each
+   * payment, in the same order, so one failed quote doesn't fail the batch
+   */
+  batchQuote: (options: Omit<PaymentOptions, 'plugin'>[]) => Promise<(Quote | PaymentError)[]>
+  /** Stop routing packets to all payments and disconnect the shared plugin */
+  close: () => Promise<void>
+}
+
+/** IL-DCP requests are sent to this address */
+const ILDCP_DESTINATION = 'peer.config'
+
+/**
+ * Create a pool to multiplex many STREAM connections over a single plugin.
+ *
+ * Each payment is assigned its own virtual plugin, which connects the shared plugin once,
+ * and answers IL-DCP requests from a single cached request over the shared plugin. Each
+ * connection uses a unique child of the source address, so incoming packets are
+ * routed to the corresponding connection by their destination address.
+ */
+export const createPaymentPool = (plugin: Plugin): PaymentPool => {
+  const log = createLogger('ilp-pay:pool')
+
+  /** Data handlers of each connection, by its unique source address */
+  const routes = new Map<string, (data: Buffer) => Promise<Buffer>>()
+
+  let connectPromise: Promise<void> | undefined
+  let ildcpPromise: Promise<IldcpResponse> | undefined
+
+  const connect = (): Promise<void> => {
+    if (!connectPromise) {
+      const promise = plugin.connect().catch((err: Error) => {
+        // Stop routing packets from the plugin, unless the pool was since closed and connected again
+        if (connectPromise === promise) {
+          connectPromise = undefined
+          plugin.deregisterDataHandler()
+        }
+        throw err
+      })
+      connectPromise = promise
+
+      plugin.deregisterDataHandler()
+      plugin.registerDataHandler(async (data) => {
+        let prepare: IlpPrepare
+        try {
+          prepare = deserializeIlpPrepare(data)
+        } catch (_) {
+          log.trace('got invalid incoming packet: rejecting with F01')
+          return new RejectBuilder().setCode(IlpError.F01_INVALID_PACKET).serialize()
+        }
+
+        const handler = [...routes].find(
+          ([address]) =>
+            prepare.destination === address || prepare.destination.startsWith(address + '.')
+        )?.[1]
+        if (!handler) {
+          log.debug(
+            'rejecting with F02: no connection for incoming Prepare to %s',
+            prepare.destination
+          )
+          return new RejectBuilder().setCode(IlpError.F02_UNREACHABLE).serialize()
+        }
+
+        return handler(data)
+      })
+    }
+
+    return connectPromise
+  }
+
+  // Share the source account details across all connections
+  const fetchSourceAccount = (): Promise<IldcpResponse> => {
+    if (!ildcpPromise) {
+      ildcpPromise = sendIldcpRequest((data) => plugin.sendData(data)).catch((err: Error) => {
+        ildcpPromise = undefined
+        throw err
+      })
+    }
+
+    return ildcpPromise
+  }
+
+  /** Create a plugin for a single connection that shares the underlying plugin */
+  const createConnectionPlugin = (): Plugin => {
+    const connectionTag = randomBytes(8).toString('hex')
+    let sourceAddress: string | undefined
+    let dataHandler: ((data: Buffer) => Promise<Buffer>) | undefined
+    let connected = false
+
+    const register = () => {
+      if (sourceAddress && dataHandler) {
+        routes.set(sourceAddress, dataHandler)
+      }
+    }
+
+    return {
+      async connect() {
+        await connect()
+        connected = true
+      },
+
+      async disconnect() {
+        connected = false
+        if (sourceAddress) {
+          routes.delete(sourceAddress)
+        }
+      },
+
+      isConnected: () => connected && plugin.isConnected(),
+
+      async sendData(data: Buffer) {
+        if (!connected) {
+          throw new Error('Not connected')
+        }
+
+        let destination: string | undefined
+        try {
+          destination = deserializeIlpPrepare(data).destination
+        } catch (_) {
+          // Let the underlying plugin handle invalid packets
+        }
+
+        if (destination !== ILDCP_DESTINATION) {
+          return plugin.sendData(data)
+        }
+
+        const { clientAddress, assetCode, assetScale } = await fetchSourceAccount()
+        sourceAddress = `${clientAddress}.${connectionTag}`
+        register()
+
+        return serveIldcp({
+          requestPacket: data,
+          handler: async () => ({
+            clientAddress: sourceAddress as string,
+            assetCode,
+            assetScale,
+          }),
+          serverAddress: clientAddress,
+        })
+      },
+
+      registerDataHandler(handler: (data: Buffer) => Promise<Buffer>) {
+        dataHandler = handler
+        register()
+      },
+
+      deregisterDataHandler() {
+        dataHandler = undefined
+        if (sourceAddress) {
+          routes.delete(sourceAddress)
+        }
+      },
+    }
+  }
+
+  const pool: PaymentPool = {
+    quote: (options) => quote({ ...options, plugin: createConnectionPlugin() }),
+
+    batchQuote: (optionsList) =>
+      Promise.all(
+        optionsList.map((options) =>
+          pool.quote(options).catch((err) => {
+            if (isPaymentError(err)) {
+              return err
+            }
+            throw err
+          })
+        )
+      ),
+
+    async close() {
+      routes.clear()
+      ildcpPromise = undefined
+      if (connectPromise) {
+        connectPromise = undefined
+        plugin.deregisterDataHandler()
+        await plugin
+          .disconnect()
+          .then(() => log.debug('plugin disconnected.'))
+          .catch((err: Error) => log.error('error disconnecting plugin:', err))
+      }
+    },
+  }
+
+  return pool
+}
@@ -1,6 +1,7 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
-import axios, { AxiosResponse } from 'axios'
 import { NonNegativeNumber, isNonNegativeNumber } from '../utils'
+import { RateBackend, Prices } from '.'
+import { defaultHttpClient, fetchJson, HttpClient } from '../http'
 
 const DAY_DURATION_MS = 24 * 60 * 60 * 1000
 
@@ -35,9 +36,9 @@ const isValidResponse = (o: any): o is CoinCapResponse =>
       (typeof el.priceUsd === 'string' || typeof el.rateUsd === 'string')
   )
 
-const parseResponse = ({
-  data,
-}: AxiosResponse<any>): {
+const parseResponse = (
+  data: any
+): {
   [symbol: string]: NonNegativeNumber
 } => {
   const minimumUpdatedTimestamp = Date.now() - DAY_DURATION_MS
@@ -60,17 +61,25 @@ const parseResponse = ({
     )
 }
 
-export const fetchCoinCapRates = async (): Promise<{
+export const fetchCoinCapRates = async (
+  httpClient: HttpClient = defaultHttpClient
+): Promise<{
   [symbol: string]: NonNegativeNumber
 }> => ({
-  ...parseResponse(
-    await axios.get(COINCAP_ASSETS_URL, {
-      timeout: 5000,
-    })
-  ),
-  ...parseResponse(
-    await axios.get(COINCAP_RATES_URL, {
-      timeout: 5000,
-    })
-  ),
+  ...parseResponse(await fetchJson(httpClient, COINCAP_ASSETS_URL)),
+  ...parseResponse(await fetchJson(httpClient, COINCAP_RATES_URL)),
 })
+
+/** Rate backend using crypto and fiat prices from the CoinCap API */
+export class CoinCapRateBackend implements RateBackend {
+  /** Client to send requests to the CoinCap API */
+  private readonly httpClient?: HttpClient
+
+  constructor(httpClient?: HttpClient) {
+    this.httpClient = httpClient
+  }
+
+  fetchPrices(): Promise<Prices> {
+    return fetchCoinCapRates(this.httpClient)
+  }
+}
@@ -1,30 +1,34 @@
-/* eslint-disable @typescript-eslint/no-explicit-any */
-import axios from 'axios'
 import parseXml, { NodeBase, Element, Document } from '@rgrove/parse-xml'
+import { isNonNegativeNumber } from '../utils'
+import { RateBackend, Prices } from '.'
+import { defaultHttpClient, HttpClient } from '../http'
 
 const DAY_DURATION_MS = 24 * 60 * 60 * 1000
 
+/** Daily reference rates of fiat currencies against the euro */
+const ECB_RATES_URL = 'https://www.ecb.europa.eu/stats/eurofxref/eurofxref-daily.xml'
+
 const isElement = (node: NodeBase): node is Element => node.type === 'element'
 const isDocument = (node: NodeBase): node is Document => node.type === 'document'
 
 const hasCurrencyPair = (el: Element): boolean => !!el.attributes.currency && !!el.attributes.rate
 
-const minimumUpdatedTimestamp = Date.now() - 2 * DAY_DURATION_MS
-const isValidTimestamp = (node: NodeBase): boolean =>
+const isValidTimestamp = (node: NodeBase, minimumUpdatedTimestamp: number): boolean =>
   (isElement(node) &&
     !!node.attributes.time &&
     new Date(node.attributes.time).getTime() > minimumUpdatedTimestamp) ||
-  ((isElement(node) || isDocument(node)) && node.children.map(isValidTimestamp).some((a) => a))
+  ((isElement(node) || isDocument(node)) &&
+    node.children.some((child) => isValidTimestamp(child, minimumUpdatedTimestamp)))
 
-const parsePairs = (
-  node: NodeBase
-): {
-  [symbol: string]: number
-} => {
+/** Convert each rate, in units of the currency per euro, into the price of the currency in euros */
+const parsePairs = (node: NodeBase): Prices => {
   if (isElement(node) && hasCurrencyPair(node)) {
-    return {
-      // [node.attributes.currency]: node.attributes.rate // TODO Fix this so the backend actually fetches rates...
-    }
+    const rate = +node.attributes.rate
+    return isNonNegativeNumber(rate) && rate > 0
+      ? {
+          [node.attributes.currency]: 1 / rate,
+        }
+      : {}
   } else if (isElement(node) || isDocument(node)) {
     return Object.assign({}, ...node.children.map(parsePairs))
   } else {
@@ -32,16 +36,36 @@ const parsePairs = (
   }
 }
 
-export const fetchEcbRates = async (): Promise<{
-  [symbol: string]: number
-}> => {
-  const response = await axios.get('https://www.ecb.europa.eu/stats/eurofxref/eurofxref-daily.xml')
-  const parsedResponse = parseXml(response.data)
+export const fetchEcbRates = async (
+  httpClient: HttpClient = defaultHttpClient
+): Promise<Prices> => {
+  const response = await httpClient(ECB_RATES_URL)
+  if (!response.ok) {
+    throw new Error(`ECB rates request failed with status ${response.status}`)
+  }
+  const parsedResponse = parseXml(await response.text())
 
   // Require the most recent update to be within the past 2 days
-  if (!isValidTimestamp(parsedResponse)) {
+  if (!isValidTimestamp(parsedResponse, Date.now() - 2 * DAY_DURATION_MS)) {
     throw new Error('Invalid timestamp')
   }
 
-  return parsePairs(parsedResponse)
+  return {
+    EUR: 1,
+    ...parsePairs(parsedResponse),
+  }
+}
+
+/** Rate backend using fiat reference rates from the European Central Bank, with euros as the base asset */
+export class EcbRateBackend implements RateBackend {
+  /** Client to send requests to the European Central Bank */
+  private readonly httpClient?: HttpClient
+
+  constructor(httpClient?: HttpClient) {
+    this.httpClient = httpClient
+  }
+
+  fetchPrices(): Promise<Prices> {
+    return fetchEcbRates(this.httpClient)
+  }
 }
@@ -0,0 +1,162 @@
+import { isNonNegativeNumber } from '../utils'
+
+/** Mapping of asset codes to prices in a standardized base asset */
+export interface Prices {
+  [assetCode: string]: number
+}
+
+/** Source of external prices to compute exchange rates and enforce a minimum rate */
+export interface RateBackend {
+  /**
+   * Fetch prices of assets in a common base asset, which must include the given asset codes
+   * to compute a rate between them. Prices of other assets may also be included.
+   * Rejects if prices are unavailable.
+   */
+  fetchPrices(assetCodes: string[]): Promise<Prices>
+}
+
+/** Does the set of prices include a valid price for each of the given assets? */
+const hasPrices = (prices: Prices, assetCodes: string[]): boolean =>
+  assetCodes.every((code) => isNonNegativeNumber(prices[code]))
+
+/** Rate backend with a fixed set of prices */
+export class StaticRateBackend implements RateBackend {
+  private readonly prices: Prices
+
+  constructor(prices: Prices) {
+    this.prices = prices
+  }
+
+  async fetchPrices(): Promise<Prices> {
+    return this.prices
+  }
+}
+
+/** Rate backend using a custom function to fetch prices */
+export class CallbackRateBackend implements RateBackend {
+  private readonly callback: (assetCodes: string[]) => Promise<Prices>
+
+  constructor(callback: (assetCodes: string[]) => Promise<Prices>) {
+    this.callback = callback
+  }
+
+  fetchPrices(assetCodes: string[]): Promise<Prices> {
+    return this.callback(assetCodes)
+  }
+}
+
+/** Parameters to cache prices from a rate backend */
+export interface CacheOptions {
+  /** Number of milliseconds to use cached prices before fetching new prices. Default: 60 seconds */
+  ttl?: number
+  /**
+   * Number of milliseconds since prices were fetched that they may still be used if fetching new prices fails.
+   * Default: equal to the `ttl`, so stale prices are never used
+   */
+  maxStaleness?: number
+}
+
+/** Rate backend to cache prices from another backend and limit how stale they may become */
+export class CachedRateBackend implements RateBackend {
+  private static DEFAULT_TTL_MS = 60_000
+
+  private readonly backend: RateBackend
+  private readonly ttl: number
+  private readonly maxStaleness: number
+
+  /** Most recently fetched price of each asset and UNIX timestamp in milliseconds when it was fetched */
+  private readonly cache = new Map<string, { price: number; fetchedAt: number }>()
+
+  /** Pending requests for new prices by the requested asset codes, so concurrent callers share a single request */
+  private readonly pendingRequests = new Map<string, Promise<Prices>>()
+
+  constructor(backend: RateBackend, { ttl, maxStaleness }: CacheOptions = {}) {
+    this.backend = backend
+    this.ttl = ttl ?? CachedRateBackend.DEFAULT_TTL_MS
+    this.maxStaleness = Math.max(maxStaleness ?? this.ttl, this.ttl)
+
+    if (!isNonNegativeNumber(this.ttl) || !isNonNegativeNumber(this.maxStaleness)) {
+      throw new Error('Cache TTL and max staleness must be non-negative numbers')
+    }
+  }
+
+  /** Cached prices of all assets fetched within the given number of milliseconds */
+  private getCachedPrices(maxAge: number): Prices {
+    const now = Date.now()
+    const prices: Prices = {}
+    for (const [assetCode, { price, fetchedAt }] of this.cache) {
+      if (now - fetchedAt <= maxAge) {
+        prices[assetCode] = price
+      }
+    }
+    return prices
+  }
+
+  async fetchPrices(assetCodes: string[]): Promise<Prices> {
+    const cachedPrices = this.getCachedPrices(this.ttl)
+    if (hasPrices(cachedPrices, assetCodes)) {
+      return cachedPrices
+    }
+
+    // Only share requests for the same assets, since other requests may not include prices for these
+    const key = [...new Set(assetCodes)].sort().join(',')
+    const request = this.pendingRequests.get(key) ?? this.backend.fetchPrices(assetCodes)
+    this.pendingRequests.set(key, request)
+
+    try {
+      const prices = await request
+
+      // Merge into the cache, so prices of other assets aren't evicted
+      const fetchedAt = Date.now()
+      for (const [assetCode, price] of Object.entries(prices)) {
+        if (isNonNegativeNumber(price)) {
+          this.cache.set(assetCode, { price, fetchedAt })
+        }
+      }
+      return prices
+    } catch (err) {
+      // If the refresh failed, fallback to stale prices within the limit, if they include all the assets
+      const stalePrices = this.getCachedPrices(this.maxStaleness)
+      if (hasPrices(stalePrices, assetCodes)) {
+        return stalePrices
+      }
+
+      throw err
+    } finally {
+      if (this.pendingRequests.get(key) === request) {
+        this.pendingRequests.delete(key)
+      }
+    }
+  }
+}
+
+/**
+ * Rate backend to query an ordered chain of backends, using the prices from the first
+ * backend that successfully returns prices for all the requested assets
+ */
+export class FallbackRateBackend implements RateBackend {
+  private readonly backends: RateBackend[]
+
+  constructor(backends: RateBackend[]) {
+    this.backends = backends
+  }
+
+  async fetchPrices(assetCodes: string[]): Promise<Prices> {
+    const errors: string[] = []
+
+    for (const backend of this.backends) {
+      try {
+        const prices = await backend.fetchPrices(assetCodes)
+        if (hasPrices(prices, assetCodes)) {
+          return prices
+        }
+
+        errors.push(`no prices for ${assetCodes.join(', ')}`)
+      } catch (err) {
+        errors.push(String(err)) // Stringify, since Axios errors are verbose
+      }
+    }
+
+    throw new Error(`All rate backends failed: ${errors.join('; ')}`)
+  }
+}
@@ -0,0 +1,400 @@
+import { IlpAddress, isValidIlpAddress } from 'ilp-packet'
+import { isValidAssetScale } from 'ilp-protocol-ildcp'
+import { AccountDetails } from './controllers/asset-details'
+import { PaymentType, StreamTarget, StreamProgress } from './controllers/amount'
+import { ExchangeRateCalculator } from './controllers/exchange-rate'
+import { OpenPaymentsInvoice, OpenPaymentsMandate, validateUInt64 } from './open-payments'
+import { Int, PositiveInt, Ratio, isNonNegativeNumber } from './utils'
+
+/**
+ * Serializable snapshot of an in-progress payment, to resume it from another process
+ * over the same STREAM connection. Amounts are in base units, and rates are
+ * ratios of [numerator, denominator] in base units: destination / source
+ */
+export interface PaymentState {
+  /** Base64-encoded 32-byte seed to encrypt and decrypt STREAM messages */
+  sharedSecret: string
+  /** ILP address of the recipient, identifying this connection */
+  destinationAddress: string
+  /** Source account details */
+  sourceAccount: AccountDetails
+  /** Destination account details */
+  destinationAccount: AccountDetails
+  /** Is the fixed amount of the payment denominated in the source or destination asset? */
+  targetType: 'FixedSend' | 'FixedDelivery'
+  /** Fixed source amount or fixed destination amount of the payment */
+  targetAmount: string
+  /** Minimum exchange rate enforced on each packet */
+  minExchangeRate: [string, string]
+  /** Lower bound of the probed exchange rate (inclusive) */
+  lowerBoundRate: [string, string]
+  /** Upper bound of the probed exchange rate (exclusive) */
+  upperBoundRate: [string, string]
+  /** Discovered max packet amount of the path, in source units */
+  maxPacketAmount: string
+  /**
+   * Amount sent, in source units. Packets in-flight when the snapshot was taken
+   * are conservatively assumed to be sent, so resuming never exceeds the max source amount
+   */
+  amountSent: string
+  /**
+   * Amount delivered to the recipient, in destination units. Packets in-flight when the snapshot
+   * was taken are conservatively assumed to deliver their minimum destination amount, so resuming never
+   * overpays, but may underpay a fixed delivery amount by that amount if they were rejected
+   */
+  amountDelivered: string
+  /**
+   * Sequence number of the next STREAM packet. Snapshots are taken before each packet is sent,
+   * so packets are never replayed if each snapshot is persisted before it's sent
+   */
+  nextSequence: number
+  /** Maximum amount to accept from the recipient over the connection, in source units, if receiving is enabled */
+  receiveMax?: string
+  /** Amount received from the recipient over the connection, in source units, if receiving is enabled */
+  amountReceived?: string
+  /** Fixed source amount and progress of each stream, if the payment is split across streams */
+  streams?: {
+    streamId: number
+    targetAmount: string
+    /** Includes packets in-flight when the snapshot was taken */
+    amountSent: string
+    /** Includes the minimum destination amount of packets in-flight when the snapshot was taken */
+    amountDelivered: string
+  }[]
+  /** Open Payments invoice the payment pays into, if applicable */
+  invoice?: {
+    invoiceUrl: string
+    accountUrl: string
+    expiresAt: number
+    description: string
+    amountToDeliver: string
+    amountDelivered: string
+  }
+  /** Open Payments mandate spend limits authorizing the payment when it was last fetched, if applicable */
+  mandate?: {
+    mandateUrl: string
+    accountUrl: string
+    amount: string
+    balance: string
+    assetCode: string
+    assetScale: number
+    startAt?: number
+    expiresAt?: number
+  }
+}
+
+/** Validated payment state to resume a payment */
+export interface PaymentCheckpoint {
+  sharedSecret: Buffer
+  destinationAddress: IlpAddress
+  sourceAccount: AccountDetails
+  destinationAccount: AccountDetails
+  target: {
+    type: PaymentType
+    amount: PositiveInt
+  }
+  minExchangeRate: Ratio
+  rateCalculator: ExchangeRateCalculator
+  maxPacketAmount: PositiveInt
+  amountSent: Int
+  amountDelivered: Int
+  nextSequence: number
+  receiveMax?: Int
+  amountReceived?: Int
+  streams?: (StreamTarget & StreamProgress)[]
+  invoice?: OpenPaymentsInvoice
+  mandate?: OpenPaymentsMandate
+}
+
+const serializeRatio = ({ a, b }: Ratio): [string, string] => [a.toString(), b.toString()]
+
+/** Convert the in-progress payment into its serializable representation */
+export const serializePaymentState = (checkpoint: PaymentCheckpoint): PaymentState => ({
+  sharedSecret: checkpoint.sharedSecret.toString('base64'),
+  destinationAddress: checkpoint.destinationAddress,
+  sourceAccount: { ...checkpoint.sourceAccount },
+  destinationAccount: { ...checkpoint.destinationAccount },
+  targetType: checkpoint.target.type === PaymentType.FixedSend ? 'FixedSend' : 'FixedDelivery',
+  targetAmount: checkpoint.target.amount.toString(),
+  minExchangeRate: serializeRatio(checkpoint.minExchangeRate),
+  lowerBoundRate: serializeRatio(checkpoint.rateCalculator.lowerBoundRate),
+  upperBoundRate: serializeRatio(checkpoint.rateCalculator.upperBoundRate),
+  maxPacketAmount: checkpoint.maxPacketAmount.toString(),
+  amountSent: checkpoint.amountSent.toString(),
+  amountDelivered: checkpoint.amountDelivered.toString(),
+  nextSequence: checkpoint.nextSequence,
+  ...(checkpoint.receiveMax?.isPositive() && {
+    receiveMax: checkpoint.receiveMax.toString(),
+    amountReceived: (checkpoint.amountReceived ?? Int.ZERO).toString(),
+  }),
+  ...(checkpoint.streams && {
+    streams: checkpoint.streams.map(({ streamId, amount, amountSent, amountDelivered }) => ({
+      streamId,
+      targetAmount: amount.toString(),
+      amountSent: amountSent.toString(),
+      amountDelivered: amountDelivered.toString(),
+    })),
+  }),
+  ...(checkpoint.invoice && {
+    invoice: {
+      invoiceUrl: checkpoint.invoice.invoiceUrl,
+      accountUrl: checkpoint.invoice.accountUrl,
+      expiresAt: checkpoint.invoice.expiresAt,
+      description: checkpoint.invoice.description,
+      amountToDeliver: checkpoint.invoice.amountToDeliver.toString(),
+      amountDelivered: checkpoint.invoice.amountDelivered.toString(),
+    },
+  }),
+  ...(checkpoint.mandate && {
+    mandate: {
+      ...checkpoint.mandate,
+      amount: checkpoint.mandate.amount.toString(),
+      balance: checkpoint.mandate.balance.toString(),
+    },
+  }),
+})
+
+/** Is the input a non-null object, so its properties may be validated? */
+const isObject = (o: unknown): o is { [key: string]: unknown } =>
+  typeof o === 'object' && o !== null
+
+/** Validate the input is a tuple of a numerator and positive denominator, and transform into `Ratio` */
+const validateRatio = (o: unknown): Ratio | void => {
+  if (Array.isArray(o) && o.length === 2) {
+    const a = validateUInt64(o[0])
+    const b = validateUInt64(o[1])
+    if (a && b && b.isPositive()) {
+      return new Ratio(a, b)
+    }
+  }
+}
+
+const validateAccountDetails = (o: unknown): AccountDetails | void => {
+  if (
+    isObject(o) &&
+    isValidIlpAddress(o.ilpAddress) &&
+    isValidAssetScale(o.assetScale) &&
+    typeof o.assetCode === 'string'
+  ) {
+    return {
+      ilpAddress: o.ilpAddress,
+      assetScale: o.assetScale,
+      assetCode: o.assetCode,
+    }
+  }
+}
+
+/** Validate each stream is odd-numbered and unique, since the sender opens them, with a positive target amount */
+const validateStreams = (o: unknown): (StreamTarget & StreamProgress)[] | void => {
+  if (!Array.isArray(o) || o.length === 0) {
+    return
+  }
+
+  const streams: (StreamTarget & StreamProgress)[] = []
+  for (const stream of o) {
+    if (!isObject(stream)) {
+      return
+    }
+
+    const { streamId } = stream
+    if (
+      typeof streamId !== 'number' ||
+      !Number.isInteger(streamId) ||
+      streamId <= 0 ||
+      streamId % 2 === 0 ||
+      streams.some((s) => s.streamId === streamId)
+    ) {
+      return
+    }
+
+    const amount = validateUInt64(stream.targetAmount)
+    const amountSent = validateUInt64(stream.amountSent)
+    const amountDelivered = validateUInt64(stream.amountDelivered)
+    if (!amount || !amount.isPositive() || !amountSent || !amountDelivered) {
+      return
+    }
+
+    streams.push({ streamId, amount, amountSent, amountDelivered })
+  }
+
+  return streams
+}
+
+const validateInvoice = (o: unknown): OpenPaymentsInvoice | void => {
+  if (!isObject(o)) {
+    return
+  }
+
+  const { invoiceUrl, accountUrl, expiresAt, description } = o
+  if (
+    typeof invoiceUrl !== 'string' ||
+    typeof accountUrl !== 'string' ||
+    typeof description !== 'string' ||
+    typeof expiresAt !== 'number' ||
+    !isNonNegativeNumber(expiresAt)
+  ) {
+    return
+  }
+
+  const amountToDeliver = validateUInt64(o.amountToDeliver)
+  const amountDelivered = validateUInt64(o.amountDelivered)
+  if (amountToDeliver && amountToDeliver.isPositive() && amountDelivered) {
+    return {
+      invoiceUrl,
+      accountUrl,
+      expiresAt,
+      description,
+      amountToDeliver,
+      amountDelivered,
+    }
+  }
+}
+
+const validateMandate = (o: unknown): OpenPaymentsMandate | void => {
+  if (!isObject(o)) {
+    return
+  }
+
+  const { mandateUrl, accountUrl, assetCode, assetScale, startAt, expiresAt } = o
+  if (
+    typeof mandateUrl !== 'string' ||
+    typeof accountUrl !== 'string' ||
+    typeof assetCode !== 'string' ||
+    !isValidAssetScale(assetScale) ||
+    (startAt !== undefined && (typeof startAt !== 'number' || !isNonNegativeNumber(startAt))) ||
+    (expiresAt !== undefined && (typeof expiresAt !== 'number' || !isNonNegativeNumber(expiresAt)))
+  ) {
+    return
+  }
+
+  const amount = validateUInt64(o.amount)
+  const balance = validateUInt64(o.balance)
+  if (amount && amount.isPositive() && balance) {
+    return {
+      mandateUrl,
+      accountUrl,
+      amount,
+      balance,
+      assetCode,
+      assetScale,
+      ...(startAt !== undefined && { startAt }),
+      ...(expiresAt !== undefined && { expiresAt }),
+    }
+  }
+}
+
+/** Validate and transform a serialized payment state so the payment may be resumed */
+export const deserializePaymentState = (o: unknown): PaymentCheckpoint | void => {
+  if (!isObject(o)) {
+    return
+  }
+
+  const { destinationAddress, nextSequence } = o
+  const sharedSecret = typeof o.sharedSecret === 'string' && Buffer.from(o.sharedSecret, 'base64')
+  if (!sharedSecret || sharedSecret.byteLength !== 32 || !isValidIlpAddress(destinationAddress)) {
+    return
+  }
+
+  const sourceAccount = validateAccountDetails(o.sourceAccount)
+  const destinationAccount = validateAccountDetails(o.destinationAccount)
+  if (!sourceAccount || !destinationAccount) {
+    return
+  }
+
+  const targetType =
+    o.targetType === 'FixedSend'
+      ? PaymentType.FixedSend
+      : o.targetType === 'FixedDelivery'
+      ? PaymentType.FixedDelivery
+      : undefined
+  const targetAmount = validateUInt64(o.targetAmount)
+  if (targetType === undefined || !targetAmount || !targetAmount.isPositive()) {
+    return
+  }
+
+  const minExchangeRate = validateRatio(o.minExchangeRate)
+  const lowerBoundRate = validateRatio(o.lowerBoundRate)
+  const upperBoundRate = validateRatio(o.upperBoundRate)
+  if (!minExchangeRate || !lowerBoundRate || !upperBoundRate) {
+    return
+  }
+
+  const maxPacketAmount = validateUInt64(o.maxPacketAmount)
+  const amountSent = validateUInt64(o.amountSent)
+  const amountDelivered = validateUInt64(o.amountDelivered)
+  if (!maxPacketAmount || !maxPacketAmount.isPositive() || !amountSent || !amountDelivered) {
+    return
+  }
+
+  if (typeof nextSequence !== 'number' || !Number.isInteger(nextSequence) || nextSequence < 0) {
+    return
+  }
+
+  // Total received may never exceed the receive max
+  let receiveMax: Int | undefined
+  let amountReceived: Int | undefined
+  if (o.receiveMax !== undefined || o.amountReceived !== undefined) {
+    receiveMax = validateUInt64(o.receiveMax) || undefined
+    amountReceived = validateUInt64(o.amountReceived) || undefined
+    if (!receiveMax || !amountReceived || amountReceived.isGreaterThan(receiveMax)) {
+      return
+    }
+  }
+
+  // Streams must split a fixed source amount
+  let streams: (StreamTarget & StreamProgress)[] | undefined
+  if (o.streams !== undefined) {
+    streams = validateStreams(o.streams) || undefined
+    const totalAmount = streams?.reduce((sum, { amount }) => sum.add(amount), Int.ZERO)
+    if (
+      !totalAmount ||
+      !totalAmount.isEqualTo(targetAmount) ||
+      targetType !== PaymentType.FixedSend
+    ) {
+      return
+    }
+  }
+
+  let invoice: OpenPaymentsInvoice | undefined
+  if (o.invoice !== undefined) {
+    invoice = validateInvoice(o.invoice) || undefined
+    if (!invoice) {
+      return
+    }
+  }
+
+  // Mandate must be denominated in the source asset
+  let mandate: OpenPaymentsMandate | undefined
+  if (o.mandate !== undefined) {
+    mandate = validateMandate(o.mandate) || undefined
+    if (
+      !mandate ||
+      mandate.assetCode !== sourceAccount.assetCode ||
+      mandate.assetScale !== sourceAccount.assetScale
+    ) {
+      return
+    }
+  }
+
+  return {
+    sharedSecret,
+    destinationAddress,
+    sourceAccount,
+    destinationAccount,
+    target: {
+      type: targetType,
+      amount: targetAmount,
+    },
+    minExchangeRate,
+    rateCalculator: new ExchangeRateCalculator(lowerBoundRate, upperBoundRate),
+    maxPacketAmount,
+    amountSent,
+    amountDelivered,
+    nextSequence,
+    receiveMax,
+    amountReceived,
+    streams,
+    invoice,
+    mandate,
+  }
+}
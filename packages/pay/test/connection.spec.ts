@@ -2,6 +2,7 @@
 import { it, expect } from '@jest/globals'
 import { MirrorPlugin } from './helpers/plugin'
 import { createConnection } from '../src/connection'
+import { ReceiveController } from '../src/controllers/receive'
 import { ControllerMap, StreamReject } from '../src/controllers'
 import { randomBytes } from 'crypto'
 import {
@@ -48,6 +49,7 @@ controllers.set(
   )
 )
 controllers.set(FailureController, new FailureController())
+controllers.set(ReceiveController, new ReceiveController())
 
 describe('handles requests', () => {
   it('acknowledges authentic incoming ILP Prepare packets', async () => {
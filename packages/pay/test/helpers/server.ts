@@ -0,0 +1,71 @@
+import { createServer, IncomingHttpHeaders } from 'http'
+import { AddressInfo } from 'net'
+import { defaultHttpClient, HttpClient } from '../../src/http'
+
+/** Fixture to respond to requests to a path */
+export interface MockResponse {
+  /** HTTP status code. Default: 200 */
+  status?: number
+  /** Body of the response, serialized as JSON unless it's a string */
+  body?: unknown
+  /** Headers of the response. Default: JSON content type */
+  headers?: {
+    [name: string]: string
+  }
+}
+
+/** Request received by the mock server */
+export interface MockRequest {
+  method?: string
+  path: string
+  headers: IncomingHttpHeaders
+}
+
+/** Local HTTP server responding with fixtures, to test HTTP queries without network access */
+export interface MockServer {
+  /** Origin of the server, such as `http://127.0.0.1:1234` */
+  url: string
+  /** All requests the server received, in order */
+  requests: MockRequest[]
+  /** HTTP client that sends all requests to this server, preserving the path of each URL */
+  httpClient: HttpClient
+  close(): Promise<void>
+}
+
+/**
+ * Start a local HTTP server responding to each path with its fixture, or 404 if none is defined.
+ * This is a test fixture rather than part of the package: it depends on the Node `http` module,
+ * which isn't available in browsers, and integrators can stub `HttpClient` directly
+ */
+export const createMockServer = async (routes: {
+  [path: string]: MockResponse
+}): Promise<MockServer> => {
+  const requests: MockRequest[] = []
+
+  const server = createServer((req, res) => {
+    const path = new URL(req.url ?? '/', 'http://localhost').pathname
+    requests.push({ method: req.method, path, headers: req.headers })
+
+    const route = routes[path]
+    if (!route) {
+      res.writeHead(404).end()
+      return
+    }
+
+    const { status = 200, body, headers = { 'Content-Type': 'application/json' } } = route
+    res.writeHead(status, headers).end(typeof body === 'string' ? body : JSON.stringify(body))
+  })
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+  const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+
+  return {
+    url,
+    requests,
+    httpClient: (requestUrl, options) => {
+      const { pathname, search } = new URL(requestUrl)
+      return defaultHttpClient(url + pathname + search, options)
+    },
+    close: () => new Promise((resolve) => server.close(() => resolve())),
+  }
+}
@@ -7,13 +7,33 @@ import reduct from 'reduct'
 import { CustomBackend } from './helpers/rate-backend'
 import { MirrorPlugin } from './helpers/plugin'
 import { fetchCoinCapRates } from '../src/rates/coincap'
-import { quote, PaymentError } from '../src'
+import {
+  quote,
+  resumePayment,
+  PaymentError,
+  PaymentState,
+  FallbackRateBackend,
+  CallbackRateBackend,
+  StaticRateBackend,
+  PacketProgress,
+  Receipt,
+  verifyStreamReceipt,
+  HttpClient,
+  CancelSignal,
+  defaultHttpClient,
+  quoteOnly,
+  PathCache,
+  PaymentMetric,
+  PaymentMetrics,
+  MetricLabels,
+} from '../src'
 import { describe, it, expect, jest } from '@jest/globals'
 import {
   serializeIlpFulfill,
   deserializeIlpPrepare,
   serializeIlpReject,
   IlpError,
+  IlpAddress,
 } from 'ilp-packet'
 import { sleep, Int, Ratio, PositiveInt } from '../src/utils'
 import {
@@ -24,20 +44,27 @@ import {
   hash,
 } from 'ilp-protocol-stream/dist/src/crypto'
 import { Plugin } from 'ilp-protocol-stream/dist/src/util/plugin-interface'
-import { serializeIldcpResponse } from 'ilp-protocol-ildcp'
+import { serializeIldcpResponse, AssetScale } from 'ilp-protocol-ildcp'
 import {
   Packet,
   IlpPacketType,
   ConnectionAssetDetailsFrame,
+  ErrorCode,
+  Frame,
+  FrameType,
+  ConnectionCloseFrame,
+  ConnectionNewAddressFrame,
+  StreamMaxMoneyFrame,
 } from 'ilp-protocol-stream/dist/src/packet'
-import { GenericContainer, Wait, Network } from 'testcontainers'
+import { GenericContainer, Wait } from 'testcontainers'
 import Axios from 'axios'
 import PluginHttp from 'ilp-plugin-http'
 import getPort from 'get-port'
 import { Writer } from 'oer-utils'
 import nock from 'nock'
 import { v4 as uuid } from 'uuid'
-import { fetchPaymentDetails } from '../src/open-payments'
+import { fetchPaymentDetails, queryMandate } from '../src/open-payments'
+import { createMockServer } from './helpers/server'
 import { SequenceController } from '../src/controllers/sequence'
 import { StreamRequestBuilder } from '../src/controllers'
 import createLogger from 'ilp-logger'
@@ -263,244 +290,118 @@ describe('open payments', () => {
     scope.done()
   })
 
-  it('validates invoice amounts are positive and u64', async () => {
-    const invoiceId = uuid()
+  it('resolves and validates an incoming payment', async () => {
+    const destinationAddress = 'g.wallet.users.alice.~w6247823482374234'
+    const sharedSecret = randomBytes(32)
+    const incomingPaymentId = uuid()
+
     const accountUrl = 'https://wallet.example/alice'
-    const invoiceUrl = `${accountUrl}/invoices/${invoiceId}`
+    const invoiceUrl = `${accountUrl}/incoming-payments/${incomingPaymentId}`
+    const expiresAt = Date.now() + 60 * 60 * 1000 * 24 // 1 day in the future
+    const ilpStreamConnection = {
+      id: `https://wallet.example/connections/${uuid()}`,
+      ilpAddress: destinationAddress,
+      sharedSecret: sharedSecret.toString('base64'),
+      assetCode: 'USD',
+      assetScale: 4,
+    }
 
-    nock('https://wallet.example')
-      .get(`/alice/invoices/${invoiceId}`)
+    const scope = nock('https://wallet.example')
+      .get(`/alice/incoming-payments/${incomingPaymentId}`)
       .matchHeader('Accept', 'application/ilp-stream+json')
       .reply(200, {
         id: invoiceUrl,
-        account: accountUrl,
-        amount: '100000000000000000000000000000000000000000000000000000000',
-        received: -20,
-        assetCode: 'USD',
-        assetScale: 5,
-        expiresAt: new Date().toISOString(),
-        description: 'Something special',
-        ilpAddress: 'private.foo',
-        sharedSecret: Buffer.alloc(32),
+        accountId: accountUrl,
+        incomingAmount: { value: '45601', assetCode: 'USD', assetScale: 4 },
+        receivedAmount: { value: '100', assetCode: 'USD', assetScale: 4 },
+        expiresAt: new Date(expiresAt).toISOString(),
+        description: 'Coffee',
+        ilpStreamConnection,
       })
-
-    await expect(fetchPaymentDetails({ invoiceUrl })).resolves.toBe(PaymentError.QueryFailed)
-  })
-
-  it('fails if an invoice query times out', async () => {
-    const scope = nock('https://money.example').get(/.*/).delay(6000).reply(500)
-    await expect(fetchPaymentDetails({ invoiceUrl: 'https://money.example' })).resolves.toBe(
-      PaymentError.QueryFailed
-    )
-    scope.done()
-    nock.abortPendingRequests()
-  })
-
-  it('fails if an invoice query response is invalid', async () => {
-    const scope1 = nock('https://example.com/foo').get(/.*/).reply(200, 'not an invoice')
-    await expect(fetchPaymentDetails({ invoiceUrl: 'https://example.com/foo' })).resolves.toBe(
-      PaymentError.QueryFailed
-    )
-    scope1.done()
-
-    const invoiceUrl = 'http://open.mywallet.com/invoices/123'
-
-    const scope2 = nock('http://open.mywallet.com').get(`/invoices/123`).reply(404) // Query fails
-    await expect(fetchPaymentDetails({ invoiceUrl })).resolves.toBe(PaymentError.QueryFailed)
-    scope2.done()
-
-    const scope3 = nock('http://open.mywallet.com')
-      .get(`/invoices/123`)
+      // Without an incoming amount, only the STREAM credentials are resolved
+      .get(`/alice/incoming-payments/${incomingPaymentId}`)
       .reply(200, {
-        // Invalid invoice: no details included
-        sharedSecret: randomBytes(32).toString('base64'),
-        ilpAddress: 'private.larry.receiver',
+        id: invoiceUrl,
+        accountId: accountUrl,
+        receivedAmount: { value: '0', assetCode: 'USD', assetScale: 4 },
+        ilpStreamConnection,
       })
-    await expect(fetchPaymentDetails({ invoiceUrl })).resolves.toBe(PaymentError.QueryFailed)
-    scope3.done()
-  })
-
-  it('fails if given a payment pointer as an invoice url', async () => {
-    await expect(fetchPaymentDetails({ invoiceUrl: '$foo.money' })).resolves.toBe(
-      PaymentError.QueryFailed
-    )
-  })
-
-  it('fails account query if the payment pointer is invalid', async () => {
-    await expect(fetchPaymentDetails({ paymentPointer: 'ht$tps://example.com' })).resolves.toBe(
-      PaymentError.InvalidPaymentPointer
-    )
-  })
-
-  it('resolves credentials from an Open Payments account', async () => {
-    const scope = nock('https://open.mywallet.com')
-      .get('/accounts/alice')
-      .matchHeader('Accept', (v) => v.includes('application/ilp-stream+json'))
+      // Amounts must be denominated in the asset of the connection
+      .get(`/alice/incoming-payments/${incomingPaymentId}`)
       .reply(200, {
-        id: 'https://open.mywallet.com/accounts/alice',
-        accountServicer: 'https://open.mywallet.com/',
-        sharedSecret: sharedSecretBase64,
-        ilpAddress: destinationAddress,
-        assetCode: 'USD',
-        assetScale: 6,
+        id: invoiceUrl,
+        accountId: accountUrl,
+        incomingAmount: { value: '45601', assetCode: 'EUR', assetScale: 4 },
+        receivedAmount: { value: '0', assetCode: 'USD', assetScale: 4 },
+        expiresAt: new Date(expiresAt).toISOString(),
+        ilpStreamConnection,
       })
 
-    const credentials = await fetchPaymentDetails({
-      paymentPointer: '$open.mywallet.com/accounts/alice',
-    })
-    expect(credentials).toMatchObject({
+    await expect(fetchPaymentDetails({ invoiceUrl })).resolves.toMatchObject({
       sharedSecret,
       destinationAddress,
       destinationAsset: {
         assetCode: 'USD',
-        assetScale: 6,
+        assetScale: 4,
+      },
+      invoice: {
+        amountDelivered: Int.from(100),
+        amountToDeliver: Int.from(45601),
+        invoiceUrl,
+        accountUrl,
+        expiresAt,
+        description: 'Coffee',
       },
     })
-    scope.done()
-  })
-
-  it('resolves credentials from SPSP as fallback', async () => {
-    // Open Payments response is invalid
-    const scope1 = nock('https://alice.mywallet.com')
-      .get('/.well-known/open-payments')
-      .matchHeader('Accept', (v) => v.includes('application/ilp-stream+json'))
-      .reply(200, {
-        errorMessage: 'CRITICAL ERROR',
-      })
-
-    // SPSP response is valid, but is returned after Open Payments response
-    const scope2 = nock('https://alice.mywallet.com')
-      .get('/.well-known/pay')
-      .matchHeader('Accept', (v) => v.includes('application/spsp4+json'))
-      .delay(1000)
-      .reply(200, {
-        destination_account: destinationAddress,
-        shared_secret: sharedSecretBase64,
-        receiptsEnabled: false,
-      })
-
-    const credentials = await fetchPaymentDetails({ paymentPointer: '$alice.mywallet.com' })
-    expect(credentials).toMatchObject({
-      sharedSecret,
-      destinationAddress,
-    })
-    scope1.done()
-    scope2.done()
-  })
-
-  it('fails if both account queries fail', async () => {
-    const scope = nock('https://open.mywallet.com').get(/.*/).twice().reply(500)
-    await expect(fetchPaymentDetails({ paymentPointer: '$open.mywallet.com' })).resolves.toBe(
-      PaymentError.QueryFailed
-    )
-    scope.done()
-  })
 
-  it('fails if both account queries timeout', async () => {
-    const scope = nock('https://open.mywallet.com').get(/.*/).twice().delay(7000).reply(500)
-    await expect(fetchPaymentDetails({ paymentPointer: '$open.mywallet.com' })).resolves.toBe(
-      PaymentError.QueryFailed
-    )
-    scope.done()
-    nock.abortPendingRequests()
-  })
+    const credentials = await fetchPaymentDetails({ invoiceUrl })
+    expect(credentials).toMatchObject({ sharedSecret, destinationAddress })
+    expect(credentials).not.toHaveProperty('invoice')
 
-  it('fails if both account queries return invalid responses', async () => {
-    const scope = nock('https://example.com/foo').get(/.*/).reply(200, 'this is a string')
-    await expect(fetchPaymentDetails({ paymentPointer: '$example.com/foo' })).resolves.toBe(
-      PaymentError.QueryFailed
-    )
+    await expect(fetchPaymentDetails({ invoiceUrl })).resolves.toBe(PaymentError.QueryFailed)
     scope.done()
-
-    // Invalid Open Payments response, doesn't support credentials/ilp+stream accept header
-    const scope1 = nock('https://alice.mywallet.com').get('/.well-known/open-payments').reply(200, {
-      id: 'https://alice.mywallet.com/',
-      accountServicer: 'https://mywallet.com/',
-      assetCode: 'RMB',
-      assetScale: 10,
-    })
-
-    // Invalid shared secret in SPSP response
-    const scope2 = nock('https://alice.mywallet.com').get('/.well-known/pay').reply(200, {
-      destination_account: 'g.foo',
-      shared_secret: 'Zm9v',
-    })
-
-    await expect(fetchPaymentDetails({ paymentPointer: '$alice.mywallet.com' })).resolves.toBe(
-      PaymentError.QueryFailed
-    )
-    scope1.done()
-    scope2.done()
-  })
-
-  it('follows spsp redirect', async () => {
-    const scope1 = nock('https://wallet1.example/').get('/.well-known/pay').reply(
-      301,
-      {},
-      {
-        Location: 'https://wallet2.example/.well-known/pay',
-      }
-    )
-
-    const scope2 = nock('https://wallet2.example/')
-      .get('/.well-known/pay')
-      .matchHeader('Accept', (v) => v.includes('application/spsp4+json'))
-      .reply(200, { destination_account: destinationAddress, shared_secret: sharedSecretBase64 })
-
-    const credentials = await fetchPaymentDetails({ paymentPointer: 'https://wallet1.example' })
-    expect(credentials).toMatchObject({
-      sharedSecret,
-      destinationAddress,
-    })
-    scope1.done()
-    scope2.done()
   })
-})
-
-// TODO Where to have these?
-it.todo('fails if the invoice was already paid')
-it.todo('fails if the invoice expires before the payment can complete')
 
-describe('quoting flow', () => {
-  it('fails if given no payment pointer or STREAM credentials', async () => {
-    await expect(
-      quote({
-        plugin: new MirrorPlugin(),
-      })
-    ).rejects.toBe(PaymentError.InvalidCredentials)
-  })
+  it('resolves and validates a mandate', async () => {
+    const mandateUrl = `https://wallet.example/bob/mandates/${uuid()}`
+    const accountUrl = 'https://wallet.example/bob'
+    const expiresAt = Date.now() + 60 * 60 * 1000 // 1 hour in the future
 
-  it('fails given a semantically invalid payment pointer', async () => {
-    await expect(
-      quote({
-        plugin: new MirrorPlugin(),
-        paymentPointer: 'ht$tps://example.com',
+    const scope = nock('https://wallet.example')
+      .get(/\/bob\/mandates/)
+      .reply(200, {
+        id: mandateUrl,
+        account: accountUrl,
+        amount: '1000',
+        balance: '250',
+        assetCode: 'USD',
+        assetScale: 2,
+        expiresAt: new Date(expiresAt).toISOString(),
       })
-    ).rejects.toBe(PaymentError.InvalidPaymentPointer)
-  })
-
-  it('fails if payment pointer cannot resolve', async () => {
-    await expect(
-      quote({
-        plugin: new MirrorPlugin(),
-        paymentPointer: 'https://example.com/foo/bar',
+      .get(/\/bob\/mandates/)
+      .reply(200, {
+        id: mandateUrl,
+        account: accountUrl,
+        amount: '1000',
+        balance: '-1', // Invalid balance
+        assetCode: 'USD',
+        assetScale: 2,
       })
-    ).rejects.toBe(PaymentError.QueryFailed)
-  })
 
-  it('fails if SPSP response is invalid', async () => {
-    const scope = nock('http://example.com').get('/foo').reply(200, { meh: 'why?' })
-
-    await expect(
-      quote({
-        plugin: new MirrorPlugin(),
-        paymentPointer: `http://example.com/foo`,
-      })
-    ).rejects.toBe(PaymentError.QueryFailed)
+    await expect(queryMandate(mandateUrl)).resolves.toEqual({
+      mandateUrl,
+      accountUrl,
+      amount: Int.from(1000),
+      balance: Int.from(250),
+      assetCode: 'USD',
+      assetScale: 2,
+      expiresAt,
+    })
+    await expect(queryMandate(mandateUrl)).resolves.toBe(PaymentError.QueryFailed)
     scope.done()
   })
 
-  it('resolves SPSP query from payment pointer', async () => {
+  it('enforces the spend limits of a mandate', async () => {
     const [senderPlugin1, senderPlugin2] = MirrorPlugin.createPair()
     const [receiverPlugin1, receiverPlugin2] = MirrorPlugin.createPair()
 
@@ -511,14 +412,14 @@ describe('quoting flow', () => {
       accounts: {
         sender: {
           relation: 'child',
-          assetCode: 'ABC',
-          assetScale: 0,
+          assetCode: 'USD',
+          assetScale: 2,
           plugin: senderPlugin2,
         },
         receiver: {
           relation: 'child',
-          assetCode: 'ABC',
-          assetScale: 0,
+          assetCode: 'USD',
+          assetScale: 2,
           plugin: receiverPlugin1,
         },
       },
@@ -528,338 +429,276 @@ describe('quoting flow', () => {
     const streamServer = await createServer({
       plugin: receiverPlugin2,
     })
+    const { destinationAccount, sharedSecret } = streamServer.generateAddressAndSecret()
+
+    const mandateUrl = 'https://wallet.example/sender/mandates/1'
+    const mandate = {
+      id: mandateUrl,
+      account: 'https://wallet.example/sender',
+      amount: '1000',
+      balance: '250',
+      assetCode: 'USD',
+      assetScale: 2,
+    }
+    const scope = nock('https://wallet.example')
+      .get('/sender/mandates/1')
+      .reply(200, { ...mandate, expiresAt: new Date(Date.now() - 1000).toISOString() })
+      .get('/sender/mandates/1')
+      .reply(200, { ...mandate, assetCode: 'EUR' })
+      .get('/sender/mandates/1')
+      .times(2)
+      .reply(200, mandate)
+
+    const options = {
+      plugin: senderPlugin1,
+      destinationAddress: destinationAccount,
+      sharedSecret,
+      mandateUrl,
+      slippage: 1,
+    }
 
-    const connectionHandler = jest.fn()
-    streamServer.on('connection', connectionHandler)
-
-    const scope = nock('https://example.com')
-      .get('/.well-known/pay')
-      .matchHeader('Accept', (v) => v.includes('application/spsp4+json'))
-      .reply(() => {
-        const credentials = streamServer.generateAddressAndSecret()
+    // Mandate expired
+    await expect(quote({ ...options, amountToSend: 1 })).rejects.toBe(PaymentError.InvalidMandate)
 
-        return [
-          200,
-          {
-            destination_account: credentials.destinationAccount,
-            shared_secret: credentials.sharedSecret.toString('base64'),
-          },
-          { 'Content-Type': 'application/spsp4+json' },
-        ]
-    })
+    // Mandate is denominated in a different asset than the source account
+    await expect(quote({ ...options, amountToSend: 1 })).rejects.toBe(PaymentError.InvalidMandate)
 
-    const details = await quote({
-      paymentPointer: 'https://example.com',
-      plugin: senderPlugin1,
-      amountToSend: new BigNumber(1000),
-    })
+    // Payment would send more than the remaining balance
+    await expect(quote({ ...options, amountToSend: 2.51 })).rejects.toBe(
+      PaymentError.InsufficientMandateBalance
+    )
 
-    // Connection should be able to be established after resolving payment pointer
-    expect(connectionHandler.mock.calls.length).toBe(1)
+    const { mandate: quotedMandate, cancel } = await quote({ ...options, amountToSend: 2.5 })
+    expect(quotedMandate).toEqual({
+      mandateUrl,
+      accountUrl: 'https://wallet.example/sender',
+      amount: new BigNumber(10),
+      balance: new BigNumber(2.5),
+      assetCode: 'USD',
+      assetScale: 2,
+    })
+    await cancel()
     scope.done()
 
-    await details.cancel()
-    expect(!senderPlugin1.isConnected())
-
     await app.shutdown()
     await streamServer.close()
   })
 
-  it('fails if the slippage is invalid', async () => {
-    await expect(
-      quote({
-        plugin: new MirrorPlugin(),
-        sharedSecret: Buffer.alloc(32),
-        destinationAddress: 'g.recipient',
-        slippage: NaN,
-      })
-    ).rejects.toBe(PaymentError.InvalidSlippage)
-
-    await expect(
-      quote({
-        plugin: new MirrorPlugin(),
-        sharedSecret: Buffer.alloc(32),
-        destinationAddress: 'g.recipient',
-        slippage: Infinity,
-      })
-    ).rejects.toBe(PaymentError.InvalidSlippage)
-
-    await expect(
-      quote({
-        plugin: new MirrorPlugin(),
-        sharedSecret: Buffer.alloc(32),
-        destinationAddress: 'g.recipient',
-        slippage: 1.2,
-      })
-    ).rejects.toBe(PaymentError.InvalidSlippage)
-
-    await expect(
-      quote({
-        plugin: new MirrorPlugin(),
-        sharedSecret: Buffer.alloc(32),
-        destinationAddress: 'g.recipient',
-        slippage: -0.0001,
-      })
-    ).rejects.toBe(PaymentError.InvalidSlippage)
-  })
+  it('fetches the mandate again before paying', async () => {
+    const [senderPlugin1, senderPlugin2] = MirrorPlugin.createPair()
+    const [receiverPlugin1, receiverPlugin2] = MirrorPlugin.createPair()
 
-  it('fails if plugin cannot connect', async () => {
-    const plugin: Plugin = {
-      async connect() {
-        throw new Error('Failed to connect')
-      },
-      async disconnect() {},
-      isConnected() {
-        return false
-      },
-      async sendData() {
-        return Buffer.alloc(0)
+    const app = createApp({
+      ilpAddress: 'private.larry',
+      backend: 'one-to-one',
+      spread: 0,
+      accounts: {
+        sender: {
+          relation: 'child',
+          assetCode: 'USD',
+          assetScale: 2,
+          plugin: senderPlugin2,
+        },
+        receiver: {
+          relation: 'child',
+          assetCode: 'USD',
+          assetScale: 2,
+          plugin: receiverPlugin1,
+        },
       },
-      registerDataHandler() {},
-      deregisterDataHandler() {},
-    }
+    })
+    await app.listen()
 
-    await expect(
-      quote({
-        plugin,
-        destinationAddress: 'g.me',
-        sharedSecret: Buffer.alloc(32),
+    const streamServer = await createServer({
+      plugin: receiverPlugin2,
+    })
+    streamServer.on('connection', (connection: Connection) => {
+      connection.on('stream', (stream: DataAndMoneyStream) => {
+        stream.setReceiveMax(Long.MAX_UNSIGNED_VALUE)
       })
-    ).rejects.toBe(PaymentError.Disconnected)
-  })
-
-  it('fails if plugin cannot handle IL-DCP requests', async () => {
-    const plugin = new MirrorPlugin()
+    })
+    const { destinationAccount, sharedSecret } = streamServer.generateAddressAndSecret()
+
+    const mandateUrl = 'https://wallet.example/sender/mandates/2'
+    const mandate = (balance: string) => ({
+      id: mandateUrl,
+      account: 'https://wallet.example/sender',
+      amount: '1000',
+      balance,
+      assetCode: 'USD',
+      assetScale: 2,
+    })
+    const scope = nock('https://wallet.example')
+      .get('/sender/mandates/2')
+      .reply(200, mandate('250'))
+      .get('/sender/mandates/2')
+      .reply(200, mandate('100'))
+      .get('/sender/mandates/2')
+      .times(2)
+      .reply(200, mandate('250'))
+
+    const options = {
+      plugin: senderPlugin1,
+      destinationAddress: destinationAccount,
+      sharedSecret,
+      mandateUrl,
+      amountToSend: 2.5,
+      slippage: 1,
+    }
 
-    await expect(
-      quote({
-        plugin,
-        destinationAddress: 'private.foo',
-        sharedSecret: Buffer.alloc(32),
-      })
-    ).rejects.toBe(PaymentError.UnknownSourceAsset)
-    expect(!plugin.isConnected())
-  })
+    // Balance was spent after the quote, so no money is sent
+    const { pay: pay1 } = await quote(options)
+    const receipt1 = await pay1()
+    expect(receipt1.error).toBe(PaymentError.InsufficientMandateBalance)
+    expect(receipt1.amountSent).toEqual(new BigNumber(0))
 
-  it('fails if source account details are invalid', async () => {
-    const plugin: Plugin = {
-      async connect() {},
-      async disconnect() {},
-      isConnected() {
-        return true
-      },
-      async sendData() {
-        // Handle IL-DCP requests
-        // Return invalid ILP address
-        return serializeIldcpResponse({
-          clientAddress: 'private',
-          assetCode: 'USD',
-          assetScale: 2,
-        })
-      },
-      registerDataHandler() {},
-      deregisterDataHandler() {},
-    }
+    const { pay: pay2 } = await quote(options)
+    const receipt2 = await pay2()
+    expect(receipt2.error).toBeUndefined()
+    expect(receipt2.amountSent).toEqual(new BigNumber(2.5))
+    scope.done()
 
-    await expect(
-      quote({
-        plugin,
-        sharedSecret: Buffer.alloc(32),
-        destinationAddress: 'private.someone',
-      })
-    ).rejects.toBe(PaymentError.UnknownSourceAsset)
+    await app.shutdown()
+    await streamServer.close()
   })
 
-  it('fails on incompatible address schemes', async () => {
-    const [senderPlugin, receiverPlugin] = MirrorPlugin.createPair()
+  it('refreshes the invoice after the payment', async () => {
+    const [senderPlugin1, senderPlugin2] = MirrorPlugin.createPair()
+    const [receiverPlugin1, receiverPlugin2] = MirrorPlugin.createPair()
 
     const app = createApp({
-      ilpAddress: 'g.larry',
+      ilpAddress: 'private.larry',
       backend: 'one-to-one',
       spread: 0,
       accounts: {
-        default: {
+        sender: {
           relation: 'child',
-          assetCode: 'ABC',
-          assetScale: 0,
-          plugin: receiverPlugin,
+          assetCode: 'USD',
+          assetScale: 2,
+          plugin: senderPlugin2,
+        },
+        receiver: {
+          relation: 'child',
+          assetCode: 'USD',
+          assetScale: 2,
+          plugin: receiverPlugin1,
         },
       },
     })
     await app.listen()
 
-    await expect(
-      quote({
-        plugin: senderPlugin,
-        amountToSend: 10,
-        destinationAddress: 'test.unknown',
-        sharedSecret: Buffer.alloc(32),
+    const streamServer = await createServer({
+      plugin: receiverPlugin2,
+    })
+    streamServer.on('connection', (connection: Connection) => {
+      connection.on('stream', (stream: DataAndMoneyStream) => {
+        stream.setReceiveMax(Long.MAX_UNSIGNED_VALUE)
       })
-    ).rejects.toBe(PaymentError.IncompatibleInterledgerNetworks)
-    expect(!senderPlugin.isConnected())
+    })
+
+    const incomingPaymentId = uuid()
+    const { destinationAccount, sharedSecret } = streamServer.generateAddressAndSecret({
+      connectionTag: incomingPaymentId,
+    })
+
+    const accountUrl = 'https://wallet.example/alice'
+    const invoiceUrl = `${accountUrl}/incoming-payments/${incomingPaymentId}`
+    const incomingPayment = (received: string) => ({
+      id: invoiceUrl,
+      accountId: accountUrl,
+      incomingAmount: { value: '500', assetCode: 'USD', assetScale: 2 },
+      receivedAmount: { value: received, assetCode: 'USD', assetScale: 2 },
+      expiresAt: new Date(Date.now() + 60_000).toISOString(),
+      description: 'Lunch',
+      ilpStreamConnection: {
+        ilpAddress: destinationAccount,
+        sharedSecret: sharedSecret.toString('base64'),
+        assetCode: 'USD',
+        assetScale: 2,
+      },
+    })
+
+    const scope = nock('https://wallet.example')
+      .get(`/alice/incoming-payments/${incomingPaymentId}`)
+      .reply(200, incomingPayment('200'))
+      .get(`/alice/incoming-payments/${incomingPaymentId}`)
+      .reply(200, incomingPayment('500'))
+
+    const { pay, invoice } = await quote({
+      plugin: senderPlugin1,
+      invoiceUrl,
+      slippage: 0.01,
+    })
+    expect(invoice!.amountDelivered).toEqual(new BigNumber(2))
+
+    const receipt = await pay()
+    expect(receipt.error).toBeUndefined()
+    expect(receipt.amountDelivered).toEqual(new BigNumber(3))
+    expect(receipt.invoice).toMatchObject({
+      invoiceUrl,
+      accountUrl,
+      description: 'Lunch',
+      amountDelivered: new BigNumber(5),
+      amountToDeliver: new BigNumber(5),
+      assetCode: 'USD',
+      assetScale: 2,
+    })
+    expect(receipt.invoiceReconciled).toBe(true)
+    scope.done()
 
     await app.shutdown()
+    await streamServer.close()
   })
 
-  it('fails if amount to send is not a positive integer', async () => {
+  it('fails if the invoice expired', async () => {
     const [senderPlugin, connectorPlugin] = MirrorPlugin.createPair()
 
     const app = createApp({
-      ilpAddress: 'private.larry',
+      ilpAddress: 'g.larry',
       backend: 'one-to-one',
-      spread: 0,
       accounts: {
         sender: {
           relation: 'child',
-          assetCode: 'ABC',
-          assetScale: 4,
+          assetCode: 'EUR',
+          assetScale: 3,
           plugin: connectorPlugin,
         },
       },
     })
     await app.listen()
 
-    // Fails with negative source amount
-    await expect(
-      quote({
-        plugin: senderPlugin,
-        amountToSend: -3.14,
-        destinationAddress: 'private.foo',
-        sharedSecret: Buffer.alloc(32),
-      })
-    ).rejects.toBe(PaymentError.InvalidSourceAmount)
-    expect(!senderPlugin.isConnected())
+    const invoiceId = uuid()
+    const accountUrl = 'https://wallet.example/alice'
+    const invoiceUrl = `${accountUrl}/invoices/${invoiceId}`
 
-    // Fails with 0 source amount
-    await expect(
-      quote({
-        plugin: senderPlugin,
-        amountToSend: 0,
-        destinationAddress: 'private.foo',
-        sharedSecret: Buffer.alloc(32),
-      })
-    ).rejects.toBe(PaymentError.InvalidSourceAmount)
-    expect(!senderPlugin.isConnected())
-
-    // Fails with `NaN` source amount
-    await expect(
-      quote({
-        plugin: senderPlugin,
-        amountToSend: NaN,
-        destinationAddress: 'private.foo',
-        sharedSecret: Buffer.alloc(32),
-      })
-    ).rejects.toBe(PaymentError.InvalidSourceAmount)
-    expect(!senderPlugin.isConnected())
-
-    // Fails with `Infinity` source amount
-    await expect(
-      quote({
-        plugin: senderPlugin,
-        amountToSend: Infinity,
-        destinationAddress: 'private.foo',
-        sharedSecret: Buffer.alloc(32),
-      })
-    ).rejects.toBe(PaymentError.InvalidSourceAmount)
-    expect(!senderPlugin.isConnected())
-
-    await app.shutdown()
-  })
-
-  it('fails if amount to send is more precise than source account', async () => {
-    const [senderPlugin, connectorPlugin] = MirrorPlugin.createPair()
-
-    const app = createApp({
-      ilpAddress: 'private.larry',
-      backend: 'one-to-one',
-      spread: 0,
-      accounts: {
-        sender: {
-          relation: 'child',
-          assetCode: 'ABC',
-          assetScale: 3, // Asset scale only allows 3 units of precision
-          plugin: connectorPlugin,
-        },
-      },
-    })
-    await app.listen()
-
-    await expect(
-      quote({
-        plugin: senderPlugin,
-        amountToSend: 100.0001,
-        destinationAddress: 'private.receiver',
-        sharedSecret: randomBytes(32),
-      })
-    ).rejects.toBe(PaymentError.InvalidSourceAmount)
-    expect(!senderPlugin.isConnected())
-
-    await app.shutdown()
-  })
-
-  it('fails if amount to deliver is not a positive integer', async () => {
-    const [senderPlugin, connectorPlugin] = MirrorPlugin.createPair()
-
-    const app = createApp({
-      ilpAddress: 'private.larry',
-      backend: 'one-to-one',
-      spread: 0,
-      accounts: {
-        sender: {
-          relation: 'child',
-          assetCode: 'ABC',
-          assetScale: 4,
-          plugin: connectorPlugin,
-        },
-      },
-    })
-    await app.listen()
-
-    // Fails with 0 delivery amount
-    await expect(
-      quote({
-        plugin: senderPlugin,
-        amountToDeliver: Int.ZERO,
-        destinationAddress: 'private.foo',
-        sharedSecret: Buffer.alloc(32),
+    nock('https://wallet.example')
+      .get(`/alice/invoices/${invoiceId}`)
+      .matchHeader('Accept', 'application/ilp-stream+json')
+      .reply(200, {
+        id: invoiceUrl,
+        account: accountUrl,
+        amount: '200',
+        received: '0',
+        assetCode: 'USD',
+        assetScale: 2,
+        expiresAt: new Date(Date.now() - 1000).toISOString(),
+        description: 'Something really amazing',
+        ilpAddress: 'g.larry.server3',
+        sharedSecret: randomBytes(32).toString('base64'),
       })
-    ).rejects.toBe(PaymentError.InvalidDestinationAmount)
-    expect(!senderPlugin.isConnected())
-
-    await app.shutdown()
-  })
-
-  it('fails if no amount to send or deliver was provided', async () => {
-    const [senderPlugin, connectorPlugin] = MirrorPlugin.createPair()
-
-    const app = createApp({
-      ilpAddress: 'private.larry',
-      backend: 'one-to-one',
-      spread: 0,
-      accounts: {
-        sender: {
-          relation: 'child',
-          assetCode: 'ABC',
-          assetScale: 3,
-          plugin: connectorPlugin,
-        },
-      },
-    })
-    await app.listen()
 
     await expect(
       quote({
+        invoiceUrl,
         plugin: senderPlugin,
-        destinationAddress: 'private.receiver',
-        sharedSecret: randomBytes(32),
       })
-    ).rejects.toBe(PaymentError.UnknownPaymentTarget)
+    ).rejects.toBe(PaymentError.InvoiceExpired)
     expect(!senderPlugin.isConnected())
 
     await app.shutdown()
   })
 
-  it('fails on asset detail conflicts', async () => {
+  it('stops sending before the invoice expires', async () => {
     const [senderPlugin1, senderPlugin2] = MirrorPlugin.createPair()
     const [receiverPlugin1, receiverPlugin2] = MirrorPlugin.createPair()
 
@@ -870,14 +709,15 @@ describe('quoting flow', () => {
       accounts: {
         sender: {
           relation: 'child',
-          assetCode: 'ABC',
-          assetScale: 4,
+          assetCode: 'USD',
+          assetScale: 2,
           plugin: senderPlugin2,
+          maxPacketAmount: '100',
         },
         receiver: {
           relation: 'child',
-          assetCode: 'ABC',
-          assetScale: 4,
+          assetCode: 'USD',
+          assetScale: 2,
           plugin: receiverPlugin1,
         },
       },
@@ -887,99 +727,405 @@ describe('quoting flow', () => {
     const streamServer = await createServer({
       plugin: receiverPlugin2,
     })
+    streamServer.on('connection', (connection: Connection) => {
+      connection.on('stream', (stream: DataAndMoneyStream) => {
+        stream.setReceiveMax(Long.MAX_UNSIGNED_VALUE)
+      })
+    })
 
-    const sharedSecret = randomBytes(32)
-    const encryptionKey = await generatePskEncryptionKey(sharedSecret)
-
-    // Create simple STREAM receiver that acks test packets,
-    // but replies with conflicting asset details
-    receiverPlugin2.registerDataHandler(async (data) => {
-      const prepare = deserializeIlpPrepare(data)
+    const { destinationAccount, sharedSecret } = streamServer.generateAddressAndSecret()
+    const invoiceUrl = `https://wallet.example/alice/invoices/${uuid()}`
+    const expiresAt = Date.now() + 3000
 
-      const streamRequest = await Packet.decryptAndDeserialize(encryptionKey, prepare.data)
+    nock('https://wallet.example')
+      .get(/\/alice\/invoices/)
+      .reply(200, {
+        id: invoiceUrl,
+        account: 'https://wallet.example/alice',
+        amount: '5000',
+        received: '0',
+        assetCode: 'USD',
+        assetScale: 2,
+        expiresAt: new Date(expiresAt).toISOString(),
+        description: 'Lunch',
+        ilpAddress: destinationAccount,
+        sharedSecret: sharedSecret.toString('base64'),
+      })
 
-      const streamReply = new Packet(streamRequest.sequence, IlpPacketType.Reject, prepare.amount, [
-        new ConnectionAssetDetailsFrame('ABC', 2),
-        new ConnectionAssetDetailsFrame('XYZ', 2),
-        new ConnectionAssetDetailsFrame('XYZ', 3),
-      ])
+    // Track the latest expiration of any outgoing STREAM Prepare
+    let maxPacketExpiry = 0
+    const sendData = senderPlugin1.sendData.bind(senderPlugin1)
+    senderPlugin1.sendData = async (data: Buffer) => {
+      const { destination, expiresAt } = deserializeIlpPrepare(data)
+      if (destination === destinationAccount) {
+        maxPacketExpiry = Math.max(maxPacketExpiry, expiresAt.getTime())
+      }
+      return sendData(data)
+    }
 
-      return serializeIlpReject({
-        code: IlpError.F99_APPLICATION_ERROR,
-        message: '',
-        triggeredBy: '',
-        data: await streamReply.serializeAndEncrypt(encryptionKey),
-      })
+    const { pay, pause, resume, events } = await quote({
+      plugin: senderPlugin1,
+      invoiceUrl,
+      slippage: 0.01,
+      reconcileInvoice: false,
     })
 
-    await expect(
-      quote({
-        plugin: senderPlugin1,
-        amountToDeliver: Int.from(100_0000),
-        destinationAddress: 'private.larry.receiver',
-        sharedSecret,
-      })
-    ).rejects.toBe(PaymentError.DestinationAssetConflict)
+    // Pause after the first Fulfill and wait until the invoice expires
+    events.once('fulfill', pause)
+    const pausedReceipt = await pay()
+    expect(pausedReceipt.error).toBe(PaymentError.Cancelled)
+    expect(pausedReceipt.amountDelivered.isGreaterThan(0)).toBe(true)
+    await sleep(expiresAt - Date.now())
 
-    expect(!senderPlugin1.isConnected())
+    const receipt = await resume()
+    expect(receipt.error).toBe(PaymentError.InvoiceExpired)
+    expect(receipt.amountDelivered).toEqual(pausedReceipt.amountDelivered)
+    expect(receipt).not.toHaveProperty('invoice')
+    expect(maxPacketExpiry).toBeGreaterThan(0)
+    expect(maxPacketExpiry).toBeLessThanOrEqual(expiresAt)
 
     await app.shutdown()
     await streamServer.close()
   })
 
-  it('fails if no test packets are delivered', async () => {
-    const [senderPlugin1, senderPlugin2] = MirrorPlugin.createPair()
-    const [receiverPlugin1, receiverPlugin2] = MirrorPlugin.createPair()
-
-    const app = createApp({
-      ilpAddress: 'private.larry',
-      backend: 'one-to-one',
-      spread: 0,
-      accounts: {
-        sender: {
-          relation: 'child',
-          assetCode: 'ABC',
-          assetScale: 0,
-          plugin: senderPlugin2,
-        },
-        receiver: {
-          relation: 'child',
-          assetCode: 'ABC',
-          assetScale: 0,
-          plugin: receiverPlugin1,
-        },
-      },
-    })
-    await app.listen()
-
-    receiverPlugin2.registerDataHandler(async () =>
-      serializeIlpReject({
-        code: IlpError.T01_PEER_UNREACHABLE,
-        message: '',
-        triggeredBy: '',
-        data: Buffer.alloc(0),
-      })
-    )
+  it('validates invoice amounts are positive and u64', async () => {
+    const invoiceId = uuid()
+    const accountUrl = 'https://wallet.example/alice'
+    const invoiceUrl = `${accountUrl}/invoices/${invoiceId}`
 
-    await expect(
-      quote({
-        plugin: senderPlugin1,
-        amountToSend: '1000',
-        destinationAddress: 'private.larry.receiver',
+    nock('https://wallet.example')
+      .get(`/alice/invoices/${invoiceId}`)
+      .matchHeader('Accept', 'application/ilp-stream+json')
+      .reply(200, {
+        id: invoiceUrl,
+        account: accountUrl,
+        amount: '100000000000000000000000000000000000000000000000000000000',
+        received: -20,
+        assetCode: 'USD',
+        assetScale: 5,
+        expiresAt: new Date().toISOString(),
+        description: 'Something special',
+        ilpAddress: 'private.foo',
         sharedSecret: Buffer.alloc(32),
       })
-    ).rejects.toBe(PaymentError.RateProbeFailed)
-    expect(!senderPlugin1.isConnected())
-
-    await app.shutdown()
-  }, 15000)
 
-  it('fails if max packet amount is 0', async () => {
-    const [senderPlugin1, maxPacketPlugin] = MirrorPlugin.createPair()
-    const [receiverPlugin1, receiverPlugin2] = MirrorPlugin.createPair()
+    await expect(fetchPaymentDetails({ invoiceUrl })).resolves.toBe(PaymentError.QueryFailed)
+  })
 
-    const senderPlugin2 = new MirrorPlugin()
-    senderPlugin2.mirror = senderPlugin1
+  it('fails if an invoice query times out', async () => {
+    const scope = nock('https://money.example').get(/.*/).delay(6000).reply(500)
+    await expect(fetchPaymentDetails({ invoiceUrl: 'https://money.example' })).resolves.toBe(
+      PaymentError.QueryFailed
+    )
+    scope.done()
+    nock.abortPendingRequests()
+  })
+
+  it('fails if an invoice query response is invalid', async () => {
+    const scope1 = nock('https://example.com/foo').get(/.*/).reply(200, 'not an invoice')
+    await expect(fetchPaymentDetails({ invoiceUrl: 'https://example.com/foo' })).resolves.toBe(
+      PaymentError.QueryFailed
+    )
+    scope1.done()
+
+    const invoiceUrl = 'http://open.mywallet.com/invoices/123'
+
+    const scope2 = nock('http://open.mywallet.com').get(`/invoices/123`).reply(404) // Query fails
+    await expect(fetchPaymentDetails({ invoiceUrl })).resolves.toBe(PaymentError.QueryFailed)
+    scope2.done()
+
+    const scope3 = nock('http://open.mywallet.com')
+      .get(`/invoices/123`)
+      .reply(200, {
+        // Invalid invoice: no details included
+        sharedSecret: randomBytes(32).toString('base64'),
+        ilpAddress: 'private.larry.receiver',
+      })
+    await expect(fetchPaymentDetails({ invoiceUrl })).resolves.toBe(PaymentError.QueryFailed)
+    scope3.done()
+  })
+
+  it('fails if given a payment pointer as an invoice url', async () => {
+    await expect(fetchPaymentDetails({ invoiceUrl: '$foo.money' })).resolves.toBe(
+      PaymentError.QueryFailed
+    )
+  })
+
+  it('fails account query if the payment pointer is invalid', async () => {
+    await expect(fetchPaymentDetails({ paymentPointer: 'ht$tps://example.com' })).resolves.toBe(
+      PaymentError.InvalidPaymentPointer
+    )
+  })
+
+  it('resolves credentials from an Open Payments account', async () => {
+    const scope = nock('https://open.mywallet.com')
+      .get('/accounts/alice')
+      .matchHeader('Accept', (v) => v.includes('application/ilp-stream+json'))
+      .reply(200, {
+        id: 'https://open.mywallet.com/accounts/alice',
+        accountServicer: 'https://open.mywallet.com/',
+        sharedSecret: sharedSecretBase64,
+        ilpAddress: destinationAddress,
+        assetCode: 'USD',
+        assetScale: 6,
+      })
+
+    const credentials = await fetchPaymentDetails({
+      paymentPointer: '$open.mywallet.com/accounts/alice',
+    })
+    expect(credentials).toMatchObject({
+      sharedSecret,
+      destinationAddress,
+      destinationAsset: {
+        assetCode: 'USD',
+        assetScale: 6,
+      },
+    })
+    scope.done()
+  })
+
+  it('cancels the account query that loses the race', async () => {
+    const signals: { [url: string]: CancelSignal | undefined } = {}
+    const httpClient: HttpClient = (url, { signal } = {}) => {
+      signals[url] = signal
+      if (url.endsWith('/.well-known/pay')) {
+        return Promise.resolve({
+          ok: true,
+          status: 200,
+          json: async () => ({
+            destination_account: destinationAddress,
+            shared_secret: sharedSecretBase64,
+          }),
+          text: async () => '',
+        })
+      }
+
+      // Open Payments query never responds unless it's cancelled
+      return new Promise((_, reject) =>
+        signal?.addEventListener('abort', () => reject(new Error('cancelled')))
+      )
+    }
+
+    await expect(
+      fetchPaymentDetails({ paymentPointer: '$wallet.example', httpClient })
+    ).resolves.toEqual({
+      sharedSecret,
+      destinationAddress,
+    })
+    expect(signals['https://wallet.example/.well-known/open-payments']?.aborted).toBe(true)
+
+    // Default client rejects without sending the request if it was already cancelled
+    const signal: CancelSignal = { aborted: true, addEventListener: () => {} }
+    await expect(defaultHttpClient('https://wallet.example', { signal })).rejects.toBeTruthy()
+  })
+
+  it('resolves credentials and invoices with a custom HTTP client', async () => {
+    const invoiceId = uuid()
+    const invoiceUrl = `https://wallet.example/alice/invoices/${invoiceId}`
+    const expiresAt = Date.now() + 60 * 60 * 1000 // 1 hour in the future
+
+    const server = await createMockServer({
+      // Open Payments query fails, so the SPSP response is used
+      '/.well-known/open-payments': { status: 401 },
+      '/.well-known/pay': {
+        body: {
+          destination_account: destinationAddress,
+          shared_secret: sharedSecretBase64,
+        },
+      },
+      [`/alice/invoices/${invoiceId}`]: {
+        body: {
+          id: invoiceUrl,
+          account: 'https://wallet.example/alice',
+          amount: '1000',
+          received: '0',
+          assetCode: 'USD',
+          assetScale: 2,
+          expiresAt: new Date(expiresAt).toISOString(),
+          description: 'Tea',
+          ilpAddress: destinationAddress,
+          sharedSecret: sharedSecretBase64,
+        },
+      },
+    })
+
+    // Add an authentication header to each request
+    const httpClient: HttpClient = (url, options = {}) =>
+      server.httpClient(url, {
+        ...options,
+        headers: { ...options.headers, Authorization: 'Bearer token' },
+      })
+
+    await expect(
+      fetchPaymentDetails({ paymentPointer: '$wallet.example', httpClient })
+    ).resolves.toEqual({
+      sharedSecret,
+      destinationAddress,
+    })
+
+    await expect(fetchPaymentDetails({ invoiceUrl, httpClient })).resolves.toMatchObject({
+      sharedSecret,
+      destinationAddress,
+      invoice: {
+        invoiceUrl,
+        expiresAt,
+        amountToDeliver: Int.from(1000),
+      },
+    })
+
+    expect(server.requests).toHaveLength(3)
+    server.requests.forEach(({ headers }) => {
+      expect(headers.authorization).toBe('Bearer token')
+      expect(headers.accept).toContain('application/ilp-stream+json')
+    })
+
+    await server.close()
+  })
+
+  it('resolves credentials from SPSP as fallback', async () => {
+    // Open Payments response is invalid
+    const scope1 = nock('https://alice.mywallet.com')
+      .get('/.well-known/open-payments')
+      .matchHeader('Accept', (v) => v.includes('application/ilp-stream+json'))
+      .reply(200, {
+        errorMessage: 'CRITICAL ERROR',
+      })
+
+    // SPSP response is valid, but is returned after Open Payments response
+    const scope2 = nock('https://alice.mywallet.com')
+      .get('/.well-known/pay')
+      .matchHeader('Accept', (v) => v.includes('application/spsp4+json'))
+      .delay(1000)
+      .reply(200, {
+        destination_account: destinationAddress,
+        shared_secret: sharedSecretBase64,
+        receiptsEnabled: false,
+      })
+
+    const credentials = await fetchPaymentDetails({ paymentPointer: '$alice.mywallet.com' })
+    expect(credentials).toMatchObject({
+      sharedSecret,
+      destinationAddress,
+    })
+    scope1.done()
+    scope2.done()
+  })
+
+  it('fails if both account queries fail', async () => {
+    const scope = nock('https://open.mywallet.com').get(/.*/).twice().reply(500)
+    await expect(fetchPaymentDetails({ paymentPointer: '$open.mywallet.com' })).resolves.toBe(
+      PaymentError.QueryFailed
+    )
+    scope.done()
+  })
+
+  it('fails if both account queries timeout', async () => {
+    const scope = nock('https://open.mywallet.com').get(/.*/).twice().delay(7000).reply(500)
+    await expect(fetchPaymentDetails({ paymentPointer: '$open.mywallet.com' })).resolves.toBe(
+      PaymentError.QueryFailed
+    )
+    scope.done()
+    nock.abortPendingRequests()
+  })
+
+  it('fails if both account queries return invalid responses', async () => {
+    const scope = nock('https://example.com/foo').get(/.*/).reply(200, 'this is a string')
+    await expect(fetchPaymentDetails({ paymentPointer: '$example.com/foo' })).resolves.toBe(
+      PaymentError.QueryFailed
+    )
+    scope.done()
+
+    // Invalid Open Payments response, doesn't support credentials/ilp+stream accept header
+    const scope1 = nock('https://alice.mywallet.com').get('/.well-known/open-payments').reply(200, {
+      id: 'https://alice.mywallet.com/',
+      accountServicer: 'https://mywallet.com/',
+      assetCode: 'RMB',
+      assetScale: 10,
+    })
+
+    // Invalid shared secret in SPSP response
+    const scope2 = nock('https://alice.mywallet.com').get('/.well-known/pay').reply(200, {
+      destination_account: 'g.foo',
+      shared_secret: 'Zm9v',
+    })
+
+    await expect(fetchPaymentDetails({ paymentPointer: '$alice.mywallet.com' })).resolves.toBe(
+      PaymentError.QueryFailed
+    )
+    scope1.done()
+    scope2.done()
+  })
+
+  it('follows spsp redirect', async () => {
+    const scope1 = nock('https://wallet1.example/').get('/.well-known/pay').reply(
+      301,
+      {},
+      {
+        Location: 'https://wallet2.example/.well-known/pay',
+      }
+    )
+
+    const scope2 = nock('https://wallet2.example/')
+      .get('/.well-known/pay')
+      .matchHeader('Accept', (v) => v.includes('application/spsp4+json'))
+      .reply(200, { destination_account: destinationAddress, shared_secret: sharedSecretBase64 })
+
+    const credentials = await fetchPaymentDetails({ paymentPointer: 'https://wallet1.example' })
+    expect(credentials).toMatchObject({
+      sharedSecret,
+      destinationAddress,
+    })
+    scope1.done()
+    scope2.done()
+  })
+})
+
+// TODO Where to have these?
+it.todo('fails if the invoice was already paid')
+it.todo('fails if the invoice expires before the payment can complete')
+
+describe('quoting flow', () => {
+  it('fails if given no payment pointer or STREAM credentials', async () => {
+    await expect(
+      quote({
+        plugin: new MirrorPlugin(),
+      })
+    ).rejects.toBe(PaymentError.InvalidCredentials)
+  })
+
+  it('fails given a semantically invalid payment pointer', async () => {
+    await expect(
+      quote({
+        plugin: new MirrorPlugin(),
+        paymentPointer: 'ht$tps://example.com',
+      })
+    ).rejects.toBe(PaymentError.InvalidPaymentPointer)
+  })
+
+  it('fails if payment pointer cannot resolve', async () => {
+    await expect(
+      quote({
+        plugin: new MirrorPlugin(),
+        paymentPointer: 'https://example.com/foo/bar',
+      })
+    ).rejects.toBe(PaymentError.QueryFailed)
+  })
+
+  it('fails if SPSP response is invalid', async () => {
+    const scope = nock('http://example.com').get('/foo').reply(200, { meh: 'why?' })
+
+    await expect(
+      quote({
+        plugin: new MirrorPlugin(),
+        paymentPointer: `http://example.com/foo`,
+      })
+    ).rejects.toBe(PaymentError.QueryFailed)
+    scope.done()
+  })
+
+  it('resolves SPSP query from payment pointer', async () => {
+    const [senderPlugin1, senderPlugin2] = MirrorPlugin.createPair()
+    const [receiverPlugin1, receiverPlugin2] = MirrorPlugin.createPair()
 
     const app = createApp({
       ilpAddress: 'private.larry',
@@ -1006,167 +1152,2217 @@ describe('quoting flow', () => {
       plugin: receiverPlugin2,
     })
 
+    const connectionHandler = jest.fn()
+    streamServer.on('connection', connectionHandler)
+
+    const scope = nock('https://example.com')
+      .get('/.well-known/pay')
+      .matchHeader('Accept', (v) => v.includes('application/spsp4+json'))
+      .reply(() => {
+        const credentials = streamServer.generateAddressAndSecret()
+
+        return [
+          200,
+          {
+            destination_account: credentials.destinationAccount,
+            shared_secret: credentials.sharedSecret.toString('base64'),
+          },
+          { 'Content-Type': 'application/spsp4+json' },
+        ]
+      })
+
+    const details = await quote({
+      paymentPointer: 'https://example.com',
+      plugin: senderPlugin1,
+      amountToSend: new BigNumber(1000),
+    })
+
+    // Connection should be able to be established after resolving payment pointer
+    expect(connectionHandler.mock.calls.length).toBe(1)
+    scope.done()
+
+    await details.cancel()
+    expect(!senderPlugin1.isConnected())
+
+    await app.shutdown()
+    await streamServer.close()
+  })
+
+  it('fails if the slippage is invalid', async () => {
+    await expect(
+      quote({
+        plugin: new MirrorPlugin(),
+        sharedSecret: Buffer.alloc(32),
+        destinationAddress: 'g.recipient',
+        slippage: NaN,
+      })
+    ).rejects.toBe(PaymentError.InvalidSlippage)
+
+    await expect(
+      quote({
+        plugin: new MirrorPlugin(),
+        sharedSecret: Buffer.alloc(32),
+        destinationAddress: 'g.recipient',
+        slippage: Infinity,
+      })
+    ).rejects.toBe(PaymentError.InvalidSlippage)
+
+    await expect(
+      quote({
+        plugin: new MirrorPlugin(),
+        sharedSecret: Buffer.alloc(32),
+        destinationAddress: 'g.recipient',
+        slippage: 1.2,
+      })
+    ).rejects.toBe(PaymentError.InvalidSlippage)
+
+    await expect(
+      quote({
+        plugin: new MirrorPlugin(),
+        sharedSecret: Buffer.alloc(32),
+        destinationAddress: 'g.recipient',
+        slippage: -0.0001,
+      })
+    ).rejects.toBe(PaymentError.InvalidSlippage)
+  })
+
+  it('fails if the tuning options are invalid', async () => {
+    await expect(
+      quote({
+        plugin: new MirrorPlugin(),
+        sharedSecret: Buffer.alloc(32),
+        destinationAddress: 'g.recipient',
+        tuning: { maxInFlightPackets: 2.5 },
+      })
+    ).rejects.toBe(PaymentError.InvalidConfig)
+
+    await expect(
+      quote({
+        plugin: new MirrorPlugin(),
+        sharedSecret: Buffer.alloc(32),
+        destinationAddress: 'g.recipient',
+        tuning: { maxPacketsPerSecond: 0 },
+      })
+    ).rejects.toBe(PaymentError.InvalidConfig)
+
+    await expect(
+      quote({
+        plugin: new MirrorPlugin(),
+        sharedSecret: Buffer.alloc(32),
+        destinationAddress: 'g.recipient',
+        tuning: { idleTimeout: Infinity },
+      })
+    ).rejects.toBe(PaymentError.InvalidConfig)
+
+    await expect(
+      quote({
+        plugin: new MirrorPlugin(),
+        sharedSecret: Buffer.alloc(32),
+        destinationAddress: 'g.recipient',
+        maxQuoteAge: -1,
+      })
+    ).rejects.toBe(PaymentError.InvalidConfig)
+  })
+
+  it('fails if the rate probe options are invalid', async () => {
+    await expect(
+      quote({
+        plugin: new MirrorPlugin(),
+        sharedSecret: Buffer.alloc(32),
+        destinationAddress: 'g.recipient',
+        rateProbe: { amounts: [] },
+      })
+    ).rejects.toBe(PaymentError.InvalidConfig)
+
+    await expect(
+      quote({
+        plugin: new MirrorPlugin(),
+        sharedSecret: Buffer.alloc(32),
+        destinationAddress: 'g.recipient',
+        rateProbe: { amounts: [100, 0] },
+      })
+    ).rejects.toBe(PaymentError.InvalidConfig)
+
+    await expect(
+      quote({
+        plugin: new MirrorPlugin(),
+        sharedSecret: Buffer.alloc(32),
+        destinationAddress: 'g.recipient',
+        rateProbe: { timeout: 0 },
+      })
+    ).rejects.toBe(PaymentError.InvalidConfig)
+
+    await expect(
+      quote({
+        plugin: new MirrorPlugin(),
+        sharedSecret: Buffer.alloc(32),
+        destinationAddress: 'g.recipient',
+        rateProbe: { tolerance: NaN },
+      })
+    ).rejects.toBe(PaymentError.InvalidConfig)
+  })
+
+  it('fails if plugin cannot connect', async () => {
+    const plugin: Plugin = {
+      async connect() {
+        throw new Error('Failed to connect')
+      },
+      async disconnect() {},
+      isConnected() {
+        return false
+      },
+      async sendData() {
+        return Buffer.alloc(0)
+      },
+      registerDataHandler() {},
+      deregisterDataHandler() {},
+    }
+
+    await expect(
+      quote({
+        plugin,
+        destinationAddress: 'g.me',
+        sharedSecret: Buffer.alloc(32),
+      })
+    ).rejects.toBe(PaymentError.Disconnected)
+  })
+
+  it('fails if plugin cannot handle IL-DCP requests', async () => {
+    const plugin = new MirrorPlugin()
+
+    await expect(
+      quote({
+        plugin,
+        destinationAddress: 'private.foo',
+        sharedSecret: Buffer.alloc(32),
+      })
+    ).rejects.toBe(PaymentError.UnknownSourceAsset)
+    expect(!plugin.isConnected())
+  })
+
+  it('fails if source account details are invalid', async () => {
+    const plugin: Plugin = {
+      async connect() {},
+      async disconnect() {},
+      isConnected() {
+        return true
+      },
+      async sendData() {
+        // Handle IL-DCP requests
+        // Return invalid ILP address
+        return serializeIldcpResponse({
+          clientAddress: 'private',
+          assetCode: 'USD',
+          assetScale: 2,
+        })
+      },
+      registerDataHandler() {},
+      deregisterDataHandler() {},
+    }
+
+    await expect(
+      quote({
+        plugin,
+        sharedSecret: Buffer.alloc(32),
+        destinationAddress: 'private.someone',
+      })
+    ).rejects.toBe(PaymentError.UnknownSourceAsset)
+  })
+
+  it('fails on incompatible address schemes', async () => {
+    const [senderPlugin, receiverPlugin] = MirrorPlugin.createPair()
+
+    const app = createApp({
+      ilpAddress: 'g.larry',
+      backend: 'one-to-one',
+      spread: 0,
+      accounts: {
+        default: {
+          relation: 'child',
+          assetCode: 'ABC',
+          assetScale: 0,
+          plugin: receiverPlugin,
+        },
+      },
+    })
+    await app.listen()
+
+    await expect(
+      quote({
+        plugin: senderPlugin,
+        amountToSend: 10,
+        destinationAddress: 'test.unknown',
+        sharedSecret: Buffer.alloc(32),
+      })
+    ).rejects.toBe(PaymentError.IncompatibleInterledgerNetworks)
+    expect(!senderPlugin.isConnected())
+
+    await app.shutdown()
+  })
+
+  it('fails if amount to send is not a positive integer', async () => {
+    const [senderPlugin, connectorPlugin] = MirrorPlugin.createPair()
+
+    const app = createApp({
+      ilpAddress: 'private.larry',
+      backend: 'one-to-one',
+      spread: 0,
+      accounts: {
+        sender: {
+          relation: 'child',
+          assetCode: 'ABC',
+          assetScale: 4,
+          plugin: connectorPlugin,
+        },
+      },
+    })
+    await app.listen()
+
+    // Fails with negative source amount
+    await expect(
+      quote({
+        plugin: senderPlugin,
+        amountToSend: -3.14,
+        destinationAddress: 'private.foo',
+        sharedSecret: Buffer.alloc(32),
+      })
+    ).rejects.toBe(PaymentError.InvalidSourceAmount)
+    expect(!senderPlugin.isConnected())
+
+    // Fails with 0 source amount
+    await expect(
+      quote({
+        plugin: senderPlugin,
+        amountToSend: 0,
+        destinationAddress: 'private.foo',
+        sharedSecret: Buffer.alloc(32),
+      })
+    ).rejects.toBe(PaymentError.InvalidSourceAmount)
+    expect(!senderPlugin.isConnected())
+
+    // Fails with `NaN` source amount
+    await expect(
+      quote({
+        plugin: senderPlugin,
+        amountToSend: NaN,
+        destinationAddress: 'private.foo',
+        sharedSecret: Buffer.alloc(32),
+      })
+    ).rejects.toBe(PaymentError.InvalidSourceAmount)
+    expect(!senderPlugin.isConnected())
+
+    // Fails with `Infinity` source amount
+    await expect(
+      quote({
+        plugin: senderPlugin,
+        amountToSend: Infinity,
+        destinationAddress: 'private.foo',
+        sharedSecret: Buffer.alloc(32),
+      })
+    ).rejects.toBe(PaymentError.InvalidSourceAmount)
+    expect(!senderPlugin.isConnected())
+
+    await app.shutdown()
+  })
+
+  it('fails if amount to send is more precise than source account', async () => {
+    const [senderPlugin, connectorPlugin] = MirrorPlugin.createPair()
+
+    const app = createApp({
+      ilpAddress: 'private.larry',
+      backend: 'one-to-one',
+      spread: 0,
+      accounts: {
+        sender: {
+          relation: 'child',
+          assetCode: 'ABC',
+          assetScale: 3, // Asset scale only allows 3 units of precision
+          plugin: connectorPlugin,
+        },
+      },
+    })
+    await app.listen()
+
+    await expect(
+      quote({
+        plugin: senderPlugin,
+        amountToSend: 100.0001,
+        destinationAddress: 'private.receiver',
+        sharedSecret: randomBytes(32),
+      })
+    ).rejects.toBe(PaymentError.InvalidSourceAmount)
+    expect(!senderPlugin.isConnected())
+
+    await app.shutdown()
+  })
+
+  it('fails if amount to deliver is not a positive integer', async () => {
+    const [senderPlugin, connectorPlugin] = MirrorPlugin.createPair()
+
+    const app = createApp({
+      ilpAddress: 'private.larry',
+      backend: 'one-to-one',
+      spread: 0,
+      accounts: {
+        sender: {
+          relation: 'child',
+          assetCode: 'ABC',
+          assetScale: 4,
+          plugin: connectorPlugin,
+        },
+      },
+    })
+    await app.listen()
+
+    // Fails with 0 delivery amount
+    await expect(
+      quote({
+        plugin: senderPlugin,
+        amountToDeliver: 0,
+        destinationAddress: 'private.foo',
+        sharedSecret: Buffer.alloc(32),
+      })
+    ).rejects.toBe(PaymentError.InvalidDestinationAmount)
+    expect(!senderPlugin.isConnected())
+
+    // Fails with negative delivery amount
+    await expect(
+      quote({
+        plugin: senderPlugin,
+        amountToDeliver: -3.1,
+        destinationAddress: 'private.foo',
+        sharedSecret: Buffer.alloc(32),
+      })
+    ).rejects.toBe(PaymentError.InvalidDestinationAmount)
+    expect(!senderPlugin.isConnected())
+
+    // Fails with invalid delivery amount
+    await expect(
+      quote({
+        plugin: senderPlugin,
+        amountToDeliver: NaN,
+        destinationAddress: 'private.foo',
+        sharedSecret: Buffer.alloc(32),
+      })
+    ).rejects.toBe(PaymentError.InvalidDestinationAmount)
+    expect(!senderPlugin.isConnected())
+
+    await app.shutdown()
+  })
+
+  it('fails if amount to deliver is more precise than destination account', async () => {
+    const [senderPlugin1, senderPlugin2] = MirrorPlugin.createPair()
+    const [receiverPlugin1, receiverPlugin2] = MirrorPlugin.createPair()
+
+    const app = createApp({
+      ilpAddress: 'private.larry',
+      backend: 'one-to-one',
+      spread: 0,
+      accounts: {
+        sender: {
+          relation: 'child',
+          assetCode: 'ABC',
+          assetScale: 6,
+          plugin: senderPlugin2,
+        },
+        receiver: {
+          relation: 'child',
+          assetCode: 'ABC',
+          assetScale: 2, // Asset scale only allows 2 units of precision
+          plugin: receiverPlugin1,
+        },
+      },
+    })
+    await app.listen()
+
+    const streamServer = await createServer({
+      plugin: receiverPlugin2,
+    })
+    const { sharedSecret, destinationAccount } = streamServer.generateAddressAndSecret()
+
+    // Destination asset is only shared over STREAM, so precision is validated after the rate probe
+    await expect(
+      quote({
+        plugin: senderPlugin1,
+        amountToDeliver: 1.234,
+        destinationAddress: destinationAccount,
+        sharedSecret,
+        slippage: 1,
+      })
+    ).rejects.toBe(PaymentError.InvalidDestinationAmount)
+    expect(!senderPlugin1.isConnected())
+
+    await app.shutdown()
+    await streamServer.close()
+  })
+
+  it('quotes in a dry run without sending fulfillable packets', async () => {
+    const [senderPlugin1, senderPlugin2] = MirrorPlugin.createPair()
+    const [receiverPlugin1, receiverPlugin2] = MirrorPlugin.createPair()
+
+    const app = createApp({
+      ilpAddress: 'private.larry',
+      backend: 'one-to-one',
+      spread: 0,
+      accounts: {
+        sender: {
+          relation: 'child',
+          assetCode: 'ABC',
+          assetScale: 4,
+          plugin: senderPlugin2,
+        },
+        receiver: {
+          relation: 'child',
+          assetCode: 'ABC',
+          assetScale: 4,
+          plugin: receiverPlugin1,
+        },
+      },
+    })
+    await app.listen()
+
+    const destinationAddress = 'private.larry.receiver'
+    const sharedSecret = randomBytes(32)
+    const encryptionKey = await generatePskEncryptionKey(sharedSecret)
+    const fulfillmentKey = await generateFulfillmentKey(sharedSecret)
+
+    // STREAM receiver that records each request and acks it, but never fulfills
+    const requests: { isFulfillable: boolean; frames: Frame[] }[] = []
+    receiverPlugin2.registerDataHandler(async (data) => {
+      const prepare = deserializeIlpPrepare(data)
+
+      const fulfillment = await generateFulfillment(fulfillmentKey, prepare.data)
+      const isFulfillable = prepare.executionCondition.equals(await hash(fulfillment))
+
+      const streamRequest = await Packet.decryptAndDeserialize(encryptionKey, prepare.data)
+      requests.push({ isFulfillable, frames: streamRequest.frames })
+
+      const streamReply = new Packet(streamRequest.sequence, IlpPacketType.Reject, prepare.amount, [
+        new ConnectionAssetDetailsFrame('ABC', 4),
+      ])
+
+      return serializeIlpReject({
+        code: IlpError.F99_APPLICATION_ERROR,
+        message: '',
+        triggeredBy: '',
+        data: await streamReply.serializeAndEncrypt(encryptionKey),
+      })
+    })
+
+    const estimate = await quoteOnly({
+      plugin: senderPlugin1,
+      amountToSend: 12.3456,
+      destinationAddress,
+      sharedSecret,
+      slippage: 0.01,
+    })
+    expect(estimate.maxSourceAmount).toEqual(new BigNumber(12.3456))
+    expect(estimate.minDeliveryAmount.isGreaterThan(12)).toBe(true)
+    expect(estimate.estimatedExchangeRate[0]).toEqual(new BigNumber(1))
+    expect(estimate.destinationAccount).toMatchObject({ assetCode: 'ABC', assetScale: 4 })
+    expect(estimate).not.toHaveProperty('pay')
+
+    // Only unfulfillable packets were sent, and the last closed the connection
+    expect(requests.length).toBeGreaterThan(1)
+    expect(requests.every(({ isFulfillable }) => !isFulfillable)).toBe(true)
+    expect(requests[requests.length - 1].frames).toContainEqual(
+      expect.objectContaining({ type: FrameType.ConnectionClose, errorCode: ErrorCode.NoError })
+    )
+    expect(senderPlugin1.isConnected()).toBe(false)
+
+    await app.shutdown()
+  })
+
+  it('skips the rate probe if the path to the recipient is cached', async () => {
+    const [senderPlugin1, senderPlugin2] = MirrorPlugin.createPair()
+    const [receiverPlugin1, receiverPlugin2] = MirrorPlugin.createPair()
+
+    const app = createApp({
+      ilpAddress: 'private.larry',
+      backend: 'one-to-one',
+      spread: 0,
+      accounts: {
+        sender: {
+          relation: 'child',
+          assetCode: 'USD',
+          assetScale: 2,
+          plugin: senderPlugin2,
+          maxPacketAmount: '1234',
+        },
+        receiver: {
+          relation: 'child',
+          assetCode: 'USD',
+          assetScale: 2,
+          plugin: receiverPlugin1,
+        },
+      },
+    })
+    await app.listen()
+
+    const streamServer = await createServer({
+      plugin: receiverPlugin2,
+    })
+    streamServer.on('connection', (connection: Connection) => {
+      connection.on('stream', (stream: DataAndMoneyStream) => {
+        stream.setReceiveMax(Long.MAX_UNSIGNED_VALUE)
+      })
+    })
+
+    // Track the amounts of STREAM packets sent to the recipient
+    let amountsToRecipient: number[] = []
+    const sendData = senderPlugin1.sendData.bind(senderPlugin1)
+    senderPlugin1.sendData = async (data: Buffer) => {
+      const { destination, amount } = deserializeIlpPrepare(data)
+      if (destination.startsWith('private.larry.receiver')) {
+        amountsToRecipient.push(+amount)
+      }
+      return sendData(data)
+    }
+
+    const pathCache = new PathCache()
+
+    const credentials1 = streamServer.generateAddressAndSecret()
+    const quote1 = await quote({
+      plugin: senderPlugin1,
+      amountToSend: 50,
+      destinationAddress: credentials1.destinationAccount,
+      sharedSecret: credentials1.sharedSecret,
+      slippage: 1,
+      pathCache,
+    })
+    await quote1.cancel()
+    expect(amountsToRecipient.length).toBeGreaterThan(1)
+
+    // Second quote to a new connection with the same recipient uses the cached path
+    amountsToRecipient = []
+    const {
+      sharedSecret,
+      destinationAccount: destinationAddress,
+    } = streamServer.generateAddressAndSecret()
+    const quote2 = await quote({
+      plugin: senderPlugin1,
+      amountToSend: 50,
+      destinationAddress,
+      sharedSecret,
+      slippage: 1,
+      pathCache,
+    })
+    expect(amountsToRecipient).toEqual([])
+    expect(quote2.estimatedExchangeRate).toEqual(quote1.estimatedExchangeRate)
+    expect(quote2.destinationAccount).toEqual({
+      ilpAddress: destinationAddress,
+      assetCode: 'USD',
+      assetScale: 2,
+    })
+
+    // Packets are limited to the cached max packet amount
+    const receipt = await quote2.pay()
+    expect(receipt.error).toBeUndefined()
+    expect(receipt.amountSent).toEqual(new BigNumber(50))
+    expect(receipt.amountDelivered).toEqual(new BigNumber(50))
+    expect(Math.max(...amountsToRecipient)).toBe(1234)
+
+    await app.shutdown()
+    await streamServer.close()
+  })
+
+  it('fails if no amount to send or deliver was provided', async () => {
+    const [senderPlugin, connectorPlugin] = MirrorPlugin.createPair()
+
+    const app = createApp({
+      ilpAddress: 'private.larry',
+      backend: 'one-to-one',
+      spread: 0,
+      accounts: {
+        sender: {
+          relation: 'child',
+          assetCode: 'ABC',
+          assetScale: 3,
+          plugin: connectorPlugin,
+        },
+      },
+    })
+    await app.listen()
+
+    await expect(
+      quote({
+        plugin: senderPlugin,
+        destinationAddress: 'private.receiver',
+        sharedSecret: randomBytes(32),
+      })
+    ).rejects.toBe(PaymentError.UnknownPaymentTarget)
+    expect(!senderPlugin.isConnected())
+
+    await app.shutdown()
+  })
+
+  it('fails on asset detail conflicts', async () => {
+    const [senderPlugin1, senderPlugin2] = MirrorPlugin.createPair()
+    const [receiverPlugin1, receiverPlugin2] = MirrorPlugin.createPair()
+
+    const app = createApp({
+      ilpAddress: 'private.larry',
+      backend: 'one-to-one',
+      spread: 0,
+      accounts: {
+        sender: {
+          relation: 'child',
+          assetCode: 'ABC',
+          assetScale: 4,
+          plugin: senderPlugin2,
+        },
+        receiver: {
+          relation: 'child',
+          assetCode: 'ABC',
+          assetScale: 4,
+          plugin: receiverPlugin1,
+        },
+      },
+    })
+    await app.listen()
+
+    const streamServer = await createServer({
+      plugin: receiverPlugin2,
+    })
+
+    const sharedSecret = randomBytes(32)
+    const encryptionKey = await generatePskEncryptionKey(sharedSecret)
+
+    // Create simple STREAM receiver that acks test packets,
+    // but replies with conflicting asset details
+    receiverPlugin2.registerDataHandler(async (data) => {
+      const prepare = deserializeIlpPrepare(data)
+
+      const streamRequest = await Packet.decryptAndDeserialize(encryptionKey, prepare.data)
+
+      const streamReply = new Packet(streamRequest.sequence, IlpPacketType.Reject, prepare.amount, [
+        new ConnectionAssetDetailsFrame('ABC', 2),
+        new ConnectionAssetDetailsFrame('XYZ', 2),
+        new ConnectionAssetDetailsFrame('XYZ', 3),
+      ])
+
+      return serializeIlpReject({
+        code: IlpError.F99_APPLICATION_ERROR,
+        message: '',
+        triggeredBy: '',
+        data: await streamReply.serializeAndEncrypt(encryptionKey),
+      })
+    })
+
+    await expect(
+      quote({
+        plugin: senderPlugin1,
+        amountToDeliver: 100,
+        destinationAddress: 'private.larry.receiver',
+        sharedSecret,
+      })
+    ).rejects.toBe(PaymentError.DestinationAssetConflict)
+
+    expect(!senderPlugin1.isConnected())
+
+    await app.shutdown()
+    await streamServer.close()
+  })
+
+  it('fails if no test packets are delivered', async () => {
+    const [senderPlugin1, senderPlugin2] = MirrorPlugin.createPair()
+    const [receiverPlugin1, receiverPlugin2] = MirrorPlugin.createPair()
+
+    const app = createApp({
+      ilpAddress: 'private.larry',
+      backend: 'one-to-one',
+      spread: 0,
+      accounts: {
+        sender: {
+          relation: 'child',
+          assetCode: 'ABC',
+          assetScale: 0,
+          plugin: senderPlugin2,
+        },
+        receiver: {
+          relation: 'child',
+          assetCode: 'ABC',
+          assetScale: 0,
+          plugin: receiverPlugin1,
+        },
+      },
+    })
+    await app.listen()
+
+    receiverPlugin2.registerDataHandler(async () =>
+      serializeIlpReject({
+        code: IlpError.T01_PEER_UNREACHABLE,
+        message: '',
+        triggeredBy: '',
+        data: Buffer.alloc(0),
+      })
+    )
+
+    await expect(
+      quote({
+        plugin: senderPlugin1,
+        amountToSend: '1000',
+        destinationAddress: 'private.larry.receiver',
+        sharedSecret: Buffer.alloc(32),
+      })
+    ).rejects.toBe(PaymentError.RateProbeFailed)
+    expect(!senderPlugin1.isConnected())
+
+    await app.shutdown()
+  }, 15000)
+
+  it('fails if no test packets are delivered within the probe timeout', async () => {
+    const [senderPlugin1, senderPlugin2] = MirrorPlugin.createPair()
+    const [receiverPlugin1, receiverPlugin2] = MirrorPlugin.createPair()
+
+    const app = createApp({
+      ilpAddress: 'private.larry',
+      backend: 'one-to-one',
+      spread: 0,
+      accounts: {
+        sender: {
+          relation: 'child',
+          assetCode: 'ABC',
+          assetScale: 2,
+          plugin: senderPlugin2,
+        },
+        receiver: {
+          relation: 'child',
+          assetCode: 'ABC',
+          assetScale: 2,
+          plugin: receiverPlugin1,
+        },
+      },
+    })
+    await app.listen()
+
+    const sentAmounts: string[] = []
+    receiverPlugin2.registerDataHandler(async (data) => {
+      sentAmounts.push(deserializeIlpPrepare(data).amount)
+      return serializeIlpReject({
+        code: IlpError.T01_PEER_UNREACHABLE,
+        message: '',
+        triggeredBy: '',
+        data: Buffer.alloc(0),
+      })
+    })
+
+    const start = Date.now()
+    await expect(
+      quote({
+        plugin: senderPlugin1,
+        amountToSend: 10,
+        destinationAddress: 'private.larry.receiver',
+        sharedSecret: Buffer.alloc(32),
+        rateProbe: {
+          amounts: [5, 0.25],
+          timeout: 500,
+        },
+      })
+    ).rejects.toBe(PaymentError.RateProbeFailed)
+    expect(Date.now() - start).toBeLessThan(5000)
+    expect(!senderPlugin1.isConnected())
+
+    // Only the custom test packet amounts are sent, in base units of the source account
+    expect(sentAmounts).toEqual(['0', '500', '25'])
+
+    await app.shutdown()
+  })
+
+  it('refines the probed rate until it converges within the tolerance', async () => {
+    const [senderPlugin1, senderPlugin2] = MirrorPlugin.createPair()
+    const [receiverPlugin1, receiverPlugin2] = MirrorPlugin.createPair()
+
+    const prices = {
+      ABC: 0.7654321,
+      XYZ: 1,
+    }
+
+    let backend: CustomBackend
+    const deps = reduct((Constructor) => Constructor.name === 'RateBackend' && backend)
+    backend = new CustomBackend(deps)
+    backend.setPrices(prices)
+
+    const app = createApp(
+      {
+        ilpAddress: 'private.larry',
+        spread: 0,
+        accounts: {
+          sender: {
+            relation: 'child',
+            assetCode: 'ABC',
+            assetScale: 0,
+            plugin: senderPlugin2,
+            maxPacketAmount: '1000',
+          },
+          receiver: {
+            relation: 'child',
+            assetCode: 'XYZ',
+            assetScale: 0,
+            plugin: receiverPlugin1,
+          },
+        },
+      },
+      deps
+    )
+    await app.listen()
+
+    const streamServer = await createServer({
+      plugin: receiverPlugin2,
+    })
+
+    const {
+      sharedSecret,
+      destinationAccount: destinationAddress,
+    } = streamServer.generateAddressAndSecret()
+
+    const options = {
+      plugin: senderPlugin1,
+      amountToSend: 100_000,
+      destinationAddress,
+      sharedSecret,
+      prices,
+    }
+
+    // Test packets alone only establish the rate within the precision of the max packet amount
+    const { rateUncertainty: initialUncertainty, cancel } = await quote(options)
+    expect(initialUncertainty.isGreaterThan(0.001)).toBe(true)
+    await cancel()
+
+    const { estimatedExchangeRate, rateUncertainty, cancel: cancel2 } = await quote({
+      ...options,
+      rateProbe: { tolerance: 0.0001 },
+    })
+    expect(rateUncertainty.isLessThanOrEqualTo(0.0001)).toBe(true)
+    expect(estimatedExchangeRate[0].isLessThanOrEqualTo(0.7654321)).toBe(true)
+    expect(estimatedExchangeRate[1].isGreaterThan(0.7654321)).toBe(true)
+    await cancel2()
+
+    await app.shutdown()
+    await streamServer.close()
+  })
+
+  it('fails if max packet amount is 0', async () => {
+    const [senderPlugin1, maxPacketPlugin] = MirrorPlugin.createPair()
+    const [receiverPlugin1, receiverPlugin2] = MirrorPlugin.createPair()
+
+    const senderPlugin2 = new MirrorPlugin()
+    senderPlugin2.mirror = senderPlugin1
+
+    const app = createApp({
+      ilpAddress: 'private.larry',
+      backend: 'one-to-one',
+      spread: 0,
+      accounts: {
+        sender: {
+          relation: 'child',
+          assetCode: 'ABC',
+          assetScale: 0,
+          plugin: senderPlugin2,
+        },
+        receiver: {
+          relation: 'child',
+          assetCode: 'ABC',
+          assetScale: 0,
+          plugin: receiverPlugin1,
+        },
+      },
+    })
+    await app.listen()
+
+    const streamServer = await createServer({
+      plugin: receiverPlugin2,
+    })
+
+    const {
+      sharedSecret,
+      destinationAccount: destinationAddress,
+    } = streamServer.generateAddressAndSecret()
+
+    // `ilp-connector` doesn't support 0 max packet amount,
+    // so use a custom middleware to test this
+    maxPacketPlugin.registerDataHandler(async (data) => {
+      const prepare = deserializeIlpPrepare(data)
+      if (+prepare.amount > 0) {
+        const writer = new Writer(16)
+        writer.writeUInt64(prepare.amount) // Amount received
+        writer.writeUInt64(0) // Maximum
+
+        return serializeIlpReject({
+          code: IlpError.F08_AMOUNT_TOO_LARGE,
+          message: '',
+          triggeredBy: '',
+          data: writer.getBuffer(),
+        })
+      } else {
+        return senderPlugin2.dataHandler(data)
+      }
+    })
+
+    await expect(
+      quote({
+        plugin: senderPlugin1,
+        amountToSend: 100,
+        destinationAddress,
+        sharedSecret,
+      })
+    ).rejects.toBe(PaymentError.ConnectorError)
+    expect(!senderPlugin1.isConnected())
+
+    await app.shutdown()
+    await streamServer.close()
+  })
+
+  it('fails if recipient never shared destination asset details', async () => {
+    const [senderPlugin, connectorPlugin] = MirrorPlugin.createPair()
+
+    const app = createApp({
+      ilpAddress: 'private.larry',
+      backend: 'one-to-one',
+      spread: 0,
+      accounts: {
+        sender: {
+          relation: 'child',
+          assetCode: 'ABC',
+          assetScale: 3,
+          plugin: connectorPlugin,
+        },
+      },
+    })
+    await app.listen()
+
+    // If the recipient never tells us their destination asset,
+    // we can't enforce exchange rates, so it should fail.
+
+    // To test this, the STREAM sender sends packets to itself,
+    // which are all ACKed with F99 rejects. Since the "recipient"
+    // never replies with its asset details, the quote should fail
+
+    await expect(
+      quote({
+        plugin: senderPlugin,
+        amountToSend: 100,
+        destinationAddress: 'private.larry.sender',
+        sharedSecret: randomBytes(32),
+      })
+    ).rejects.toBe(PaymentError.UnknownDestinationAsset)
+    expect(!senderPlugin.isConnected())
+
+    await app.shutdown()
+  })
+
+  it('fails if price api is unavailable', async () => {
+    const [senderPlugin1, senderPlugin2] = MirrorPlugin.createPair()
+    const [receiverPlugin1, receiverPlugin2] = MirrorPlugin.createPair()
+
+    const app = createApp({
+      ilpAddress: 'private.larry',
+      backend: 'one-to-one',
+      spread: 0,
+      accounts: {
+        sender: {
+          relation: 'child',
+          assetCode: 'JPY',
+          assetScale: 0,
+          plugin: senderPlugin2,
+        },
+        receiver: {
+          relation: 'child',
+          assetCode: 'GBP',
+          assetScale: 0,
+          plugin: receiverPlugin1,
+        },
+      },
+    })
+    await app.listen()
+
+    const streamServer = await createServer({
+      plugin: receiverPlugin2,
+    })
+
+    const tryQuote = async () => {
+      const {
+        sharedSecret,
+        destinationAccount: destinationAddress,
+      } = streamServer.generateAddressAndSecret()
+
+      await expect(
+        quote({
+          plugin: senderPlugin1,
+          amountToSend: 100,
+          destinationAddress,
+          sharedSecret,
+        })
+      ).rejects.toBe(PaymentError.ExternalRateUnavailable)
+      expect(!senderPlugin1.isConnected())
+    }
+
+    const response = {
+      timestamp: Date.now(),
+      data: [
+        {
+          symbol: 'JPY',
+          rateUsd: 1,
+        },
+        {
+          symbol: 'GBP',
+          priceUsd: 1,
+        },
+      ],
+    }
+
+    nock('https://api.coincap.io')
+      .get('/v2/assets')
+      .delay(7000)
+      .reply(200, response)
+      .get('/v2/rates')
+      .reply(200, response)
+    await tryQuote()
+    nock.cleanAll()
+
+    nock('https://api.coincap.io')
+      .get('/v2/rates')
+      .reply(400)
+      .get('/v2/assets')
+      .reply(200, response)
+    await tryQuote()
+    nock.cleanAll()
+
+    await app.shutdown()
+    await streamServer.close()
+
+    nock.abortPendingRequests()
+  })
+
+  it('falls back to the next rate backend if one is unavailable', async () => {
+    const [senderPlugin1, senderPlugin2] = MirrorPlugin.createPair()
+    const [receiverPlugin1, receiverPlugin2] = MirrorPlugin.createPair()
+
+    const app = createApp({
+      ilpAddress: 'private.larry',
+      backend: 'one-to-one',
+      spread: 0,
+      accounts: {
+        sender: {
+          relation: 'child',
+          assetCode: 'JPY',
+          assetScale: 0,
+          plugin: senderPlugin2,
+        },
+        receiver: {
+          relation: 'child',
+          assetCode: 'GBP',
+          assetScale: 0,
+          plugin: receiverPlugin1,
+        },
+      },
+    })
+    await app.listen()
+
+    const streamServer = await createServer({
+      plugin: receiverPlugin2,
+    })
+
+    const {
+      sharedSecret,
+      destinationAccount: destinationAddress,
+    } = streamServer.generateAddressAndSecret()
+
+    const { minExchangeRate, cancel } = await quote({
+      plugin: senderPlugin1,
+      amountToSend: 100,
+      destinationAddress,
+      sharedSecret,
+      slippage: 0.01,
+      rateBackend: new FallbackRateBackend([
+        new CallbackRateBackend(() => Promise.reject(new Error('outage'))),
+        new StaticRateBackend({ JPY: 1, GBP: 1 }),
+      ]),
+    })
+    expect(minExchangeRate).toEqual(new BigNumber(0.99))
+
+    await cancel()
+    await app.shutdown()
+    await streamServer.close()
+  })
+
+  it('fails if no external price for the source asset exists', async () => {
+    const [senderPlugin1, senderPlugin2] = MirrorPlugin.createPair()
+    const [receiverPlugin1, receiverPlugin2] = MirrorPlugin.createPair()
+
+    const app = createApp({
+      ilpAddress: 'private.larry',
+      backend: 'one-to-one',
+      spread: 0,
+      accounts: {
+        sender: {
+          relation: 'child',
+          assetCode: 'some really weird currency',
+          assetScale: 0,
+          plugin: senderPlugin2,
+        },
+        receiver: {
+          relation: 'child',
+          assetCode: 'ABC',
+          assetScale: 0,
+          plugin: receiverPlugin1,
+        },
+      },
+    })
+    await app.listen()
+
+    const streamServer = await createServer({
+      plugin: receiverPlugin2,
+    })
+
+    const {
+      sharedSecret,
+      destinationAccount: destinationAddress,
+    } = streamServer.generateAddressAndSecret()
+
+    await expect(
+      quote({
+        plugin: senderPlugin1,
+        amountToSend: 100,
+        destinationAddress,
+        sharedSecret,
+      })
+    ).rejects.toBe(PaymentError.ExternalRateUnavailable)
+    expect(!senderPlugin1.isConnected())
+
+    await app.shutdown()
+    await streamServer.close()
+  })
+
+  it('fails if no external price for the destination asset exists', async () => {
+    const [senderPlugin1, senderPlugin2] = MirrorPlugin.createPair()
+    const [receiverPlugin1, receiverPlugin2] = MirrorPlugin.createPair()
+
+    const app = createApp({
+      ilpAddress: 'private.larry',
+      backend: 'one-to-one',
+      spread: 0,
+      accounts: {
+        sender: {
+          relation: 'child',
+          assetCode: 'USD',
+          assetScale: 3,
+          plugin: senderPlugin2,
+        },
+        receiver: {
+          relation: 'child',
+          assetCode: 'THIS_ASSET_CODE_DOES_NOT_EXIST',
+          assetScale: 3,
+          plugin: receiverPlugin1,
+        },
+      },
+    })
+    await app.listen()
+
+    const streamServer = await createServer({
+      plugin: receiverPlugin2,
+    })
+
+    const {
+      sharedSecret,
+      destinationAccount: destinationAddress,
+    } = streamServer.generateAddressAndSecret()
+
+    await expect(
+      quote({
+        plugin: senderPlugin1,
+        amountToSend: 303.222,
+        destinationAddress,
+        sharedSecret,
+      })
+    ).rejects.toBe(PaymentError.ExternalRateUnavailable)
+    expect(!senderPlugin1.isConnected())
+
+    await app.shutdown()
+    await streamServer.close()
+  })
+
+  it('fails if the external exchange rate is 0', async () => {
+    const [senderPlugin1, senderPlugin2] = MirrorPlugin.createPair()
+    const [receiverPlugin1, receiverPlugin2] = MirrorPlugin.createPair()
+
+    const app = createApp({
+      ilpAddress: 'private.larry',
+      backend: 'one-to-one',
+      spread: 0,
+      accounts: {
+        sender: {
+          relation: 'child',
+          assetCode: 'ABC',
+          assetScale: 0,
+          plugin: senderPlugin2,
+        },
+        receiver: {
+          relation: 'child',
+          assetCode: 'XYZ',
+          assetScale: 0,
+          plugin: receiverPlugin1,
+        },
+      },
+    })
+    await app.listen()
+
+    const streamServer = await createServer({
+      plugin: receiverPlugin2,
+    })
+
+    const {
+      sharedSecret,
+      destinationAccount: destinationAddress,
+    } = streamServer.generateAddressAndSecret()
+
+    await expect(
+      quote({
+        plugin: senderPlugin1,
+        amountToSend: '1000',
+        destinationAddress,
+        sharedSecret,
+        prices: {
+          // Computing this rate would be a divide-by-0 error,
+          // so the rate is "unavailable" rather than quoted as 0
+          ABC: 1,
+          XYZ: 0,
+        },
+      })
+    ).rejects.toBe(PaymentError.ExternalRateUnavailable)
+    expect(!senderPlugin1.isConnected())
+
+    await app.shutdown()
+    await streamServer.close()
+  })
+
+  it('fails it the probed rate is below the minimum rate', async () => {
+    const [senderPlugin1, senderPlugin2] = MirrorPlugin.createPair()
+    const [receiverPlugin1, receiverPlugin2] = MirrorPlugin.createPair()
+
+    const app = createApp({
+      ilpAddress: 'private.larry',
+      backend: 'one-to-one',
+      spread: 0.02,
+      accounts: {
+        sender: {
+          relation: 'child',
+          assetCode: 'ABC',
+          assetScale: 4,
+          plugin: senderPlugin2,
+        },
+        receiver: {
+          relation: 'child',
+          assetCode: 'ABC',
+          assetScale: 4,
+          plugin: receiverPlugin1,
+        },
+      },
+    })
+    await app.listen()
+
+    const streamServer = await createServer({
+      plugin: receiverPlugin2,
+    })
+
+    const {
+      sharedSecret,
+      destinationAccount: destinationAddress,
+    } = streamServer.generateAddressAndSecret()
+
+    await expect(
+      quote({
+        plugin: senderPlugin1,
+        amountToSend: '1000',
+        destinationAddress,
+        sharedSecret,
+        slippage: 0.01,
+      })
+    ).rejects.toBe(PaymentError.InsufficientExchangeRate)
+    expect(!senderPlugin1.isConnected())
+
+    await app.shutdown()
+    await streamServer.close()
+  })
+
+  it('fails if the probed rate is 0', async () => {
+    const [senderPlugin1, senderPlugin2] = MirrorPlugin.createPair()
+    const [receiverPlugin1, receiverPlugin2] = MirrorPlugin.createPair()
+
+    const prices = {
+      BTC: 9814.04,
+      EUR: 1.13,
+    }
+
+    // Override with rate backend for custom rates
+    let backend: CustomBackend
+    const deps = reduct((Constructor) => Constructor.name === 'RateBackend' && backend)
+    backend = new CustomBackend(deps)
+    backend.setPrices(prices)
+
+    const app = createApp(
+      {
+        ilpAddress: 'private.larry',
+        // All packets here should round down to 0 EUR
+        accounts: {
+          sender: {
+            relation: 'child',
+            assetCode: 'BTC',
+            assetScale: 8,
+            plugin: senderPlugin2,
+            maxPacketAmount: '1000',
+          },
+          receiver: {
+            relation: 'child',
+            assetCode: 'EUR',
+            assetScale: 0,
+            plugin: receiverPlugin1,
+          },
+        },
+      },
+      deps
+    )
+    await app.listen()
+
+    const streamServer = await createServer({
+      plugin: receiverPlugin2,
+    })
+
+    const {
+      sharedSecret,
+      destinationAccount: destinationAddress,
+    } = streamServer.generateAddressAndSecret()
+
+    await expect(
+      quote({
+        plugin: senderPlugin1,
+        amountToSend: '1000',
+        destinationAddress,
+        sharedSecret,
+        prices,
+      })
+    ).rejects.toBe(PaymentError.InsufficientExchangeRate)
+    expect(!senderPlugin1.isConnected())
+
+    await app.shutdown()
+    await streamServer.close()
+  })
+
+  it('fails if min rate and max packet amount would cause rounding errors', async () => {
+    const [senderPlugin1, senderPlugin2] = MirrorPlugin.createPair()
+    const [receiverPlugin1, receiverPlugin2] = MirrorPlugin.createPair()
+
+    const prices = {
+      BTC: 9814.04,
+      EUR: 1.13,
+    }
+
+    // Override with rate backend for custom rates
+    let backend: CustomBackend
+    const deps = reduct((Constructor) => Constructor.name === 'RateBackend' && backend)
+    backend = new CustomBackend(deps)
+    backend.setPrices(prices)
+
+    const app = createApp(
+      {
+        ilpAddress: 'private.larry',
+        spread: 0.0005,
+        accounts: {
+          sender: {
+            relation: 'child',
+            assetCode: 'BTC',
+            assetScale: 8,
+            plugin: senderPlugin2,
+            maxPacketAmount: '1000',
+          },
+          receiver: {
+            relation: 'child',
+            assetCode: 'EUR',
+            assetScale: 6,
+            plugin: receiverPlugin1,
+          },
+        },
+      },
+      deps
+    )
+    await app.listen()
+
+    const streamServer = await createServer({
+      plugin: receiverPlugin2,
+    })
+
+    const {
+      sharedSecret,
+      destinationAccount: destinationAddress,
+    } = streamServer.generateAddressAndSecret()
+
+    await expect(
+      quote({
+        plugin: senderPlugin1,
+        amountToSend: 100_000,
+        destinationAddress,
+        sharedSecret,
+        // Slippage/minExchangeRate is far too close to the real spread/rate
+        // to perform the payment without rounding errors, since the max packet
+        // amount of 1000 doesn't allow more precision.
+        slippage: 0.00051,
+        prices,
+      })
+    ).rejects.toBe(PaymentError.ExchangeRateRoundingError)
+    expect(!senderPlugin1.isConnected())
+
+    await app.shutdown()
+    await streamServer.close()
+  })
+
+  it('discovers precise max packet amount from F08s without metadata', async () => {
+    const [senderPlugin1, senderPlugin2] = MirrorPlugin.createPair()
+    const [receiverPlugin1, receiverPlugin2] = MirrorPlugin.createPair()
+
+    const streamServerPlugin = new MirrorPlugin()
+    streamServerPlugin.mirror = receiverPlugin1
+
+    const app = createApp({
+      ilpAddress: 'private.larry',
+      backend: 'one-to-one',
+      spread: 0,
+      accounts: {
+        sender: {
+          relation: 'child',
+          assetCode: 'ABC',
+          assetScale: 0,
+          plugin: senderPlugin2,
+          // This tests the max packet state transition from precise -> imprecise
+          maxPacketAmount: '1000000',
+        },
+        receiver: {
+          relation: 'child',
+          assetCode: 'ABC',
+          assetScale: 0,
+          plugin: receiverPlugin1,
+        },
+      },
+    })
+    await app.listen()
+
+    const streamServer = await createServer({
+      plugin: streamServerPlugin,
+    })
+
+    streamServer.on('connection', (connection: Connection) => {
+      connection.on('stream', (stream: DataAndMoneyStream) => {
+        stream.setReceiveMax(Infinity)
+      })
+    })
+
+    const maxPacketAmount = 300324
+    let largestAmountReceived = 0
+
+    // Add middleware to return F08 errors *without* metadata
+    // and track the greatest packet amount that's sent
+    receiverPlugin2.registerDataHandler(async (data) => {
+      const prepare = deserializeIlpPrepare(data)
+      if (+prepare.amount > maxPacketAmount) {
+        return serializeIlpReject({
+          code: IlpError.F08_AMOUNT_TOO_LARGE,
+          message: '',
+          triggeredBy: '',
+          data: Buffer.alloc(0),
+        })
+      } else {
+        largestAmountReceived = Math.max(largestAmountReceived, +prepare.amount)
+        return streamServerPlugin.dataHandler(data)
+      }
+    })
+
+    const {
+      sharedSecret,
+      destinationAccount: destinationAddress,
+    } = streamServer.generateAddressAndSecret()
+
+    const { cancel } = await quote({
+      plugin: senderPlugin1,
+      amountToSend: 40_000_000,
+      sharedSecret,
+      destinationAddress,
+    })
+
+    await cancel()
+
+    // If STREAM did discover the max packet amount,
+    // since the rate is 1:1, the largest packet the receiver got
+    // should be exactly the max packet amount
+    expect(largestAmountReceived).toBe(maxPacketAmount)
+
+    await app.shutdown()
+    await streamServer.close()
+  }, 10000)
+
+  it.todo('works if theres no max packet amount without sending max u64 packets')
+})
+
+describe('fixed source payments', () => {
+  it('completes source amount payment with max packet amount', async () => {
+    const [alice1, alice2] = MirrorPlugin.createPair()
+    const [bob1, bob2] = MirrorPlugin.createPair()
+
+    const prices = {
+      USD: 1,
+      XRP: 0.2041930991198592,
+    }
+
+    // Override with rate backend for custom rates
+    let backend: CustomBackend
+    const deps = reduct((Constructor) => Constructor.name === 'RateBackend' && backend)
+    backend = new CustomBackend(deps)
+    backend.setPrices(prices)
+
+    const app = createApp(
+      {
+        ilpAddress: 'test.larry',
+        spread: 0.014, // 1.4% slippage
+        accounts: {
+          alice: {
+            relation: 'child',
+            plugin: alice2,
+            assetCode: 'USD',
+            assetScale: 6,
+            maxPacketAmount: '5454',
+          },
+          bob: {
+            relation: 'child',
+            plugin: bob1,
+            assetCode: 'XRP',
+            assetScale: 9,
+          },
+        },
+      },
+      deps
+    )
+    await app.listen()
+
+    const streamServer = await createServer({
+      plugin: bob2,
+    })
+
+    const connectionPromise = streamServer.acceptConnection()
+    streamServer.on('connection', (connection: Connection) => {
+      connection.on('stream', (stream: DataAndMoneyStream) => {
+        stream.setReceiveMax(Long.MAX_UNSIGNED_VALUE)
+      })
+    })
+
+    const {
+      sharedSecret,
+      destinationAccount: destinationAddress,
+    } = streamServer.generateAddressAndSecret()
+
+    const amountToSend = new BigNumber(1.00427)
+    const { pay, ...quoteDetails } = await quote({
+      amountToSend,
+      destinationAddress,
+      sharedSecret,
+      plugin: alice1,
+      slippage: 0.015,
+      prices,
+    })
+
+    expect(quoteDetails.sourceAccount).toEqual({
+      assetCode: 'USD',
+      assetScale: 6,
+      ilpAddress: 'test.larry.alice',
+    })
+    expect(quoteDetails.destinationAccount).toEqual({
+      assetCode: 'XRP',
+      assetScale: 9,
+      ilpAddress: destinationAddress,
+    })
+    expect(quoteDetails.maxSourceAmount).toEqual(amountToSend)
+
+    const receipt = await pay()
+
+    expect(receipt.error).toBeUndefined()
+
+    const serverConnection = await connectionPromise
+    expect(new BigNumber(serverConnection.totalReceived)).toEqual(
+      receipt.amountDelivered.shiftedBy(9)
+    )
+    expect(receipt.amountSent).toEqual(amountToSend)
+
+    await app.shutdown()
+    await streamServer.close()
+  }, 10000)
+
+  it('completes source amount payment if exchange rate is very close to minimum', async () => {
+    const [senderPlugin1, finalPacketPlugin] = MirrorPlugin.createPair()
+
+    const senderPlugin2 = new MirrorPlugin()
+    senderPlugin2.mirror = senderPlugin1
+
+    const [receiverPlugin1, receiverPlugin2] = MirrorPlugin.createPair()
+
+    const prices = {
+      BTC: 9814.04,
+      EUR: 1.13,
+    }
+
+    // Override with rate backend for custom rates
+    let backend: CustomBackend
+    const deps = reduct((Constructor) => Constructor.name === 'RateBackend' && backend)
+    backend = new CustomBackend(deps)
+    backend.setPrices(prices)
+
+    const app = createApp(
+      {
+        ilpAddress: 'private.larry',
+        spread: 0,
+        accounts: {
+          sender: {
+            relation: 'child',
+            assetCode: 'BTC',
+            assetScale: 8,
+            plugin: senderPlugin2,
+            maxPacketAmount: '1000',
+          },
+          receiver: {
+            relation: 'child',
+            assetCode: 'EUR',
+            assetScale: 4,
+            plugin: receiverPlugin1,
+          },
+        },
+      },
+      deps
+    )
+    await app.listen()
+
+    const streamServer = await createServer({
+      plugin: receiverPlugin2,
+    })
+
+    streamServer.on('connection', (connection: Connection) => {
+      connection.on('stream', (stream: DataAndMoneyStream) => {
+        stream.setReceiveMax(Infinity)
+      })
+    })
+
+    const {
+      sharedSecret,
+      destinationAccount: destinationAddress,
+    } = streamServer.generateAddressAndSecret()
+
+    // On the final packet, reject. This tests that the delivery shortfall
+    // correctly gets refunded, and after the packet is retried,
+    // the payment completes.
+    let failedOnFinalPacket = false
+    finalPacketPlugin.registerDataHandler(async (data) => {
+      const prepare = deserializeIlpPrepare(data)
+      if (prepare.amount === '2' && !failedOnFinalPacket) {
+        failedOnFinalPacket = true
+        return serializeIlpReject({
+          code: IlpError.T02_PEER_BUSY,
+          message: '',
+          triggeredBy: '',
+          data: Buffer.alloc(0),
+        })
+      } else {
+        return senderPlugin2.dataHandler(data)
+      }
+    })
+
+    const { pay, ...details } = await quote({
+      plugin: senderPlugin1,
+      // Send 100,002 sats
+      // Max packet amount of 1000 means the final packet will try to send 2 units
+      // This rounds down to 0, but the delivery shortfall should ensure this is acceptable
+      amountToSend: 0.00100002,
+      destinationAddress,
+      sharedSecret,
+      slippage: 0.002,
+      prices,
+    })
+    expect(+details.maxSourceAmount).toBe(0.00100002)
+
+    const receipt = await pay()
+    expect(receipt.error).toBeUndefined()
+    expect(+receipt.amountSent).toBe(0.00100002)
+    expect(+receipt.amountDelivered).toBeGreaterThanOrEqual(+details.minDeliveryAmount)
+
+    await app.shutdown()
+    await streamServer.close()
+  })
+
+  it('complete source amount payment with no latency', async () => {
+    const [alice1, alice2] = MirrorPlugin.createPair(0, 0)
+    const [bob1, bob2] = MirrorPlugin.createPair(0, 0)
+
+    const prices = await fetchCoinCapRates()
+
+    // Override with rate backend for custom rates
+    let backend: CustomBackend
+    const deps = reduct((Constructor) => Constructor.name === 'RateBackend' && backend)
+    backend = new CustomBackend(deps)
+    backend.setPrices(prices)
+
+    const app = createApp(
+      {
+        ilpAddress: 'test.larry',
+        spread: 0,
+        accounts: {
+          alice: {
+            relation: 'child',
+            plugin: alice2,
+            assetCode: 'XYZ',
+            assetScale: 0,
+            maxPacketAmount: '1',
+          },
+          bob: {
+            relation: 'child',
+            plugin: bob1,
+            assetCode: 'XYZ',
+            assetScale: 0,
+          },
+        },
+      },
+      deps
+    )
+    await app.listen()
+
+    // Waiting before fulfilling packets tests whether the number of packets in-flight is capped
+    // and tests the greatest number of packets that are sent in-flight at once
+    let numberPacketsInFlight = 0
+    let highestNumberPacketsInFlight = 0
+    const streamServer = await createServer({
+      plugin: bob2,
+      shouldFulfill: async () => {
+        numberPacketsInFlight++
+        await sleep(1000)
+        highestNumberPacketsInFlight = Math.max(highestNumberPacketsInFlight, numberPacketsInFlight)
+        numberPacketsInFlight--
+      },
+    })
+
+    streamServer.on('connection', (connection: Connection) => {
+      connection.on('stream', (stream: DataAndMoneyStream) => {
+        stream.setReceiveMax(Long.MAX_UNSIGNED_VALUE)
+      })
+    })
+
+    const {
+      sharedSecret,
+      destinationAccount: destinationAddress,
+    } = streamServer.generateAddressAndSecret()
+
+    // Send 100 total packets
+    const { pay } = await quote({
+      amountToSend: 100,
+      destinationAddress,
+      sharedSecret,
+      plugin: alice1,
+      slippage: 1,
+      prices: {},
+    })
+
+    const receipt = await pay()
+
+    expect(receipt.error).toBeUndefined()
+    expect(highestNumberPacketsInFlight).toBe(20)
+    expect(+receipt.amountSent).toEqual(100)
+
+    await app.shutdown()
+    await streamServer.close()
+  }, 10000)
+
+  it('completes source amount payment with no rate enforcement', async () => {
+    const [alice1, alice2] = MirrorPlugin.createPair()
+    const [bob1, bob2] = MirrorPlugin.createPair()
+
+    const prices = {
+      ABC: 3.2,
+      XYZ: 1.5,
+    }
+
+    // Override with rate backend for custom rates
+    let backend: CustomBackend
+    const deps = reduct((Constructor) => Constructor.name === 'RateBackend' && backend)
+    backend = new CustomBackend(deps)
+    backend.setPrices(prices)
+
+    const app = createApp(
+      {
+        ilpAddress: 'test.larry',
+        spread: 0.014, // 1.4% slippage
+        accounts: {
+          alice: {
+            relation: 'child',
+            plugin: alice2,
+            assetCode: 'ABC',
+            assetScale: 0,
+            maxPacketAmount: '1000',
+          },
+          bob: {
+            relation: 'child',
+            plugin: bob1,
+            assetCode: 'XYZ',
+            assetScale: 0,
+          },
+        },
+      },
+      deps
+    )
+    await app.listen()
+
+    const streamServer = await createServer({
+      plugin: bob2,
+    })
+
+    streamServer.on('connection', (connection: Connection) => {
+      connection.on('stream', (stream: DataAndMoneyStream) => {
+        stream.setReceiveMax(Long.MAX_UNSIGNED_VALUE)
+      })
+    })
+
+    const {
+      sharedSecret,
+      destinationAccount: destinationAddress,
+    } = streamServer.generateAddressAndSecret()
+
+    const amountToSend = new BigNumber(10_000)
+    const { pay, minExchangeRate } = await quote({
+      amountToSend,
+      destinationAddress,
+      sharedSecret,
+      plugin: alice1,
+      slippage: 1, // Disables rate enforcement
+      prices,
+    })
+    expect(minExchangeRate).toEqual(new BigNumber(0))
+
+    const receipt = await pay()
+    expect(receipt.error).toBeUndefined()
+    expect(receipt.amountSent).toEqual(amountToSend)
+    expect(receipt.amountDelivered.isGreaterThan(0))
+
+    await app.shutdown()
+    await streamServer.close()
+  })
+
+  it('splits source amount payment across multiple streams', async () => {
+    const [alice1, alice2] = MirrorPlugin.createPair()
+    const [bob1, bob2] = MirrorPlugin.createPair()
+
+    const app = createApp({
+      ilpAddress: 'test.larry',
+      backend: 'one-to-one',
+      spread: 0,
+      accounts: {
+        alice: {
+          relation: 'child',
+          plugin: alice2,
+          assetCode: 'USD',
+          assetScale: 2,
+          maxPacketAmount: '7',
+        },
+        bob: {
+          relation: 'child',
+          plugin: bob1,
+          assetCode: 'USD',
+          assetScale: 2,
+        },
+      },
+    })
+    await app.listen()
+
+    const streamServer = await createServer({
+      plugin: bob2,
+    })
+
+    const receivedByStream = new Map<number, number>()
+    streamServer.on('connection', (connection: Connection) => {
+      connection.on('stream', (stream: DataAndMoneyStream) => {
+        stream.setReceiveMax(Long.MAX_UNSIGNED_VALUE)
+        stream.on('money', () => {
+          receivedByStream.set(stream.id, +stream.totalReceived)
+        })
+      })
+    })
+
+    const {
+      sharedSecret,
+      destinationAccount: destinationAddress,
+    } = streamServer.generateAddressAndSecret()
+
+    // Amounts that aren't positive or are more precise than the source account are invalid
+    await expect(
+      quote({
+        streams: [{ amountToSend: 0.5 }, { amountToSend: 0.001 }],
+        destinationAddress,
+        sharedSecret,
+        plugin: alice1,
+        slippage: 1,
+        prices: {},
+      })
+    ).rejects.toBe(PaymentError.InvalidSourceAmount)
+
+    const { pay, maxSourceAmount } = await quote({
+      streams: [{ amountToSend: 0.5 }, { amountToSend: '0.23' }, { amountToSend: 1 }],
+      destinationAddress,
+      sharedSecret,
+      plugin: alice1,
+      slippage: 1,
+      prices: {},
+    })
+    expect(maxSourceAmount).toEqual(new BigNumber(1.73))
+
+    const receipt = await pay()
+    expect(receipt.error).toBeUndefined()
+    expect(receipt.amountSent).toEqual(new BigNumber(1.73))
+    expect(receipt.amountDelivered).toEqual(new BigNumber(1.73))
+    expect(receipt.streams).toEqual([
+      { streamId: 1, amountSent: new BigNumber(0.5), amountDelivered: new BigNumber(0.5) },
+      { streamId: 3, amountSent: new BigNumber(0.23), amountDelivered: new BigNumber(0.23) },
+      { streamId: 5, amountSent: new BigNumber(1), amountDelivered: new BigNumber(1) },
+    ])
+
+    expect(receivedByStream.get(1)).toBe(50)
+    expect(receivedByStream.get(3)).toBe(23)
+    expect(receivedByStream.get(5)).toBe(100)
+
+    await app.shutdown()
+    await streamServer.close()
+  })
+
+  it.todo('fails if receive max is incompatible')
+})
+
+describe('fixed delivery payments', () => {
+  it('delivers fixed destination amount with max packet amount', async () => {
+    const [alice1, alice2] = MirrorPlugin.createPair()
+    const [bob1, bob2] = MirrorPlugin.createPair()
+
+    const prices = {
+      USD: 1,
+      EUR: 1.0805787579827757,
+      BTC: 9290.22557286273,
+      ETH: 208.46218430418685,
+      XRP: 0.2199704769864391,
+      JPY: 0.00942729201037,
+      GBP: 1.2344993179391268,
+    }
+
+    // Override with rate backend for custom rates
+    let backend: CustomBackend
+    const deps = reduct((Constructor) => Constructor.name === 'RateBackend' && backend)
+    backend = new CustomBackend(deps)
+    backend.setPrices(prices)
+
+    const app = createApp(
+      {
+        ilpAddress: 'test.larry',
+        spread: 0.01, // 1% spread
+        accounts: {
+          alice: {
+            relation: 'child',
+            plugin: alice2,
+            assetCode: 'ETH',
+            assetScale: 9,
+            maxPacketAmount: '899898',
+          },
+          bob: {
+            relation: 'child',
+            plugin: bob1,
+            assetCode: 'BTC',
+            assetScale: 8,
+          },
+        },
+      },
+      deps
+    )
+    await app.listen()
+
+    const streamServer = await createServer({
+      plugin: bob2,
+    })
+
+    const amountToDeliver = 0.00107643 // $10 in BTC
+    const connectionPromise = streamServer.acceptConnection()
+    streamServer.on('connection', (connection: Connection) => {
+      connection.on('stream', (stream: DataAndMoneyStream) => {
+        stream.setReceiveMax(107643)
+      })
+    })
+
     const {
       sharedSecret,
       destinationAccount: destinationAddress,
     } = streamServer.generateAddressAndSecret()
 
-    // `ilp-connector` doesn't support 0 max packet amount,
-    // so use a custom middleware to test this
-    maxPacketPlugin.registerDataHandler(async (data) => {
-      const prepare = deserializeIlpPrepare(data)
-      if (+prepare.amount > 0) {
-        const writer = new Writer(16)
-        writer.writeUInt64(prepare.amount) // Amount received
-        writer.writeUInt64(0) // Maximum
-
-        return serializeIlpReject({
-          code: IlpError.F08_AMOUNT_TOO_LARGE,
-          message: '',
-          triggeredBy: '',
-          data: writer.getBuffer(),
-        })
-      } else {
-        return senderPlugin2.dataHandler(data)
-      }
+    const { pay, ...quoteDetails } = await quote({
+      amountToDeliver,
+      destinationAddress,
+      sharedSecret,
+      slippage: 0.015,
+      plugin: alice1,
+      prices,
     })
 
-    await expect(
-      quote({
-        plugin: senderPlugin1,
-        amountToSend: 100,
-        destinationAddress,
-        sharedSecret,
-      })
-    ).rejects.toBe(PaymentError.ConnectorError)
-    expect(!senderPlugin1.isConnected())
+    const receipt = await pay()
+
+    expect(receipt.error).toBeUndefined()
+
+    const serverConnection = await connectionPromise
+    const totalReceived = new BigNumber(serverConnection.totalReceived)
+    expect(+totalReceived).toBe(107643)
+    expect(+receipt.amountDelivered).toBe(0.00107643)
+    expect(+receipt.amountSent).toBeLessThanOrEqual(+quoteDetails.maxSourceAmount)
 
     await app.shutdown()
     await streamServer.close()
-  })
+  }, 10000)
 
-  it('fails if recipient never shared destination asset details', async () => {
-    const [senderPlugin, connectorPlugin] = MirrorPlugin.createPair()
+  it('delivers fixed destination amount with exchange rate greater than 1', async () => {
+    const prices = {
+      USD: 1,
+      EUR: 1.0805787579827757,
+      BTC: 9290.22557286273,
+      ETH: 208.46218430418685,
+      XRP: 0.2199704769864391,
+      JPY: 0.00942729201037,
+      GBP: 1.2344993179391268,
+    }
 
-    const app = createApp({
-      ilpAddress: 'private.larry',
-      backend: 'one-to-one',
-      spread: 0,
-      accounts: {
-        sender: {
-          relation: 'child',
-          assetCode: 'ABC',
-          assetScale: 3,
-          plugin: connectorPlugin,
+    // More complex topology with multiple conversions and sources of rounding error:
+    // BTC 8 -> USD 6 -> XRP 9
+
+    const [alicePlugin1, alicePlugin2] = MirrorPlugin.createPair(20, 30)
+    const [peerPlugin1, peerPlugin2] = MirrorPlugin.createPair(20, 30)
+    const [bobPlugin1, bobPlugin2] = MirrorPlugin.createPair(20, 30)
+
+    // Override with rate backend for custom rates
+    let aliceBackend: CustomBackend
+    const aliceDeps = reduct((Constructor) => Constructor.name === 'RateBackend' && aliceBackend)
+    aliceBackend = new CustomBackend(aliceDeps)
+    aliceBackend.setPrices(prices)
+
+    const aliceConnector = createApp(
+      {
+        ilpAddress: 'test.alice',
+        defaultRoute: 'bob',
+        spread: 0.005, // 0.5%
+        accounts: {
+          sender: {
+            relation: 'child',
+            plugin: alicePlugin2,
+            assetCode: 'BTC',
+            assetScale: 8,
+            // Tests multiple max packet amounts will get reduced
+            maxPacketAmount: '2000000', // 0.02 BTC (larger than $0.01)
+          },
+          bob: {
+            relation: 'peer',
+            plugin: peerPlugin1,
+            assetCode: 'USD',
+            assetScale: 6,
+          },
         },
       },
-    })
-    await app.listen()
+      aliceDeps
+    )
 
-    // If the recipient never tells us their destination asset,
-    // we can't enforce exchange rates, so it should fail.
+    // Override with rate backend for custom rates
+    let bobBackend: CustomBackend
+    const bobDeps = reduct((Constructor) => Constructor.name === 'RateBackend' && bobBackend)
+    bobBackend = new CustomBackend(bobDeps)
+    bobBackend.setPrices(prices)
 
-    // To test this, the STREAM sender sends packets to itself,
-    // which are all ACKed with F99 rejects. Since the "recipient"
-    // never replies with its asset details, the quote should fail
+    const bobConnector = createApp(
+      {
+        ilpAddress: 'test.bob',
+        spread: 0.0031, // 0.31%
+        accounts: {
+          alice: {
+            relation: 'peer',
+            plugin: peerPlugin2,
+            assetCode: 'USD',
+            assetScale: 6,
+            // Tests correct max packet amount computation in remote asset
+            maxPacketAmount: '10000' /* $0.01 */,
+          },
+          receiver: {
+            relation: 'child',
+            plugin: bobPlugin1,
+            assetCode: 'XRP',
+            assetScale: 9,
+          },
+        },
+      },
+      bobDeps
+    )
 
-    await expect(
-      quote({
-        plugin: senderPlugin,
-        amountToSend: 100,
-        destinationAddress: 'private.larry.sender',
-        sharedSecret: randomBytes(32),
+    await Promise.all([aliceConnector.listen(), bobConnector.listen()])
+
+    const streamServer = await createServer({
+      plugin: bobPlugin2,
+    })
+
+    const connectionPromise = streamServer.acceptConnection()
+    streamServer.on('connection', (connection: Connection) => {
+      connection.on('stream', (stream: DataAndMoneyStream) => {
+        stream.setReceiveMax(Infinity)
       })
-    ).rejects.toBe(PaymentError.UnknownDestinationAsset)
-    expect(!senderPlugin.isConnected())
+    })
 
-    await app.shutdown()
-  })
+    const {
+      sharedSecret,
+      destinationAccount: destinationAddress,
+    } = streamServer.generateAddressAndSecret()
 
-  it('fails if price api is unavailable', async () => {
-    const [senderPlugin1, senderPlugin2] = MirrorPlugin.createPair()
-    const [receiverPlugin1, receiverPlugin2] = MirrorPlugin.createPair()
+    // (1 - 0.031) * (1 - 0.005) => 0.9919155
 
-    const app = createApp({
-      ilpAddress: 'private.larry',
-      backend: 'one-to-one',
-      spread: 0,
-      accounts: {
-        sender: {
-          relation: 'child',
-          assetCode: 'JPY',
-          assetScale: 0,
-          plugin: senderPlugin2,
-        },
-        receiver: {
-          relation: 'child',
-          assetCode: 'GBP',
-          assetScale: 0,
-          plugin: receiverPlugin1,
-        },
-      },
-    })
-    await app.listen()
+    // Connector spread: 0.80845%
+    // Sender accepts up to: 0.85%
 
-    const streamServer = await createServer({
-      plugin: receiverPlugin2,
+    const amountToDeliver = 10 // 10 XRP, ~$2 at given prices
+    const { pay, ...quoteDetails } = await quote({
+      plugin: alicePlugin1,
+      amountToDeliver,
+      destinationAddress,
+      sharedSecret,
+      slippage: 0.0085,
+      prices,
     })
 
-    const tryQuote = async () => {
-      const {
-        sharedSecret,
-        destinationAccount: destinationAddress,
-      } = streamServer.generateAddressAndSecret()
+    const receipt = await pay()
 
-      await expect(
-        quote({
-          plugin: senderPlugin1,
-          amountToSend: 100,
-          destinationAddress,
-          sharedSecret,
-        })
-      ).rejects.toBe(PaymentError.ExternalRateUnavailable)
-      expect(!senderPlugin1.isConnected())
-    }
+    expect(receipt.error).toBeUndefined()
 
-    const response = {
-      timestamp: Date.now(),
-      data: [
-        {
-          symbol: 'JPY',
-          rateUsd: 1,
-        },
-        {
-          symbol: 'GBP',
-          priceUsd: 1,
-        },
-      ],
-    }
+    const serverConnection = await connectionPromise
+    const totalReceived = new BigNumber(serverConnection.totalReceived).shiftedBy(-9)
+    expect(receipt.amountDelivered).toEqual(totalReceived)
 
-    nock('https://api.coincap.io')
-      .get('/v2/assets')
-      .delay(7000)
-      .reply(200, response)
-      .get('/v2/rates')
-      .reply(200, response)
-    await tryQuote()
-    nock.cleanAll()
+    // Ensure at least the invoice amount was delivered
+    expect(+receipt.amountDelivered).toBeGreaterThanOrEqual(10)
 
-    nock('https://api.coincap.io')
-      .get('/v2/rates')
-      .reply(400)
-      .get('/v2/assets')
-      .reply(200, response)
-    await tryQuote()
-    nock.cleanAll()
+    // Ensure over-delivery is minimized to the equivalent of a single source unit, 1 satoshi:
+    const maxOverDeliveryAmount = new BigNumber(1)
+      .shiftedBy(-8) // Sats -> BTC
+      .times(quoteDetails.minExchangeRate) // BTC -> XRP
+      .shiftedBy(9) // XRP -> drops
+      .integerValue(BigNumber.ROUND_CEIL)
+      .shiftedBy(-9) // Drops -> XRP
+      .plus(amountToDeliver)
+    expect(+receipt.amountDelivered).toBeLessThanOrEqual(+maxOverDeliveryAmount)
 
-    await app.shutdown()
-    await streamServer.close()
+    expect(+receipt.amountSent).toBeLessThanOrEqual(+quoteDetails.maxSourceAmount)
 
-    nock.abortPendingRequests()
-  })
+    await aliceConnector.shutdown()
+    await bobConnector.shutdown()
 
-  it('fails if no external price for the source asset exists', async () => {
+    await streamServer.close()
+  }, 10000)
+
+  // TODO This should error during the quoting flow, but JS stream only returns `StreamMaxMoney` if the packet sent money!
+  it('fails if receive max is incompatible on fixed delivery payment', async () => {
     const [senderPlugin1, senderPlugin2] = MirrorPlugin.createPair()
     const [receiverPlugin1, receiverPlugin2] = MirrorPlugin.createPair()
 
@@ -1177,14 +3373,14 @@ describe('quoting flow', () => {
       accounts: {
         sender: {
           relation: 'child',
-          assetCode: 'some really weird currency',
-          assetScale: 0,
+          assetCode: 'ABC',
+          assetScale: 4,
           plugin: senderPlugin2,
         },
         receiver: {
           relation: 'child',
           assetCode: 'ABC',
-          assetScale: 0,
+          assetScale: 4,
           plugin: receiverPlugin1,
         },
       },
@@ -1195,44 +3391,52 @@ describe('quoting flow', () => {
       plugin: receiverPlugin2,
     })
 
+    // Stream can receive up to 98, but we want to deliver 100
+    streamServer.on('connection', (connection: Connection) => {
+      connection.on('stream', (stream: DataAndMoneyStream) => {
+        stream.setReceiveMax(98)
+      })
+    })
+
     const {
       sharedSecret,
       destinationAccount: destinationAddress,
     } = streamServer.generateAddressAndSecret()
 
-    await expect(
-      quote({
-        plugin: senderPlugin1,
-        amountToSend: 100,
-        destinationAddress,
-        sharedSecret,
-      })
-    ).rejects.toBe(PaymentError.ExternalRateUnavailable)
-    expect(!senderPlugin1.isConnected())
+    const { pay } = await quote({
+      plugin: senderPlugin1,
+      amountToDeliver: 100,
+      destinationAddress,
+      sharedSecret,
+    })
+
+    const receipt = await pay()
+    expect(receipt.error).toBe(PaymentError.IncompatibleReceiveMax)
 
     await app.shutdown()
     await streamServer.close()
   })
 
-  it('fails if no external price for the destination asset exists', async () => {
+  it('fails if minimum exchange rate is 0 and cannot enforce delivery', async () => {
     const [senderPlugin1, senderPlugin2] = MirrorPlugin.createPair()
     const [receiverPlugin1, receiverPlugin2] = MirrorPlugin.createPair()
 
     const app = createApp({
       ilpAddress: 'private.larry',
+      defaultRoute: 'receiver',
       backend: 'one-to-one',
       spread: 0,
       accounts: {
         sender: {
           relation: 'child',
-          assetCode: 'USD',
-          assetScale: 3,
+          assetCode: 'ABC',
+          assetScale: 4,
           plugin: senderPlugin2,
         },
         receiver: {
           relation: 'child',
-          assetCode: 'THIS_ASSET_CODE_DOES_NOT_EXIST',
-          assetScale: 3,
+          assetCode: 'XYZ',
+          assetScale: 2,
           plugin: receiverPlugin1,
         },
       },
@@ -1243,6 +3447,12 @@ describe('quoting flow', () => {
       plugin: receiverPlugin2,
     })
 
+    streamServer.on('connection', (connection: Connection) => {
+      connection.on('stream', (stream: DataAndMoneyStream) => {
+        stream.setReceiveMax(Infinity)
+      })
+    })
+
     const {
       sharedSecret,
       destinationAccount: destinationAddress,
@@ -1251,35 +3461,40 @@ describe('quoting flow', () => {
     await expect(
       quote({
         plugin: senderPlugin1,
-        amountToSend: 303.222,
+        amountToDeliver: 10000,
         destinationAddress,
         sharedSecret,
+        slippage: 1,
+        prices: {
+          ABC: 1,
+          XYZ: 1,
+        },
       })
-    ).rejects.toBe(PaymentError.ExternalRateUnavailable)
-    expect(!senderPlugin1.isConnected())
+    ).rejects.toBe(PaymentError.UnenforceableDelivery)
 
     await app.shutdown()
     await streamServer.close()
   })
 
-  it('fails if the external exchange rate is 0', async () => {
+  it('accounts for fulfilled packets even if data is corrupted', async () => {
     const [senderPlugin1, senderPlugin2] = MirrorPlugin.createPair()
     const [receiverPlugin1, receiverPlugin2] = MirrorPlugin.createPair()
 
     const app = createApp({
       ilpAddress: 'private.larry',
       backend: 'one-to-one',
-      spread: 0,
+      spread: 0.01,
       accounts: {
         sender: {
           relation: 'child',
           assetCode: 'ABC',
           assetScale: 0,
           plugin: senderPlugin2,
+          maxPacketAmount: '20',
         },
         receiver: {
           relation: 'child',
-          assetCode: 'XYZ',
+          assetCode: 'ABC',
           assetScale: 0,
           plugin: receiverPlugin1,
         },
@@ -1287,90 +3502,148 @@ describe('quoting flow', () => {
     })
     await app.listen()
 
-    const streamServer = await createServer({
-      plugin: receiverPlugin2,
+    const destinationAddress = 'private.larry.receiver'
+    const sharedSecret = randomBytes(32)
+
+    const encryptionKey = await generatePskEncryptionKey(sharedSecret)
+    const fulfillmentKey = await generateFulfillmentKey(sharedSecret)
+
+    // STREAM "receiver" that just fulfills packets
+    let totalReceived = 0
+    receiverPlugin2.registerDataHandler(async (data) => {
+      const prepare = deserializeIlpPrepare(data)
+
+      const fulfillment = await generateFulfillment(fulfillmentKey, prepare.data)
+      const isFulfillable = prepare.executionCondition.equals(await hash(fulfillment))
+
+      const streamPacket = await Packet.decryptAndDeserialize(encryptionKey, prepare.data)
+
+      if (isFulfillable) {
+        // On fulfillable packets, fulfill *without valid STREAM data*
+        totalReceived += +streamPacket.prepareAmount
+        return serializeIlpFulfill({
+          fulfillment,
+          data: randomBytes(200),
+        })
+      } else {
+        // On test packets, reject and ACK as normal so the quote succeeds
+        const reject = new Packet(streamPacket.sequence, IlpPacketType.Reject, prepare.amount, [
+          new ConnectionAssetDetailsFrame('ABC', 0),
+        ])
+        return serializeIlpReject({
+          code: IlpError.F99_APPLICATION_ERROR,
+          message: '',
+          triggeredBy: '',
+          data: await reject.serializeAndEncrypt(encryptionKey),
+        })
+      }
     })
 
-    const {
+    const { pay, ...quoteDetails } = await quote({
+      plugin: senderPlugin1,
+      // Amount much larger than max packet, so test will fail unless sender fails fast
+      amountToDeliver: 1000000,
+      destinationAddress,
       sharedSecret,
-      destinationAccount: destinationAddress,
-    } = streamServer.generateAddressAndSecret()
+      slippage: 0.1,
+      prices: {},
+    })
 
-    await expect(
-      quote({
-        plugin: senderPlugin1,
-        amountToSend: '1000',
-        destinationAddress,
-        sharedSecret,
-        prices: {
-          // Computing this rate would be a divide-by-0 error,
-          // so the rate is "unavailable" rather than quoted as 0
-          ABC: 1,
-          XYZ: 0,
-        },
-      })
-    ).rejects.toBe(PaymentError.ExternalRateUnavailable)
-    expect(!senderPlugin1.isConnected())
+    const receipt = await pay()
+    expect(receipt.error).toBe(PaymentError.ReceiverProtocolViolation)
+    expect(+receipt.amountDelivered).toEqual(totalReceived)
+    expect(+receipt.amountSent).toBeLessThanOrEqual(+quoteDetails.maxSourceAmount)
 
     await app.shutdown()
-    await streamServer.close()
-  })
+  }, 10000)
 
-  it('fails it the probed rate is below the minimum rate', async () => {
+  it('accounts for delivered amounts if the recipient claims to receive less than minimum', async () => {
     const [senderPlugin1, senderPlugin2] = MirrorPlugin.createPair()
     const [receiverPlugin1, receiverPlugin2] = MirrorPlugin.createPair()
 
     const app = createApp({
       ilpAddress: 'private.larry',
       backend: 'one-to-one',
-      spread: 0.02,
+      spread: 0,
       accounts: {
         sender: {
           relation: 'child',
           assetCode: 'ABC',
-          assetScale: 4,
+          assetScale: 0,
           plugin: senderPlugin2,
+          maxPacketAmount: '20',
         },
         receiver: {
           relation: 'child',
           assetCode: 'ABC',
-          assetScale: 4,
+          assetScale: 0,
           plugin: receiverPlugin1,
         },
       },
     })
     await app.listen()
 
-    const streamServer = await createServer({
-      plugin: receiverPlugin2,
+    const destinationAddress = 'private.larry.receiver'
+    const sharedSecret = randomBytes(32)
+
+    const encryptionKey = await generatePskEncryptionKey(sharedSecret)
+    const fulfillmentKey = await generateFulfillmentKey(sharedSecret)
+
+    // STREAM "receiver" that fulfills packets
+    let totalReceived = 0
+    receiverPlugin2.registerDataHandler(async (data) => {
+      const prepare = deserializeIlpPrepare(data)
+
+      const fulfillment = await generateFulfillment(fulfillmentKey, prepare.data)
+      const isFulfillable = prepare.executionCondition.equals(await hash(fulfillment))
+
+      const streamPacket = await Packet.decryptAndDeserialize(encryptionKey, prepare.data)
+
+      if (isFulfillable) {
+        // On fulfillable packets, fulfill, but lie and say we only received 1 unit
+        totalReceived += +streamPacket.prepareAmount
+        const streamReply = new Packet(streamPacket.sequence, IlpPacketType.Fulfill, 1)
+        return serializeIlpFulfill({
+          fulfillment,
+          data: await streamReply.serializeAndEncrypt(encryptionKey),
+        })
+      } else {
+        // On test packets, reject and ACK as normal so the quote succeeds
+        const reject = new Packet(streamPacket.sequence, IlpPacketType.Reject, prepare.amount, [
+          new ConnectionAssetDetailsFrame('ABC', 0),
+        ])
+        return serializeIlpReject({
+          code: IlpError.F99_APPLICATION_ERROR,
+          message: '',
+          triggeredBy: '',
+          data: await reject.serializeAndEncrypt(encryptionKey),
+        })
+      }
     })
 
-    const {
+    const { pay, ...quoteDetails } = await quote({
+      plugin: senderPlugin1,
+      // Amount much larger than max packet, so test will fail unless sender fails fast
+      amountToDeliver: 100000,
+      destinationAddress,
       sharedSecret,
-      destinationAccount: destinationAddress,
-    } = streamServer.generateAddressAndSecret()
+      slippage: 0.2,
+    })
 
-    await expect(
-      quote({
-        plugin: senderPlugin1,
-        amountToSend: '1000',
-        destinationAddress,
-        sharedSecret,
-        slippage: 0.01,
-      })
-    ).rejects.toBe(PaymentError.InsufficientExchangeRate)
-    expect(!senderPlugin1.isConnected())
+    const receipt = await pay()
+    expect(receipt.error).toBe(PaymentError.ReceiverProtocolViolation)
+    expect(+receipt.amountDelivered).toEqual(totalReceived)
+    expect(+receipt.amountSent).toBeLessThanOrEqual(+quoteDetails.maxSourceAmount)
 
     await app.shutdown()
-    await streamServer.close()
   })
 
-  it('fails if the probed rate is 0', async () => {
+  it('fails if the exchange rate drops to 0 during the payment', async () => {
     const [senderPlugin1, senderPlugin2] = MirrorPlugin.createPair()
     const [receiverPlugin1, receiverPlugin2] = MirrorPlugin.createPair()
 
     const prices = {
-      BTC: 9814.04,
+      USD: 1,
       EUR: 1.13,
     }
 
@@ -1382,21 +3655,21 @@ describe('quoting flow', () => {
 
     const app = createApp(
       {
-        ilpAddress: 'private.larry',
-        // All packets here should round down to 0 EUR
+        ilpAddress: 'test.larry',
+        spread: 0.01, // 1% spread
         accounts: {
-          sender: {
+          alice: {
             relation: 'child',
-            assetCode: 'BTC',
-            assetScale: 8,
             plugin: senderPlugin2,
-            maxPacketAmount: '1000',
+            assetCode: 'USD',
+            assetScale: 4,
+            maxPacketAmount: '10000', // $1
           },
-          receiver: {
+          bob: {
             relation: 'child',
-            assetCode: 'EUR',
-            assetScale: 0,
             plugin: receiverPlugin1,
+            assetCode: 'EUR',
+            assetScale: 4,
           },
         },
       },
@@ -1408,32 +3681,48 @@ describe('quoting flow', () => {
       plugin: receiverPlugin2,
     })
 
+    const connectionPromise = streamServer.acceptConnection()
+    streamServer.on('connection', (connection: Connection) => {
+      connection.on('stream', (stream: DataAndMoneyStream) => {
+        stream.setReceiveMax(Infinity)
+      })
+    })
+
     const {
       sharedSecret,
       destinationAccount: destinationAddress,
     } = streamServer.generateAddressAndSecret()
 
-    await expect(
-      quote({
-        plugin: senderPlugin1,
-        amountToSend: '1000',
-        destinationAddress,
-        sharedSecret,
-        prices,
-      })
-    ).rejects.toBe(PaymentError.InsufficientExchangeRate)
-    expect(!senderPlugin1.isConnected())
+    const { pay, ...quoteDetails } = await quote({
+      amountToDeliver: 10, // 10 EUR
+      destinationAddress,
+      sharedSecret,
+      slippage: 0.015, // 1.5% slippage allowed
+      plugin: senderPlugin1,
+      prices,
+    })
+
+    const serverConnection = await connectionPromise
+
+    // Change exchange rate to 0 before the payment begins
+    backend.setSpread(1)
+
+    const receipt = await pay()
+    expect(receipt.error).toBe(PaymentError.InsufficientExchangeRate)
+    expect(+receipt.amountDelivered).toBe(0)
+    expect(+receipt.amountDelivered).toBe(+serverConnection.totalReceived / 10000)
+    expect(+receipt.amountSent).toBeLessThanOrEqual(+quoteDetails.maxSourceAmount)
 
     await app.shutdown()
     await streamServer.close()
   })
 
-  it('fails if min rate and max packet amount would cause rounding errors', async () => {
-    const [senderPlugin1, senderPlugin2] = MirrorPlugin.createPair()
-    const [receiverPlugin1, receiverPlugin2] = MirrorPlugin.createPair()
+  it('fails if the exchange rate drops below the minimum during the payment', async () => {
+    const [senderPlugin1, senderPlugin2] = MirrorPlugin.createPair(200, 200)
+    const [receiverPlugin1, receiverPlugin2] = MirrorPlugin.createPair(200, 200)
 
     const prices = {
-      BTC: 9814.04,
+      USD: 1,
       EUR: 1.13,
     }
 
@@ -1445,21 +3734,21 @@ describe('quoting flow', () => {
 
     const app = createApp(
       {
-        ilpAddress: 'private.larry',
-        spread: 0.0005,
+        ilpAddress: 'test.larry',
+        spread: 0.01, // 1% spread
         accounts: {
-          sender: {
+          alice: {
             relation: 'child',
-            assetCode: 'BTC',
-            assetScale: 8,
             plugin: senderPlugin2,
-            maxPacketAmount: '1000',
+            assetCode: 'USD',
+            assetScale: 4,
+            maxPacketAmount: '10000', // $1
           },
-          receiver: {
+          bob: {
             relation: 'child',
-            assetCode: 'EUR',
-            assetScale: 6,
             plugin: receiverPlugin1,
+            assetCode: 'EUR',
+            assetScale: 4,
           },
         },
       },
@@ -1471,37 +3760,51 @@ describe('quoting flow', () => {
       plugin: receiverPlugin2,
     })
 
+    const connectionPromise = streamServer.acceptConnection()
+    streamServer.on('connection', (connection: Connection) => {
+      connection.on('stream', (stream: DataAndMoneyStream) => {
+        stream.setReceiveMax(Infinity)
+
+        stream.on('money', () => {
+          // Change exchange rate so it's just below the minimum
+          // Only the first packets that have already been routed will be delivered
+          backend.setSpread(0.016)
+        })
+      })
+    })
+
     const {
       sharedSecret,
       destinationAccount: destinationAddress,
     } = streamServer.generateAddressAndSecret()
 
-    await expect(
-      quote({
-        plugin: senderPlugin1,
-        amountToSend: 100_000,
-        destinationAddress,
-        sharedSecret,
-        // Slippage/minExchangeRate is far too close to the real spread/rate
-        // to perform the payment without rounding errors, since the max packet
-        // amount of 1000 doesn't allow more precision.
-        slippage: 0.00051,
-        prices,
-      })
-    ).rejects.toBe(PaymentError.ExchangeRateRoundingError)
-    expect(!senderPlugin1.isConnected())
+    const { pay, ...quoteDetails } = await quote({
+      amountToDeliver: 10, // 10 EUR
+      destinationAddress,
+      sharedSecret,
+      slippage: 0.015, // 1.5% slippage allowed
+      plugin: senderPlugin1,
+      prices,
+    })
+
+    const serverConnection = await connectionPromise
+
+    const receipt = await pay()
+    expect(receipt.error).toBe(PaymentError.InsufficientExchangeRate)
+    expect(+receipt.amountDelivered).toBeLessThan(10)
+    expect(+receipt.amountDelivered).toBe(+serverConnection.totalReceived / 10000)
+    expect(+receipt.amountSent).toBeLessThanOrEqual(+quoteDetails.maxSourceAmount)
 
     await app.shutdown()
     await streamServer.close()
   })
+})
 
-  it('discovers precise max packet amount from F08s without metadata', async () => {
+describe('payment execution', () => {
+  it('records metrics of packets, round trips, quotes, and payments', async () => {
     const [senderPlugin1, senderPlugin2] = MirrorPlugin.createPair()
     const [receiverPlugin1, receiverPlugin2] = MirrorPlugin.createPair()
 
-    const streamServerPlugin = new MirrorPlugin()
-    streamServerPlugin.mirror = receiverPlugin1
-
     const app = createApp({
       ilpAddress: 'private.larry',
       backend: 'one-to-one',
@@ -1509,16 +3812,15 @@ describe('quoting flow', () => {
       accounts: {
         sender: {
           relation: 'child',
-          assetCode: 'ABC',
-          assetScale: 0,
+          assetCode: 'USD',
+          assetScale: 2,
           plugin: senderPlugin2,
-          // This tests the max packet state transition from precise -> imprecise
-          maxPacketAmount: '1000000',
+          maxPacketAmount: '1000',
         },
         receiver: {
           relation: 'child',
-          assetCode: 'ABC',
-          assetScale: 0,
+          assetCode: 'USD',
+          assetScale: 2,
           plugin: receiverPlugin1,
         },
       },
@@ -1526,203 +3828,210 @@ describe('quoting flow', () => {
     await app.listen()
 
     const streamServer = await createServer({
-      plugin: streamServerPlugin,
+      plugin: receiverPlugin2,
     })
-
     streamServer.on('connection', (connection: Connection) => {
       connection.on('stream', (stream: DataAndMoneyStream) => {
-        stream.setReceiveMax(Infinity)
+        stream.setReceiveMax(Long.MAX_UNSIGNED_VALUE)
       })
     })
 
-    const maxPacketAmount = 300324
-    let largestAmountReceived = 0
-
-    // Add middleware to return F08 errors *without* metadata
-    // and track the greatest packet amount that's sent
-    receiverPlugin2.registerDataHandler(async (data) => {
-      const prepare = deserializeIlpPrepare(data)
-      if (+prepare.amount > maxPacketAmount) {
-        return serializeIlpReject({
-          code: IlpError.F08_AMOUNT_TOO_LARGE,
-          message: '',
-          triggeredBy: '',
-          data: Buffer.alloc(0),
-        })
-      } else {
-        largestAmountReceived = Math.max(largestAmountReceived, +prepare.amount)
-        return streamServerPlugin.dataHandler(data)
-      }
-    })
+    const counters: { name: string; value: number; labels: MetricLabels }[] = []
+    const observations: { name: string; value: number; labels: MetricLabels }[] = []
+    const metrics: PaymentMetrics = {
+      increment: (name, value, labels) => counters.push({ name, value, labels }),
+      observe: (name, value, labels) => observations.push({ name, value, labels }),
+    }
 
     const {
       sharedSecret,
       destinationAccount: destinationAddress,
     } = streamServer.generateAddressAndSecret()
-
-    const { cancel } = await quote({
+    const { pay } = await quote({
       plugin: senderPlugin1,
-      amountToSend: 40_000_000,
-      sharedSecret,
+      amountToSend: 45,
       destinationAddress,
+      sharedSecret,
+      slippage: 1,
+      metrics,
     })
 
-    await cancel()
+    const quoteDurations = observations.filter(({ name }) => name === PaymentMetric.QuoteDuration)
+    expect(quoteDurations).toEqual([
+      {
+        name: PaymentMetric.QuoteDuration,
+        value: expect.any(Number),
+        labels: { result: 'success' },
+      },
+    ])
+
+    // Rate probe packets are unfulfillable and rejected by the recipient
+    const count = (name: PaymentMetric, labels: MetricLabels = {}) =>
+      counters
+        .filter(
+          (c) => c.name === name && Object.entries(labels).every(([k, v]) => c.labels[k] === v)
+        )
+        .reduce((sum, { value }) => sum + value, 0)
+    expect(count(PaymentMetric.PacketsSent, { fulfillable: 'true' })).toBe(0)
+    expect(count(PaymentMetric.PacketsSent, { fulfillable: 'false' })).toBeGreaterThan(0)
+    expect(count(PaymentMetric.PacketsRejected, { code: 'F99' })).toBeGreaterThan(0)
+    expect(count(PaymentMetric.PacketsRejected, { code: 'F08' })).toBeGreaterThan(0)
 
-    // If STREAM did discover the max packet amount,
-    // since the rate is 1:1, the largest packet the receiver got
-    // should be exactly the max packet amount
-    expect(largestAmountReceived).toBe(maxPacketAmount)
+    const receipt = await pay()
+    expect(receipt.error).toBeUndefined()
 
-    await app.shutdown()
-    await streamServer.close()
-  }, 10000)
+    // Each 10.00 packet is fulfilled, then the connection is closed with an unfulfillable packet
+    expect(count(PaymentMetric.PacketsSent, { fulfillable: 'true' })).toBe(5)
+    expect(count(PaymentMetric.PacketsFulfilled)).toBe(5)
+    expect(count(PaymentMetric.PacketsSent)).toBe(
+      count(PaymentMetric.PacketsFulfilled) + count(PaymentMetric.PacketsRejected)
+    )
 
-  it.todo('works if theres no max packet amount without sending max u64 packets')
-})
+    const roundTrips = observations.filter(({ name }) => name === PaymentMetric.RoundTripTime)
+    expect(roundTrips.length).toBeGreaterThanOrEqual(5)
+    expect(roundTrips.every(({ value }) => value >= 0 && value < 5)).toBe(true)
 
-describe('fixed source payments', () => {
-  it('completes source amount payment with max packet amount', async () => {
-    const [alice1, alice2] = MirrorPlugin.createPair()
-    const [bob1, bob2] = MirrorPlugin.createPair()
+    expect(observations.filter(({ name }) => name === PaymentMetric.PaymentDuration)).toEqual([
+      {
+        name: PaymentMetric.PaymentDuration,
+        value: expect.any(Number),
+        labels: { result: 'success' },
+      },
+    ])
 
-    const prices = {
-      USD: 1,
-      XRP: 0.2041930991198592,
-    }
+    await app.shutdown()
+    await streamServer.close()
+  })
 
-    // Override with rate backend for custom rates
-    let backend: CustomBackend
-    const deps = reduct((Constructor) => Constructor.name === 'RateBackend' && backend)
-    backend = new CustomBackend(deps)
-    backend.setPrices(prices)
+  it('fails on final Reject errors', async () => {
+    const [senderPlugin, receiverPlugin] = MirrorPlugin.createPair()
 
-    const app = createApp(
-      {
-        ilpAddress: 'test.larry',
-        spread: 0.014, // 1.4% slippage
-        accounts: {
-          alice: {
-            relation: 'child',
-            plugin: alice2,
-            assetCode: 'USD',
-            assetScale: 6,
-            maxPacketAmount: '5454',
-          },
-          bob: {
-            relation: 'child',
-            plugin: bob1,
-            assetCode: 'XRP',
-            assetScale: 9,
-          },
+    const app = createApp({
+      ilpAddress: 'private.larry',
+      backend: 'one-to-one',
+      spread: 0,
+      accounts: {
+        default: {
+          relation: 'child',
+          assetCode: 'ABC',
+          assetScale: 0,
+          plugin: receiverPlugin,
         },
       },
-      deps
-    )
-    await app.listen()
-
-    const streamServer = await createServer({
-      plugin: bob2,
     })
+    await app.listen()
 
-    const connectionPromise = streamServer.acceptConnection()
-    streamServer.on('connection', (connection: Connection) => {
-      connection.on('stream', (stream: DataAndMoneyStream) => {
-        stream.setReceiveMax(Long.MAX_UNSIGNED_VALUE)
+    await expect(
+      quote({
+        plugin: senderPlugin,
+        amountToSend: 10,
+        destinationAddress: 'private.unknown', // Non-routable address
+        sharedSecret: Buffer.alloc(32),
       })
-    })
-
-    const {
-      sharedSecret,
-      destinationAccount: destinationAddress,
-    } = streamServer.generateAddressAndSecret()
-
-    const amountToSend = new BigNumber(1.00427)
-    const { pay, ...quoteDetails } = await quote({
-      amountToSend,
-      destinationAddress,
-      sharedSecret,
-      plugin: alice1,
-      slippage: 0.015,
-      prices,
-    })
-
-    expect(quoteDetails.sourceAccount).toEqual({
-      assetCode: 'USD',
-      assetScale: 6,
-      ilpAddress: 'test.larry.alice',
-    })
-    expect(quoteDetails.destinationAccount).toEqual({
-      assetCode: 'XRP',
-      assetScale: 9,
-      ilpAddress: destinationAddress,
-    })
-    expect(quoteDetails.maxSourceAmount).toEqual(amountToSend)
-
-    const receipt = await pay()
-
-    expect(receipt.error).toBeUndefined()
-
-    const serverConnection = await connectionPromise
-    expect(new BigNumber(serverConnection.totalReceived)).toEqual(
-      receipt.amountDelivered.shiftedBy(9)
-    )
-    expect(receipt.amountSent).toEqual(amountToSend)
+    ).rejects.toBe(PaymentError.ConnectorError)
 
     await app.shutdown()
-    await streamServer.close()
-  }, 10000)
+  })
 
-  it('completes source amount payment if exchange rate is very close to minimum', async () => {
-    const [senderPlugin1, finalPacketPlugin] = MirrorPlugin.createPair()
+  it('handles plugin disconnect errors', async () => {
+    const plugin = {
+      async connect() {},
+      async disconnect() {
+        throw new Error('Failed to disconnect')
+      },
+      async sendData() {
+        return Buffer.alloc(0)
+      },
+      registerDataHandler() {},
+      deregisterDataHandler() {},
+      isConnected() {
+        return true
+      },
+    }
 
-    const senderPlugin2 = new MirrorPlugin()
-    senderPlugin2.mirror = senderPlugin1
+    await expect(
+      quote({ plugin, sharedSecret: Buffer.alloc(32), destinationAddress: 'private.foo' })
+    ).rejects.toBe(PaymentError.UnknownSourceAsset)
+  })
 
+  it('handles invalid F08 errors', async () => {
+    const [senderPlugin1, senderPlugin2] = MirrorPlugin.createPair()
     const [receiverPlugin1, receiverPlugin2] = MirrorPlugin.createPair()
 
-    const prices = {
-      BTC: 9814.04,
-      EUR: 1.13,
-    }
-
-    // Override with rate backend for custom rates
-    let backend: CustomBackend
-    const deps = reduct((Constructor) => Constructor.name === 'RateBackend' && backend)
-    backend = new CustomBackend(deps)
-    backend.setPrices(prices)
+    const streamServerPlugin = new MirrorPlugin()
+    streamServerPlugin.mirror = receiverPlugin1
 
-    const app = createApp(
-      {
-        ilpAddress: 'private.larry',
-        spread: 0,
-        accounts: {
-          sender: {
-            relation: 'child',
-            assetCode: 'BTC',
-            assetScale: 8,
-            plugin: senderPlugin2,
-            maxPacketAmount: '1000',
-          },
-          receiver: {
-            relation: 'child',
-            assetCode: 'EUR',
-            assetScale: 4,
-            plugin: receiverPlugin1,
-          },
+    const app = createApp({
+      ilpAddress: 'test.larry',
+      backend: 'one-to-one',
+      spread: 0,
+      accounts: {
+        alice: {
+          relation: 'child',
+          plugin: senderPlugin2,
+          assetCode: 'USD',
+          assetScale: 2,
+          maxPacketAmount: '10', // $0.10
+        },
+        bob: {
+          relation: 'child',
+          plugin: receiverPlugin1,
+          assetCode: 'USD',
+          assetScale: 2,
         },
       },
-      deps
-    )
+    })
     await app.listen()
 
+    // On the first & second packets, reply with an invalid F08: amount received <= maximum.
+    // This checks against a potential divide-by-0 error
+    let sentFirstInvalidReply = false
+    let sentSecondInvalidReply = false
+    receiverPlugin2.registerDataHandler(async (data) => {
+      if (!sentFirstInvalidReply) {
+        sentFirstInvalidReply = true
+
+        const writer = new Writer(16)
+        writer.writeUInt64(0) // Amount received
+        writer.writeUInt64(1) // Maximum
+
+        return serializeIlpReject({
+          code: IlpError.F08_AMOUNT_TOO_LARGE,
+          message: '',
+          triggeredBy: '',
+          data: writer.getBuffer(),
+        })
+      } else if (!sentSecondInvalidReply) {
+        sentSecondInvalidReply = true
+
+        const writer = new Writer(16)
+        writer.writeUInt64(1) // Amount received
+        writer.writeUInt64(1) // Maximum
+
+        return serializeIlpReject({
+          code: IlpError.F08_AMOUNT_TOO_LARGE,
+          message: '',
+          triggeredBy: '',
+          data: writer.getBuffer(),
+        })
+      } else {
+        return streamServerPlugin.dataHandler(data)
+      }
+    })
+
     const streamServer = await createServer({
-      plugin: receiverPlugin2,
+      plugin: streamServerPlugin,
     })
 
     streamServer.on('connection', (connection: Connection) => {
       connection.on('stream', (stream: DataAndMoneyStream) => {
         stream.setReceiveMax(Infinity)
+
+        stream.on('money', (amount: string) => {
+          // Test that it ignores the invalid F08, and uses
+          // the max packet amount of 10
+          expect(amount).toBe('10')
+        })
       })
     })
 
@@ -1731,100 +4040,76 @@ describe('fixed source payments', () => {
       destinationAccount: destinationAddress,
     } = streamServer.generateAddressAndSecret()
 
-    // On the final packet, reject. This tests that the delivery shortfall
-    // correctly gets refunded, and after the packet is retried,
-    // the payment completes.
-    let failedOnFinalPacket = false
-    finalPacketPlugin.registerDataHandler(async (data) => {
-      const prepare = deserializeIlpPrepare(data)
-      if (prepare.amount === '2' && !failedOnFinalPacket) {
-        failedOnFinalPacket = true
-        return serializeIlpReject({
-          code: IlpError.T02_PEER_BUSY,
-          message: '',
-          triggeredBy: '',
-          data: Buffer.alloc(0),
-        })
-      } else {
-        return senderPlugin2.dataHandler(data)
-      }
-    })
-
-    const { pay, ...details } = await quote({
-      plugin: senderPlugin1,
-      // Send 100,002 sats
-      // Max packet amount of 1000 means the final packet will try to send 2 units
-      // This rounds down to 0, but the delivery shortfall should ensure this is acceptable
-      amountToSend: 0.00100002,
+    const { pay } = await quote({
+      amountToSend: new BigNumber(1),
       destinationAddress,
       sharedSecret,
-      slippage: 0.002,
-      prices,
+      plugin: senderPlugin1,
+      slippage: 1,
+      prices: {},
     })
-    expect(+details.maxSourceAmount).toBe(0.00100002)
-
     const receipt = await pay()
     expect(receipt.error).toBeUndefined()
-    expect(+receipt.amountSent).toBe(0.00100002)
-    expect(+receipt.amountDelivered).toBeGreaterThanOrEqual(+details.minDeliveryAmount)
+    expect(+receipt.amountSent).toEqual(1)
+    expect(+receipt.amountDelivered).toEqual(1)
 
     await app.shutdown()
     await streamServer.close()
   })
 
-  it('complete source amount payment with no latency', async () => {
-    const [alice1, alice2] = MirrorPlugin.createPair(0, 0)
-    const [bob1, bob2] = MirrorPlugin.createPair(0, 0)
-
-    const prices = await fetchCoinCapRates()
+  it('retries transient routing errors within the budget', async () => {
+    const [senderPlugin1, senderPlugin2] = MirrorPlugin.createPair()
+    const [receiverPlugin1, receiverPlugin2] = MirrorPlugin.createPair()
 
-    // Override with rate backend for custom rates
-    let backend: CustomBackend
-    const deps = reduct((Constructor) => Constructor.name === 'RateBackend' && backend)
-    backend = new CustomBackend(deps)
-    backend.setPrices(prices)
+    const streamServerPlugin = new MirrorPlugin()
+    streamServerPlugin.mirror = receiverPlugin1
 
-    const app = createApp(
-      {
-        ilpAddress: 'test.larry',
-        spread: 0,
-        accounts: {
-          alice: {
-            relation: 'child',
-            plugin: alice2,
-            assetCode: 'XYZ',
-            assetScale: 0,
-            maxPacketAmount: '1',
-          },
-          bob: {
-            relation: 'child',
-            plugin: bob1,
-            assetCode: 'XYZ',
-            assetScale: 0,
-          },
+    const app = createApp({
+      ilpAddress: 'test.larry',
+      backend: 'one-to-one',
+      spread: 0,
+      accounts: {
+        alice: {
+          relation: 'child',
+          plugin: senderPlugin2,
+          assetCode: 'USD',
+          assetScale: 2,
+          maxPacketAmount: '10', // $0.10
+        },
+        bob: {
+          relation: 'child',
+          plugin: receiverPlugin1,
+          assetCode: 'USD',
+          assetScale: 2,
         },
       },
-      deps
-    )
+    })
     await app.listen()
 
-    // Waiting before fulfilling packets tests whether the number of packets in-flight is capped
-    // and tests the greatest number of packets that are sent in-flight at once
-    let numberPacketsInFlight = 0
-    let highestNumberPacketsInFlight = 0
+    // After the quote, reject the first 2 packets with F02 errors
+    let injectErrors = false
+    let numberInjected = 0
+    receiverPlugin2.registerDataHandler(async (data) => {
+      if (injectErrors && numberInjected < 2) {
+        numberInjected++
+        return serializeIlpReject({
+          code: IlpError.F02_UNREACHABLE,
+          message: '',
+          triggeredBy: 'test.larry',
+          data: Buffer.alloc(0),
+        })
+      } else {
+        return streamServerPlugin.dataHandler(data)
+      }
+    })
+
     const streamServer = await createServer({
-      plugin: bob2,
-      shouldFulfill: async () => {
-        numberPacketsInFlight++
-        await sleep(1000)
-        highestNumberPacketsInFlight = Math.max(highestNumberPacketsInFlight, numberPacketsInFlight)
-        numberPacketsInFlight--
-      },
+      plugin: streamServerPlugin,
     })
 
     streamServer.on('connection', (connection: Connection) => {
       connection.on('stream', (stream: DataAndMoneyStream) => {
-        stream.setReceiveMax(Long.MAX_UNSIGNED_VALUE)
+        stream.setReceiveMax(Infinity)
       })
     })
 
@@ -1833,72 +4118,78 @@ describe('fixed source payments', () => {
       destinationAccount: destinationAddress,
     } = streamServer.generateAddressAndSecret()
 
-    // Send 100 total packets
     const { pay } = await quote({
-      amountToSend: 100,
+      amountToSend: new BigNumber(1),
       destinationAddress,
       sharedSecret,
-      plugin: alice1,
+      plugin: senderPlugin1,
       slippage: 1,
       prices: {},
     })
 
+    injectErrors = true
     const receipt = await pay()
-
     expect(receipt.error).toBeUndefined()
-    expect(highestNumberPacketsInFlight).toBe(20)
-    expect(+receipt.amountSent).toEqual(100)
+    expect(+receipt.amountSent).toEqual(1)
+    expect(receipt.rejectCounts).toEqual({
+      [IlpError.F02_UNREACHABLE]: 2,
+    })
 
     await app.shutdown()
     await streamServer.close()
-  }, 10000)
-
-  it('completes source amount payment with no rate enforcement', async () => {
-    const [alice1, alice2] = MirrorPlugin.createPair()
-    const [bob1, bob2] = MirrorPlugin.createPair()
+  })
 
-    const prices = {
-      ABC: 3.2,
-      XYZ: 1.5,
-    }
+  it('fails if transient routing errors exceed the budget', async () => {
+    const [senderPlugin1, senderPlugin2] = MirrorPlugin.createPair()
+    const [receiverPlugin1, receiverPlugin2] = MirrorPlugin.createPair()
 
-    // Override with rate backend for custom rates
-    let backend: CustomBackend
-    const deps = reduct((Constructor) => Constructor.name === 'RateBackend' && backend)
-    backend = new CustomBackend(deps)
-    backend.setPrices(prices)
+    const streamServerPlugin = new MirrorPlugin()
+    streamServerPlugin.mirror = receiverPlugin1
 
-    const app = createApp(
-      {
-        ilpAddress: 'test.larry',
-        spread: 0.014, // 1.4% slippage
-        accounts: {
-          alice: {
-            relation: 'child',
-            plugin: alice2,
-            assetCode: 'ABC',
-            assetScale: 0,
-            maxPacketAmount: '1000',
-          },
-          bob: {
-            relation: 'child',
-            plugin: bob1,
-            assetCode: 'XYZ',
-            assetScale: 0,
-          },
+    const app = createApp({
+      ilpAddress: 'test.larry',
+      backend: 'one-to-one',
+      spread: 0,
+      accounts: {
+        alice: {
+          relation: 'child',
+          plugin: senderPlugin2,
+          assetCode: 'USD',
+          assetScale: 2,
+          maxPacketAmount: '10', // $0.10
+        },
+        bob: {
+          relation: 'child',
+          plugin: receiverPlugin1,
+          assetCode: 'USD',
+          assetScale: 2,
         },
       },
-      deps
-    )
+    })
     await app.listen()
 
+    // After the quote, reject all packets with R00 errors
+    let injectErrors = false
+    receiverPlugin2.registerDataHandler(async (data) => {
+      if (injectErrors) {
+        return serializeIlpReject({
+          code: IlpError.R00_TRANSFER_TIMED_OUT,
+          message: '',
+          triggeredBy: 'test.larry',
+          data: Buffer.alloc(0),
+        })
+      } else {
+        return streamServerPlugin.dataHandler(data)
+      }
+    })
+
     const streamServer = await createServer({
-      plugin: bob2,
+      plugin: streamServerPlugin,
     })
 
     streamServer.on('connection', (connection: Connection) => {
       connection.on('stream', (stream: DataAndMoneyStream) => {
-        stream.setReceiveMax(Long.MAX_UNSIGNED_VALUE)
+        stream.setReceiveMax(Infinity)
       })
     })
 
@@ -1907,83 +4198,68 @@ describe('fixed source payments', () => {
       destinationAccount: destinationAddress,
     } = streamServer.generateAddressAndSecret()
 
-    const amountToSend = new BigNumber(10_000)
-    const { pay, minExchangeRate } = await quote({
-      amountToSend,
+    const { pay } = await quote({
+      amountToSend: new BigNumber(1),
       destinationAddress,
       sharedSecret,
-      plugin: alice1,
-      slippage: 1, // Disables rate enforcement
-      prices,
+      plugin: senderPlugin1,
+      slippage: 1,
+      prices: {},
+      tuning: {
+        maxRetryableRejects: 2,
+      },
     })
-    expect(minExchangeRate).toEqual(new BigNumber(0))
 
+    injectErrors = true
     const receipt = await pay()
-    expect(receipt.error).toBeUndefined()
-    expect(receipt.amountSent).toEqual(amountToSend)
-    expect(receipt.amountDelivered.isGreaterThan(0))
+    expect(receipt.error).toBe(PaymentError.ConnectorError)
+    expect(+receipt.amountSent).toEqual(0)
+    expect(receipt.rejectCounts[IlpError.R00_TRANSFER_TIMED_OUT]).toBeGreaterThanOrEqual(3)
 
     await app.shutdown()
     await streamServer.close()
   })
 
-  it.todo('fails if receive max is incompatible')
-})
-
-describe('fixed delivery payments', () => {
-  it('delivers fixed destination amount with max packet amount', async () => {
-    const [alice1, alice2] = MirrorPlugin.createPair()
-    const [bob1, bob2] = MirrorPlugin.createPair()
-
-    const prices = {
-      USD: 1,
-      EUR: 1.0805787579827757,
-      BTC: 9290.22557286273,
-      ETH: 208.46218430418685,
-      XRP: 0.2199704769864391,
-      JPY: 0.00942729201037,
-      GBP: 1.2344993179391268,
-    }
-
-    // Override with rate backend for custom rates
-    let backend: CustomBackend
-    const deps = reduct((Constructor) => Constructor.name === 'RateBackend' && backend)
-    backend = new CustomBackend(deps)
-    backend.setPrices(prices)
+  it('retries on temporary errors', async () => {
+    const [senderPlugin1, senderPlugin2] = MirrorPlugin.createPair()
+    const [receiverPlugin1, receiverPlugin2] = MirrorPlugin.createPair()
 
-    const app = createApp(
-      {
-        ilpAddress: 'test.larry',
-        spread: 0.01, // 1% spread
-        accounts: {
-          alice: {
-            relation: 'child',
-            plugin: alice2,
-            assetCode: 'ETH',
-            assetScale: 9,
-            maxPacketAmount: '899898',
-          },
-          bob: {
-            relation: 'child',
-            plugin: bob1,
-            assetCode: 'BTC',
-            assetScale: 8,
+    const app = createApp({
+      ilpAddress: 'private.larry',
+      backend: 'one-to-one',
+      spread: 0,
+      accounts: {
+        sender: {
+          relation: 'child',
+          assetCode: 'ABC',
+          assetScale: 0,
+          plugin: senderPlugin2,
+          // Limit to 1 packet / 200ms
+          // should ensure a T05 error is encountered
+          rateLimit: {
+            capacity: 1,
+            refillCount: 1,
+            refillPeriod: 200,
           },
+          maxPacketAmount: '1',
+        },
+        receiver: {
+          relation: 'child',
+          assetCode: 'ABC',
+          assetScale: 0,
+          plugin: receiverPlugin1,
         },
       },
-      deps
-    )
+    })
     await app.listen()
 
     const streamServer = await createServer({
-      plugin: bob2,
+      plugin: receiverPlugin2,
     })
 
-    const amountToDeliver = Int.from(107643)! // $10 in BTC
-    const connectionPromise = streamServer.acceptConnection()
     streamServer.on('connection', (connection: Connection) => {
       connection.on('stream', (stream: DataAndMoneyStream) => {
-        stream.setReceiveMax(amountToDeliver.toString())
+        stream.setReceiveMax(Infinity)
       })
     })
 
@@ -1992,115 +4268,64 @@ describe('fixed delivery payments', () => {
       destinationAccount: destinationAddress,
     } = streamServer.generateAddressAndSecret()
 
-    const { pay, ...quoteDetails } = await quote({
-      amountToDeliver,
-      destinationAddress,
+    // 20 units / 1 max packet amount => at least 20 packets
+    const amountToSend = 20
+    const { pay, events } = await quote({
+      plugin: senderPlugin1,
+      amountToSend,
       sharedSecret,
-      slippage: 0.015,
-      plugin: alice1,
-      prices,
+      destinationAddress,
+      slippage: 1,
+      prices: {},
     })
 
-    const receipt = await pay()
+    const rejectCodes: string[] = []
+    events.on('reject', ({ code }) => rejectCodes.push(code))
+    const backoffRates: number[] = []
+    events.on('backoff', ({ packetsPerSecond }) => backoffRates.push(packetsPerSecond))
 
+    const receipt = await pay()
     expect(receipt.error).toBeUndefined()
+    expect(+receipt.amountSent).toBe(amountToSend)
 
-    const serverConnection = await connectionPromise
-    const totalReceived = new BigNumber(serverConnection.totalReceived)
-    expect(+totalReceived).toBe(+amountToDeliver)
-    expect(+receipt.amountDelivered).toBe(0.00107643)
-    expect(+receipt.amountSent).toBeLessThanOrEqual(+quoteDetails.maxSourceAmount)
+    // Each T05 error should reduce the rate of sending packets
+    expect(rejectCodes).toContain(IlpError.T05_RATE_LIMITED)
+    expect(backoffRates.length).toBeGreaterThan(0)
 
     await app.shutdown()
     await streamServer.close()
-  }, 10000)
-
-  it('delivers fixed destination amount with exchange rate greater than 1', async () => {
-    const prices = {
-      USD: 1,
-      EUR: 1.0805787579827757,
-      BTC: 9290.22557286273,
-      ETH: 208.46218430418685,
-      XRP: 0.2199704769864391,
-      JPY: 0.00942729201037,
-      GBP: 1.2344993179391268,
-    }
-
-    // More complex topology with multiple conversions and sources of rounding error:
-    // BTC 8 -> USD 6 -> XRP 9
-
-    const [alicePlugin1, alicePlugin2] = MirrorPlugin.createPair(20, 30)
-    const [peerPlugin1, peerPlugin2] = MirrorPlugin.createPair(20, 30)
-    const [bobPlugin1, bobPlugin2] = MirrorPlugin.createPair(20, 30)
+  }, 20000)
 
-    // Override with rate backend for custom rates
-    let aliceBackend: CustomBackend
-    const aliceDeps = reduct((Constructor) => Constructor.name === 'RateBackend' && aliceBackend)
-    aliceBackend = new CustomBackend(aliceDeps)
-    aliceBackend.setPrices(prices)
+  it('emits progress events during the payment', async () => {
+    const [senderPlugin1, senderPlugin2] = MirrorPlugin.createPair()
+    const [receiverPlugin1, receiverPlugin2] = MirrorPlugin.createPair()
 
-    const aliceConnector = createApp(
-      {
-        ilpAddress: 'test.alice',
-        defaultRoute: 'bob',
-        spread: 0.005, // 0.5%
-        accounts: {
-          sender: {
-            relation: 'child',
-            plugin: alicePlugin2,
-            assetCode: 'BTC',
-            assetScale: 8,
-            // Tests multiple max packet amounts will get reduced
-            maxPacketAmount: '2000000', // 0.02 BTC (larger than $0.01)
-          },
-          bob: {
-            relation: 'peer',
-            plugin: peerPlugin1,
-            assetCode: 'USD',
-            assetScale: 6,
-          },
+    const app = createApp({
+      ilpAddress: 'private.larry',
+      backend: 'one-to-one',
+      spread: 0,
+      accounts: {
+        sender: {
+          relation: 'child',
+          assetCode: 'ABC',
+          assetScale: 2,
+          plugin: senderPlugin2,
+          maxPacketAmount: '100',
         },
-      },
-      aliceDeps
-    )
-
-    // Override with rate backend for custom rates
-    let bobBackend: CustomBackend
-    const bobDeps = reduct((Constructor) => Constructor.name === 'RateBackend' && bobBackend)
-    bobBackend = new CustomBackend(bobDeps)
-    bobBackend.setPrices(prices)
-
-    const bobConnector = createApp(
-      {
-        ilpAddress: 'test.bob',
-        spread: 0.0031, // 0.31%
-        accounts: {
-          alice: {
-            relation: 'peer',
-            plugin: peerPlugin2,
-            assetCode: 'USD',
-            assetScale: 6,
-            // Tests correct max packet amount computation in remote asset
-            maxPacketAmount: '10000' /* $0.01 */,
-          },
-          receiver: {
-            relation: 'child',
-            plugin: bobPlugin1,
-            assetCode: 'XRP',
-            assetScale: 9,
-          },
+        receiver: {
+          relation: 'child',
+          assetCode: 'ABC',
+          assetScale: 2,
+          plugin: receiverPlugin1,
         },
       },
-      bobDeps
-    )
-
-    await Promise.all([aliceConnector.listen(), bobConnector.listen()])
+    })
+    await app.listen()
 
     const streamServer = await createServer({
-      plugin: bobPlugin2,
+      plugin: receiverPlugin2,
     })
 
-    const connectionPromise = streamServer.acceptConnection()
     streamServer.on('connection', (connection: Connection) => {
       connection.on('stream', (stream: DataAndMoneyStream) => {
         stream.setReceiveMax(Infinity)
@@ -2112,51 +4337,119 @@ describe('fixed delivery payments', () => {
       destinationAccount: destinationAddress,
     } = streamServer.generateAddressAndSecret()
 
-    // (1 - 0.031) * (1 - 0.005) => 0.9919155
-
-    // Connector spread: 0.80845%
-    // Sender accepts up to: 0.85%
-
-    const amountToDeliver = Int.from(10_000_000_000)! // 10 XRP, ~$2 at given prices
-    const { pay, ...quoteDetails } = await quote({
-      plugin: alicePlugin1,
-      amountToDeliver,
-      destinationAddress,
+    const { pay, events } = await quote({
+      plugin: senderPlugin1,
+      amountToSend: 10,
       sharedSecret,
-      slippage: 0.0085,
-      prices,
+      destinationAddress,
+      slippage: 0.01,
+      prices: {},
     })
 
-    const receipt = await pay()
+    const lifecycle: string[] = []
+    events.on('start', () => lifecycle.push('start'))
+    events.on('end', () => lifecycle.push('end'))
 
+    const fulfills: PacketProgress[] = []
+    events.on('fulfill', (event) => fulfills.push(event))
+
+    const endPromise = new Promise<Receipt>((resolve) => events.once('end', resolve))
+
+    const receipt = await pay()
     expect(receipt.error).toBeUndefined()
+    await expect(endPromise).resolves.toEqual(receipt)
+    expect(lifecycle).toEqual(['start', 'end'])
+
+    // 10.00 ABC / 1.00 ABC max packet amount => 10 packets
+    expect(fulfills.length).toBe(10)
+    fulfills.forEach(({ sourceAmount, destinationAmount }) => {
+      expect(sourceAmount).toEqual(new BigNumber(1))
+      expect(destinationAmount).toEqual(new BigNumber(1))
+    })
 
-    const serverConnection = await connectionPromise
-    const totalReceived = new BigNumber(serverConnection.totalReceived).shiftedBy(-9)
-    expect(receipt.amountDelivered).toEqual(totalReceived)
+    // Running totals should increase with each Fulfill
+    const lastFulfill = fulfills[fulfills.length - 1]
+    expect(lastFulfill.amountSent).toEqual(receipt.amountSent)
+    expect(lastFulfill.amountDelivered).toEqual(receipt.amountDelivered)
+    expect(lastFulfill.sourceAmountInFlight).toEqual(new BigNumber(0))
+    for (let i = 1; i < fulfills.length; i++) {
+      expect(fulfills[i].amountSent.isGreaterThan(fulfills[i - 1].amountSent)).toBe(true)
+    }
 
-    // Ensure at least the invoice amount was delivered
-    expect(+receipt.amountDelivered).toBeGreaterThanOrEqual(10)
+    await app.shutdown()
+    await streamServer.close()
+  })
 
-    // Ensure over-delivery is minimized to the equivalent of a single source unit, 1 satoshi:
-    const maxOverDeliveryAmount = new BigNumber(1)
-      .shiftedBy(-8) // Sats -> BTC
-      .times(quoteDetails.minExchangeRate) // BTC -> XRP
-      .shiftedBy(9) // XRP -> drops
-      .integerValue(BigNumber.ROUND_CEIL)
-      .plus(amountToDeliver.toString())
-    expect(+receipt.amountDelivered).toBeLessThanOrEqual(+maxOverDeliveryAmount)
+  it('completes the payment if an event listener throws', async () => {
+    const [senderPlugin1, senderPlugin2] = MirrorPlugin.createPair()
+    const [receiverPlugin1, receiverPlugin2] = MirrorPlugin.createPair()
 
-    expect(+receipt.amountSent).toBeLessThanOrEqual(+quoteDetails.maxSourceAmount)
+    const app = createApp({
+      ilpAddress: 'private.larry',
+      backend: 'one-to-one',
+      spread: 0,
+      accounts: {
+        sender: {
+          relation: 'child',
+          assetCode: 'ABC',
+          assetScale: 2,
+          plugin: senderPlugin2,
+          maxPacketAmount: '100',
+        },
+        receiver: {
+          relation: 'child',
+          assetCode: 'ABC',
+          assetScale: 2,
+          plugin: receiverPlugin1,
+        },
+      },
+    })
+    await app.listen()
 
-    await aliceConnector.shutdown()
-    await bobConnector.shutdown()
+    const streamServer = await createServer({
+      plugin: receiverPlugin2,
+    })
+
+    streamServer.on('connection', (connection: Connection) => {
+      connection.on('stream', (stream: DataAndMoneyStream) => {
+        stream.setReceiveMax(Infinity)
+      })
+    })
+
+    const {
+      sharedSecret,
+      destinationAccount: destinationAddress,
+    } = streamServer.generateAddressAndSecret()
+
+    const { pay, events } = await quote({
+      plugin: senderPlugin1,
+      amountToSend: 5,
+      sharedSecret,
+      destinationAddress,
+      slippage: 0.01,
+      prices: {},
+    })
+
+    // Other listeners are still notified after a listener throws
+    let numberFulfilled = 0
+    events.on('fulfill', () => {
+      throw new Error('listener failed')
+    })
+    events.on('fulfill', () => numberFulfilled++)
+    events.on('end', () => {
+      throw new Error('listener failed')
+    })
 
+    const receipt = await pay()
+    expect(receipt.error).toBeUndefined()
+    expect(receipt.amountSent).toEqual(new BigNumber(5))
+    expect(numberFulfilled).toBe(5)
+
+    await app.shutdown()
     await streamServer.close()
-  }, 10000)
+  })
 
-  // TODO This should error during the quoting flow, but JS stream only returns `StreamMaxMoney` if the packet sent money!
-  it('fails if receive max is incompatible on fixed delivery payment', async () => {
+  it('completes the payment if the checkpoint callback throws', async () => {
     const [senderPlugin1, senderPlugin2] = MirrorPlugin.createPair()
     const [receiverPlugin1, receiverPlugin2] = MirrorPlugin.createPair()
 
@@ -2168,13 +4461,14 @@ describe('fixed delivery payments', () => {
         sender: {
           relation: 'child',
           assetCode: 'ABC',
-          assetScale: 4,
+          assetScale: 2,
           plugin: senderPlugin2,
+          maxPacketAmount: '100',
         },
         receiver: {
           relation: 'child',
           assetCode: 'ABC',
-          assetScale: 4,
+          assetScale: 2,
           plugin: receiverPlugin1,
         },
       },
@@ -2185,10 +4479,9 @@ describe('fixed delivery payments', () => {
       plugin: receiverPlugin2,
     })
 
-    // Stream can receive up to 98, but we want to deliver 100
     streamServer.on('connection', (connection: Connection) => {
       connection.on('stream', (stream: DataAndMoneyStream) => {
-        stream.setReceiveMax(98)
+        stream.setReceiveMax(Infinity)
       })
     })
 
@@ -2197,39 +4490,48 @@ describe('fixed delivery payments', () => {
       destinationAccount: destinationAddress,
     } = streamServer.generateAddressAndSecret()
 
+    let numberOfCheckpoints = 0
     const { pay } = await quote({
       plugin: senderPlugin1,
-      amountToDeliver: Int.from(100_0000),
-      destinationAddress,
+      amountToSend: 5,
       sharedSecret,
+      destinationAddress,
+      slippage: 0.01,
+      prices: {},
+      onCheckpoint: () => {
+        numberOfCheckpoints++
+        throw new Error('failed to persist')
+      },
     })
 
     const receipt = await pay()
-    expect(receipt.error).toBe(PaymentError.IncompatibleReceiveMax)
+    expect(receipt.error).toBeUndefined()
+    expect(receipt.amountSent).toEqual(new BigNumber(5))
+    expect(numberOfCheckpoints).toBeGreaterThanOrEqual(10) // Before each packet and after each Fulfill
 
     await app.shutdown()
     await streamServer.close()
   })
 
-  it('fails if minimum exchange rate is 0 and cannot enforce delivery', async () => {
+  it('completes the payment if the metrics callbacks throw', async () => {
     const [senderPlugin1, senderPlugin2] = MirrorPlugin.createPair()
     const [receiverPlugin1, receiverPlugin2] = MirrorPlugin.createPair()
 
     const app = createApp({
       ilpAddress: 'private.larry',
-      defaultRoute: 'receiver',
       backend: 'one-to-one',
       spread: 0,
       accounts: {
         sender: {
           relation: 'child',
           assetCode: 'ABC',
-          assetScale: 4,
+          assetScale: 2,
           plugin: senderPlugin2,
+          maxPacketAmount: '100',
         },
         receiver: {
           relation: 'child',
-          assetCode: 'XYZ',
+          assetCode: 'ABC',
           assetScale: 2,
           plugin: receiverPlugin1,
         },
@@ -2252,39 +4554,47 @@ describe('fixed delivery payments', () => {
       destinationAccount: destinationAddress,
     } = streamServer.generateAddressAndSecret()
 
-    await expect(
-      quote({
-        plugin: senderPlugin1,
-        amountToDeliver: Int.from(100_0000),
-        destinationAddress,
-        sharedSecret,
-        slippage: 1,
-        prices: {
-          ABC: 1,
-          XYZ: 1,
-        },
-      })
-    ).rejects.toBe(PaymentError.UnenforceableDelivery)
+    const metrics: PaymentMetrics = {
+      increment: () => {
+        throw new Error('failed to increment')
+      },
+      observe: () => {
+        throw new Error('failed to observe')
+      },
+    }
+    const { pay } = await quote({
+      plugin: senderPlugin1,
+      amountToSend: 5,
+      sharedSecret,
+      destinationAddress,
+      slippage: 0.01,
+      prices: {},
+      metrics,
+    })
+
+    const receipt = await pay()
+    expect(receipt.error).toBeUndefined()
+    expect(receipt.amountSent).toEqual(new BigNumber(5))
 
     await app.shutdown()
     await streamServer.close()
   })
 
-  it('accounts for fulfilled packets even if data is corrupted', async () => {
+  it('pauses and resumes a payment', async () => {
     const [senderPlugin1, senderPlugin2] = MirrorPlugin.createPair()
     const [receiverPlugin1, receiverPlugin2] = MirrorPlugin.createPair()
 
     const app = createApp({
       ilpAddress: 'private.larry',
       backend: 'one-to-one',
-      spread: 0.01,
+      spread: 0,
       accounts: {
         sender: {
           relation: 'child',
           assetCode: 'ABC',
           assetScale: 0,
           plugin: senderPlugin2,
-          maxPacketAmount: '20',
+          maxPacketAmount: '1',
         },
         receiver: {
           relation: 'child',
@@ -2296,62 +4606,126 @@ describe('fixed delivery payments', () => {
     })
     await app.listen()
 
-    const destinationAddress = 'private.larry.receiver'
-    const sharedSecret = randomBytes(32)
-
-    const encryptionKey = await generatePskEncryptionKey(sharedSecret)
-    const fulfillmentKey = await generateFulfillmentKey(sharedSecret)
+    const streamServer = await createServer({
+      plugin: receiverPlugin2,
+    })
 
-    // STREAM "receiver" that just fulfills packets
-    let totalReceived = 0
-    receiverPlugin2.registerDataHandler(async (data) => {
-      const prepare = deserializeIlpPrepare(data)
+    const connectionPromise = streamServer.acceptConnection()
+    streamServer.on('connection', (connection: Connection) => {
+      connection.on('stream', (stream: DataAndMoneyStream) => {
+        stream.setReceiveMax(Infinity)
+      })
+    })
 
-      const fulfillment = await generateFulfillment(fulfillmentKey, prepare.data)
-      const isFulfillable = prepare.executionCondition.equals(await hash(fulfillment))
+    const {
+      sharedSecret,
+      destinationAccount: destinationAddress,
+    } = streamServer.generateAddressAndSecret()
 
-      const streamPacket = await Packet.decryptAndDeserialize(encryptionKey, prepare.data)
+    const { pay, pause, resume, events } = await quote({
+      plugin: senderPlugin1,
+      amountToSend: 50,
+      sharedSecret,
+      destinationAddress,
+      slippage: 1,
+      prices: {},
+    })
 
-      if (isFulfillable) {
-        // On fulfillable packets, fulfill *without valid STREAM data*
-        totalReceived += +streamPacket.prepareAmount
-        return serializeIlpFulfill({
-          fulfillment,
-          data: randomBytes(200),
-        })
-      } else {
-        // On test packets, reject and ACK as normal so the quote succeeds
-        const reject = new Packet(streamPacket.sequence, IlpPacketType.Reject, prepare.amount, [
-          new ConnectionAssetDetailsFrame('ABC', 0),
-        ])
-        return serializeIlpReject({
-          code: IlpError.F99_APPLICATION_ERROR,
-          message: '',
-          triggeredBy: '',
-          data: await reject.serializeAndEncrypt(encryptionKey),
-        })
+    // Pause after the 5th Fulfill
+    let numberFulfilled = 0
+    events.on('fulfill', () => {
+      if (++numberFulfilled === 5) {
+        pause()
       }
     })
 
-    const { pay, ...quoteDetails } = await quote({
+    const lifecycle: string[] = []
+    events.on('start', () => lifecycle.push('start'))
+    events.on('end', () => lifecycle.push('end'))
+
+    // Payment should end with all in-flight packets completed, but not disconnect the plugin
+    const partialReceipt = await pay()
+    expect(partialReceipt.error).toBe(PaymentError.Cancelled)
+    expect(partialReceipt.amountSent.isGreaterThanOrEqualTo(5)).toBe(true)
+    expect(partialReceipt.amountSent.isLessThan(50)).toBe(true)
+    expect(senderPlugin1.isConnected()).toBe(true)
+
+    const serverConnection = await connectionPromise
+    expect(serverConnection.totalReceived).toBe(partialReceipt.amountDelivered.toString())
+
+    // Payment only ends once it's complete
+    expect(lifecycle).toEqual(['start'])
+
+    const receipt = await resume()
+    expect(lifecycle).toEqual(['start', 'end'])
+    expect(receipt.error).toBeUndefined()
+    expect(receipt.amountSent).toEqual(new BigNumber(50))
+    expect(serverConnection.totalReceived).toBe('50')
+    expect(senderPlugin1.isConnected()).toBe(false)
+
+    await app.shutdown()
+    await streamServer.close()
+  })
+
+  it('fails if the quote expired before the payment started', async () => {
+    const [senderPlugin1, senderPlugin2] = MirrorPlugin.createPair()
+    const [receiverPlugin1, receiverPlugin2] = MirrorPlugin.createPair()
+
+    const app = createApp({
+      ilpAddress: 'private.larry',
+      backend: 'one-to-one',
+      spread: 0,
+      accounts: {
+        sender: {
+          relation: 'child',
+          assetCode: 'ABC',
+          assetScale: 0,
+          plugin: senderPlugin2,
+        },
+        receiver: {
+          relation: 'child',
+          assetCode: 'ABC',
+          assetScale: 0,
+          plugin: receiverPlugin1,
+        },
+      },
+    })
+    await app.listen()
+
+    const streamServer = await createServer({
+      plugin: receiverPlugin2,
+    })
+
+    const {
+      sharedSecret,
+      destinationAccount: destinationAddress,
+    } = streamServer.generateAddressAndSecret()
+
+    const quoteTime = Date.now()
+    const { pay, expiresAt } = await quote({
       plugin: senderPlugin1,
-      // Amount much larger than max packet, so test will fail unless sender fails fast
-      amountToDeliver: Int.from(1000000),
-      destinationAddress,
+      amountToSend: 50,
       sharedSecret,
-      slippage: 0.1,
+      destinationAddress,
+      slippage: 1,
       prices: {},
+      maxQuoteAge: 100,
     })
+    expect(expiresAt.getTime()).toBeGreaterThanOrEqual(quoteTime + 100)
+    expect(expiresAt.getTime()).toBeLessThanOrEqual(Date.now() + 100)
 
-    const receipt = await pay()
-    expect(receipt.error).toBe(PaymentError.ReceiverProtocolViolation)
-    expect(+receipt.amountDelivered).toEqual(totalReceived)
-    expect(+receipt.amountSent).toBeLessThanOrEqual(+quoteDetails.maxSourceAmount)
+    await sleep(200)
+
+    const receipt = await pay()
+    expect(receipt.error).toBe(PaymentError.QuoteExpired)
+    expect(receipt.amountSent).toEqual(new BigNumber(0))
+    expect(senderPlugin1.isConnected()).toBe(false)
 
     await app.shutdown()
-  }, 10000)
+    await streamServer.close()
+  })
 
-  it('accounts for delivered amounts if the recipient claims to receive less than minimum', async () => {
+  it('ends payment if the abort signal is triggered', async () => {
     const [senderPlugin1, senderPlugin2] = MirrorPlugin.createPair()
     const [receiverPlugin1, receiverPlugin2] = MirrorPlugin.createPair()
 
@@ -2365,7 +4739,7 @@ describe('fixed delivery payments', () => {
           assetCode: 'ABC',
           assetScale: 0,
           plugin: senderPlugin2,
-          maxPacketAmount: '20',
+          maxPacketAmount: '1',
         },
         receiver: {
           relation: 'child',
@@ -2377,105 +4751,10 @@ describe('fixed delivery payments', () => {
     })
     await app.listen()
 
-    const destinationAddress = 'private.larry.receiver'
-    const sharedSecret = randomBytes(32)
-
-    const encryptionKey = await generatePskEncryptionKey(sharedSecret)
-    const fulfillmentKey = await generateFulfillmentKey(sharedSecret)
-
-    // STREAM "receiver" that fulfills packets
-    let totalReceived = 0
-    receiverPlugin2.registerDataHandler(async (data) => {
-      const prepare = deserializeIlpPrepare(data)
-
-      const fulfillment = await generateFulfillment(fulfillmentKey, prepare.data)
-      const isFulfillable = prepare.executionCondition.equals(await hash(fulfillment))
-
-      const streamPacket = await Packet.decryptAndDeserialize(encryptionKey, prepare.data)
-
-      if (isFulfillable) {
-        // On fulfillable packets, fulfill, but lie and say we only received 1 unit
-        totalReceived += +streamPacket.prepareAmount
-        const streamReply = new Packet(streamPacket.sequence, IlpPacketType.Fulfill, 1)
-        return serializeIlpFulfill({
-          fulfillment,
-          data: await streamReply.serializeAndEncrypt(encryptionKey),
-        })
-      } else {
-        // On test packets, reject and ACK as normal so the quote succeeds
-        const reject = new Packet(streamPacket.sequence, IlpPacketType.Reject, prepare.amount, [
-          new ConnectionAssetDetailsFrame('ABC', 0),
-        ])
-        return serializeIlpReject({
-          code: IlpError.F99_APPLICATION_ERROR,
-          message: '',
-          triggeredBy: '',
-          data: await reject.serializeAndEncrypt(encryptionKey),
-        })
-      }
-    })
-
-    const { pay, ...quoteDetails } = await quote({
-      plugin: senderPlugin1,
-      // Amount much larger than max packet, so test will fail unless sender fails fast
-      amountToDeliver: Int.from(100000),
-      destinationAddress,
-      sharedSecret,
-      slippage: 0.2,
-    })
-
-    const receipt = await pay()
-    expect(receipt.error).toBe(PaymentError.ReceiverProtocolViolation)
-    expect(+receipt.amountDelivered).toEqual(totalReceived)
-    expect(+receipt.amountSent).toBeLessThanOrEqual(+quoteDetails.maxSourceAmount)
-
-    await app.shutdown()
-  })
-
-  it('fails if the exchange rate drops to 0 during the payment', async () => {
-    const [senderPlugin1, senderPlugin2] = MirrorPlugin.createPair()
-    const [receiverPlugin1, receiverPlugin2] = MirrorPlugin.createPair()
-
-    const prices = {
-      USD: 1,
-      EUR: 1.13,
-    }
-
-    // Override with rate backend for custom rates
-    let backend: CustomBackend
-    const deps = reduct((Constructor) => Constructor.name === 'RateBackend' && backend)
-    backend = new CustomBackend(deps)
-    backend.setPrices(prices)
-
-    const app = createApp(
-      {
-        ilpAddress: 'test.larry',
-        spread: 0.01, // 1% spread
-        accounts: {
-          alice: {
-            relation: 'child',
-            plugin: senderPlugin2,
-            assetCode: 'USD',
-            assetScale: 4,
-            maxPacketAmount: '10000', // $1
-          },
-          bob: {
-            relation: 'child',
-            plugin: receiverPlugin1,
-            assetCode: 'EUR',
-            assetScale: 4,
-          },
-        },
-      },
-      deps
-    )
-    await app.listen()
-
     const streamServer = await createServer({
       plugin: receiverPlugin2,
     })
 
-    const connectionPromise = streamServer.acceptConnection()
     streamServer.on('connection', (connection: Connection) => {
       connection.on('stream', (stream: DataAndMoneyStream) => {
         stream.setReceiveMax(Infinity)
@@ -2487,243 +4766,222 @@ describe('fixed delivery payments', () => {
       destinationAccount: destinationAddress,
     } = streamServer.generateAddressAndSecret()
 
-    const { pay, ...quoteDetails } = await quote({
-      amountToDeliver: Int.from(10_0000), // 10 EUR
-      destinationAddress,
-      sharedSecret,
-      slippage: 0.015, // 1.5% slippage allowed
+    const { pay, resume, cancel, events } = await quote({
       plugin: senderPlugin1,
-      prices,
+      amountToSend: 50,
+      sharedSecret,
+      destinationAddress,
+      slippage: 1,
+      prices: {},
     })
 
-    const serverConnection = await connectionPromise
+    // Minimal signal, since Node 14 doesn't include an `AbortController`
+    const signal = { aborted: false }
+    events.once('fulfill', () => {
+      signal.aborted = true
+    })
 
-    // Change exchange rate to 0 before the payment begins
-    backend.setSpread(1)
+    const receiptPromise = pay({ signal: signal as AbortSignal })
 
-    const receipt = await pay()
-    expect(receipt.error).toBe(PaymentError.InsufficientExchangeRate)
-    expect(+receipt.amountDelivered).toBe(0)
-    expect(+receipt.amountDelivered).toBe(+serverConnection.totalReceived / 10000)
-    expect(+receipt.amountSent).toBeLessThanOrEqual(+quoteDetails.maxSourceAmount)
+    // Resuming the running payment without a signal still enforces the original signal
+    const resumedReceiptPromise = resume()
+
+    const receipt = await receiptPromise
+    await expect(resumedReceiptPromise).resolves.toBe(receipt)
+    expect(receipt.error).toBe(PaymentError.Cancelled)
+    expect(receipt.amountSent.isLessThan(50)).toBe(true)
+
+    await cancel()
+    expect(senderPlugin1.isConnected()).toBe(false)
 
     await app.shutdown()
     await streamServer.close()
   })
 
-  it('fails if the exchange rate drops below the minimum during the payment', async () => {
-    const [senderPlugin1, senderPlugin2] = MirrorPlugin.createPair(200, 200)
-    const [receiverPlugin1, receiverPlugin2] = MirrorPlugin.createPair(200, 200)
-
-    const prices = {
-      USD: 1,
-      EUR: 1.13,
-    }
-
-    // Override with rate backend for custom rates
-    let backend: CustomBackend
-    const deps = reduct((Constructor) => Constructor.name === 'RateBackend' && backend)
-    backend = new CustomBackend(deps)
-    backend.setPrices(prices)
+  it('collects and verifies STREAM receipts', async () => {
+    const [senderPlugin1, senderPlugin2] = MirrorPlugin.createPair()
+    const [receiverPlugin1, receiverPlugin2] = MirrorPlugin.createPair()
 
-    const app = createApp(
-      {
-        ilpAddress: 'test.larry',
-        spread: 0.01, // 1% spread
-        accounts: {
-          alice: {
-            relation: 'child',
-            plugin: senderPlugin2,
-            assetCode: 'USD',
-            assetScale: 4,
-            maxPacketAmount: '10000', // $1
-          },
-          bob: {
-            relation: 'child',
-            plugin: receiverPlugin1,
-            assetCode: 'EUR',
-            assetScale: 4,
-          },
+    const app = createApp({
+      ilpAddress: 'private.larry',
+      backend: 'one-to-one',
+      spread: 0,
+      accounts: {
+        sender: {
+          relation: 'child',
+          assetCode: 'ABC',
+          assetScale: 0,
+          plugin: senderPlugin2,
+          maxPacketAmount: '3',
+        },
+        receiver: {
+          relation: 'child',
+          assetCode: 'ABC',
+          assetScale: 0,
+          plugin: receiverPlugin1,
         },
       },
-      deps
-    )
+    })
     await app.listen()
 
     const streamServer = await createServer({
       plugin: receiverPlugin2,
     })
-
-    const connectionPromise = streamServer.acceptConnection()
     streamServer.on('connection', (connection: Connection) => {
       connection.on('stream', (stream: DataAndMoneyStream) => {
         stream.setReceiveMax(Infinity)
-
-        stream.on('money', () => {
-          // Change exchange rate so it's just below the minimum
-          // Only the first packets that have already been routed will be delivered
-          backend.setSpread(0.016)
-        })
       })
     })
 
+    const receiptNonce = randomBytes(16)
+    const receiptSecret = randomBytes(32)
     const {
       sharedSecret,
       destinationAccount: destinationAddress,
-    } = streamServer.generateAddressAndSecret()
+    } = streamServer.generateAddressAndSecret({ receiptNonce, receiptSecret })
 
-    const { pay, ...quoteDetails } = await quote({
-      amountToDeliver: Int.from(10_0000), // 10 EUR
-      destinationAddress,
-      sharedSecret,
-      slippage: 0.015, // 1.5% slippage allowed
+    const { pay } = await quote({
       plugin: senderPlugin1,
-      prices,
+      amountToSend: 10,
+      sharedSecret,
+      destinationAddress,
+      slippage: 1,
+      prices: {},
     })
 
-    const serverConnection = await connectionPromise
-
     const receipt = await pay()
-    expect(receipt.error).toBe(PaymentError.InsufficientExchangeRate)
-    expect(+receipt.amountDelivered).toBeLessThan(10)
-    expect(+receipt.amountDelivered).toBe(+serverConnection.totalReceived / 10000)
-    expect(+receipt.amountSent).toBeLessThanOrEqual(+quoteDetails.maxSourceAmount)
+    expect(receipt.error).toBeUndefined()
+    expect(receipt.streamReceipt).toBeDefined()
+    expect(receipt.streams[0].streamReceipt).toEqual(receipt.streamReceipt)
+
+    // Latest receipt proves the total amount delivered
+    expect(verifyStreamReceipt(receipt.streamReceipt!, receiptSecret)).toEqual({
+      nonce: receiptNonce,
+      streamId: 1,
+      totalReceived: new BigNumber(10),
+    })
+    expect(verifyStreamReceipt(receipt.streamReceipt!, randomBytes(32))).toBeUndefined()
+    expect(verifyStreamReceipt(randomBytes(58), receiptSecret)).toBeUndefined()
 
     await app.shutdown()
     await streamServer.close()
   })
-})
 
-describe('payment execution', () => {
-  it('fails on final Reject errors', async () => {
-    const [senderPlugin, receiverPlugin] = MirrorPlugin.createPair()
+  it('receives money from the recipient up to the receive max', async () => {
+    const [senderPlugin1, senderPlugin2] = MirrorPlugin.createPair()
+    const [receiverPlugin1, receiverPlugin2] = MirrorPlugin.createPair()
 
     const app = createApp({
       ilpAddress: 'private.larry',
       backend: 'one-to-one',
       spread: 0,
       accounts: {
-        default: {
+        sender: {
           relation: 'child',
           assetCode: 'ABC',
           assetScale: 0,
-          plugin: receiverPlugin,
+          plugin: senderPlugin2,
+          maxPacketAmount: '1',
+        },
+        receiver: {
+          relation: 'child',
+          assetCode: 'ABC',
+          assetScale: 0,
+          plugin: receiverPlugin1,
         },
       },
     })
     await app.listen()
 
-    await expect(
-      quote({
-        plugin: senderPlugin,
-        amountToSend: 10,
-        destinationAddress: 'private.unknown', // Non-routable address
-        sharedSecret: Buffer.alloc(32),
-      })
-    ).rejects.toBe(PaymentError.ConnectorError)
+    const streamServer = await createServer({
+      plugin: receiverPlugin2,
+    })
 
-    await app.shutdown()
-  })
+    // After the first packet is received, the recipient tries to send 5 units back
+    let resolveRefund: () => void
+    const refundPromise = new Promise<void>((resolve) => (resolveRefund = resolve))
+    let refundStream: DataAndMoneyStream
+    streamServer.on('connection', (connection: Connection) => {
+      connection.on('stream', (stream: DataAndMoneyStream) => {
+        stream.setReceiveMax(Infinity)
+        stream.once('money', () => {
+          refundStream = connection.createStream()
+          refundStream.on('outgoing_money', () => {
+            if (refundStream.totalSent === '3') {
+              resolveRefund()
+            }
+          })
+          refundStream.setSendMax(5)
+        })
+      })
+    })
 
-  it('handles plugin disconnect errors', async () => {
-    const plugin = {
-      async connect() {},
-      async disconnect() {
-        throw new Error('Failed to disconnect')
-      },
-      async sendData() {
-        return Buffer.alloc(0)
-      },
-      registerDataHandler() {},
-      deregisterDataHandler() {},
-      isConnected() {
-        return true
-      },
-    }
+    const {
+      sharedSecret,
+      destinationAccount: destinationAddress,
+    } = streamServer.generateAddressAndSecret()
 
-    await expect(
-      quote({ plugin, sharedSecret: Buffer.alloc(32), destinationAddress: 'private.foo' })
-    ).rejects.toBe(PaymentError.UnknownSourceAsset)
+    const { pay, pause, resume, events } = await quote({
+      plugin: senderPlugin1,
+      amountToSend: 50,
+      sharedSecret,
+      destinationAddress,
+      slippage: 1,
+      prices: {},
+      receiveMax: 3,
+    })
+
+    // Keep the connection open until the recipient sends money back
+    events.once('fulfill', () => pause())
+    const partialReceipt = await pay()
+    expect(partialReceipt.error).toBe(PaymentError.Cancelled)
+
+    // Recipient cannot send more than the receive max
+    await refundPromise
+    await sleep(200)
+    expect(refundStream!.totalSent).toBe('3')
+    refundStream!.setSendMax(3)
+
+    const receipt = await resume()
+    expect(receipt.error).toBeUndefined()
+    expect(receipt.amountSent).toEqual(new BigNumber(50))
+    expect(receipt.amountReceived).toEqual(new BigNumber(3))
+
+    await app.shutdown()
+    await streamServer.close()
   })
 
-  it('handles invalid F08 errors', async () => {
+  it('rejects incoming money by default', async () => {
     const [senderPlugin1, senderPlugin2] = MirrorPlugin.createPair()
     const [receiverPlugin1, receiverPlugin2] = MirrorPlugin.createPair()
 
-    const streamServerPlugin = new MirrorPlugin()
-    streamServerPlugin.mirror = receiverPlugin1
-
     const app = createApp({
-      ilpAddress: 'test.larry',
+      ilpAddress: 'private.larry',
       backend: 'one-to-one',
       spread: 0,
       accounts: {
-        alice: {
+        sender: {
           relation: 'child',
+          assetCode: 'ABC',
+          assetScale: 0,
           plugin: senderPlugin2,
-          assetCode: 'USD',
-          assetScale: 2,
-          maxPacketAmount: '10', // $0.10
         },
-        bob: {
+        receiver: {
           relation: 'child',
+          assetCode: 'ABC',
+          assetScale: 0,
           plugin: receiverPlugin1,
-          assetCode: 'USD',
-          assetScale: 2,
         },
       },
     })
     await app.listen()
 
-    // On the first & second packets, reply with an invalid F08: amount received <= maximum.
-    // This checks against a potential divide-by-0 error
-    let sentFirstInvalidReply = false
-    let sentSecondInvalidReply = false
-    receiverPlugin2.registerDataHandler(async (data) => {
-      if (!sentFirstInvalidReply) {
-        sentFirstInvalidReply = true
-
-        const writer = new Writer(16)
-        writer.writeUInt64(0) // Amount received
-        writer.writeUInt64(1) // Maximum
-
-        return serializeIlpReject({
-          code: IlpError.F08_AMOUNT_TOO_LARGE,
-          message: '',
-          triggeredBy: '',
-          data: writer.getBuffer(),
-        })
-      } else if (!sentSecondInvalidReply) {
-        sentSecondInvalidReply = true
-
-        const writer = new Writer(16)
-        writer.writeUInt64(1) // Amount received
-        writer.writeUInt64(1) // Maximum
-
-        return serializeIlpReject({
-          code: IlpError.F08_AMOUNT_TOO_LARGE,
-          message: '',
-          triggeredBy: '',
-          data: writer.getBuffer(),
-        })
-      } else {
-        return streamServerPlugin.dataHandler(data)
-      }
-    })
-
     const streamServer = await createServer({
-      plugin: streamServerPlugin,
+      plugin: receiverPlugin2,
     })
-
     streamServer.on('connection', (connection: Connection) => {
       connection.on('stream', (stream: DataAndMoneyStream) => {
         stream.setReceiveMax(Infinity)
-
-        stream.on('money', (amount: string) => {
-          // Test that it ignores the invalid F08, and uses
-          // the max packet amount of 10
-          expect(amount).toBe('10')
-        })
       })
     })
 
@@ -2732,24 +4990,37 @@ describe('payment execution', () => {
       destinationAccount: destinationAddress,
     } = streamServer.generateAddressAndSecret()
 
+    await expect(
+      quote({
+        plugin: senderPlugin1,
+        amountToSend: 10,
+        sharedSecret,
+        destinationAddress,
+        slippage: 1,
+        prices: {},
+        receiveMax: 0.5,
+      })
+    ).rejects.toBe(PaymentError.InvalidConfig)
+
     const { pay } = await quote({
-      amountToSend: new BigNumber(1),
-      destinationAddress,
-      sharedSecret,
       plugin: senderPlugin1,
+      amountToSend: 10,
+      sharedSecret,
+      destinationAddress,
       slippage: 1,
       prices: {},
     })
+
+    // Recipient doesn't know the sender's address, so it cannot send any packets
     const receipt = await pay()
-    expect(receipt.error).toBeUndefined()
-    expect(+receipt.amountSent).toEqual(1)
-    expect(+receipt.amountDelivered).toEqual(1)
+    expect(receipt.amountSent).toEqual(new BigNumber(10))
+    expect(receipt.amountReceived).toEqual(new BigNumber(0))
 
     await app.shutdown()
     await streamServer.close()
   })
 
-  it('retries on temporary errors', async () => {
+  it('fails if no packets are fulfilled before idle timeout', async () => {
     const [senderPlugin1, senderPlugin2] = MirrorPlugin.createPair()
     const [receiverPlugin1, receiverPlugin2] = MirrorPlugin.createPair()
 
@@ -2763,14 +5034,6 @@ describe('payment execution', () => {
           assetCode: 'ABC',
           assetScale: 0,
           plugin: senderPlugin2,
-          // Limit to 1 packet / 200ms
-          // should ensure a T05 error is encountered
-          rateLimit: {
-            capacity: 1,
-            refillCount: 1,
-            refillPeriod: 200,
-          },
-          maxPacketAmount: '1',
         },
         receiver: {
           relation: 'child',
@@ -2784,6 +5047,8 @@ describe('payment execution', () => {
 
     const streamServer = await createServer({
       plugin: receiverPlugin2,
+      // Reject all packets with an F99 reject -- block for 1s so the sender does't spam packets
+      shouldFulfill: () => new Promise((_, reject) => setTimeout(reject, 1000)),
     })
 
     streamServer.on('connection', (connection: Connection) => {
@@ -2797,26 +5062,22 @@ describe('payment execution', () => {
       destinationAccount: destinationAddress,
     } = streamServer.generateAddressAndSecret()
 
-    // 20 units / 1 max packet amount => at least 20 packets
-    const amountToSend = 20
     const { pay } = await quote({
       plugin: senderPlugin1,
-      amountToSend,
-      sharedSecret,
+      amountToSend: 10,
       destinationAddress,
-      slippage: 1,
-      prices: {},
+      sharedSecret,
     })
 
     const receipt = await pay()
-    expect(receipt.error).toBeUndefined()
-    expect(+receipt.amountSent).toBe(amountToSend)
+    expect(receipt.error).toBe(PaymentError.IdleTimeout)
+    expect(receipt.amountSent).toEqual(new BigNumber(0))
 
     await app.shutdown()
     await streamServer.close()
-  }, 20000)
+  }, 15000)
 
-  it('fails if no packets are fulfilled before idle timeout', async () => {
+  it('applies custom pacing and idle timeout limits', async () => {
     const [senderPlugin1, senderPlugin2] = MirrorPlugin.createPair()
     const [receiverPlugin1, receiverPlugin2] = MirrorPlugin.createPair()
 
@@ -2858,20 +5119,32 @@ describe('payment execution', () => {
       destinationAccount: destinationAddress,
     } = streamServer.generateAddressAndSecret()
 
-    const { pay } = await quote({
+    const { pay, events } = await quote({
       plugin: senderPlugin1,
       amountToSend: 10,
       destinationAddress,
       sharedSecret,
+      tuning: {
+        maxInFlightPackets: 1,
+        maxPacketsPerSecond: 10,
+        idleTimeout: 2000,
+      },
     })
 
+    let numberRejected = 0
+    events.on('reject', () => numberRejected++)
+
+    const start = Date.now()
     const receipt = await pay()
     expect(receipt.error).toBe(PaymentError.IdleTimeout)
-    expect(receipt.amountSent).toEqual(new BigNumber(0))
+    expect(Date.now() - start).toBeLessThan(5000)
+
+    // Only 1 packet is in-flight at a time, and each takes ~1 second to reject
+    expect(numberRejected).toBeLessThanOrEqual(4)
 
     await app.shutdown()
     await streamServer.close()
-  }, 15000)
+  })
 
   it('ends payment if the sequence number exceeds encryption safety', async () => {
     const log = createLogger('sequence')
@@ -3029,6 +5302,279 @@ describe('payment execution', () => {
   }, 10000)
 })
 
+describe('resuming payments', () => {
+  it('checkpoints and resumes a payment from a persisted state', async () => {
+    const [alice1, alice2] = MirrorPlugin.createPair(0, 0)
+    const [bob1, bob2] = MirrorPlugin.createPair(0, 0)
+
+    const app = createApp({
+      ilpAddress: 'test.larry',
+      backend: 'one-to-one',
+      spread: 0,
+      accounts: {
+        alice: {
+          relation: 'child',
+          plugin: alice2,
+          assetCode: 'ABC',
+          assetScale: 0,
+          maxPacketAmount: '1000',
+        },
+        bob: {
+          relation: 'child',
+          plugin: bob1,
+          assetCode: 'ABC',
+          assetScale: 0,
+        },
+      },
+    })
+    await app.listen()
+
+    const streamServer = await createServer({
+      plugin: bob2,
+    })
+
+    const connectionPromise = streamServer.acceptConnection()
+    streamServer.on('connection', (connection: Connection) => {
+      connection.on('stream', (stream: DataAndMoneyStream) => {
+        stream.setReceiveMax(Long.MAX_UNSIGNED_VALUE)
+      })
+    })
+
+    const {
+      sharedSecret,
+      destinationAccount: destinationAddress,
+    } = streamServer.generateAddressAndSecret()
+
+    const { toJSON, cancel } = await quote({
+      amountToSend: 10_000,
+      destinationAddress,
+      sharedSecret,
+      plugin: alice1,
+    })
+
+    // Simulate the first process sending 4,000 units before it crashed
+    const state: PaymentState = JSON.parse(JSON.stringify(toJSON()))
+    expect(state.amountSent).toBe('0')
+    expect(state.maxPacketAmount).toBe('1000')
+    expect(state.nextSequence).toBeGreaterThan(0)
+    await cancel()
+
+    // Record the latest checkpoint and the total amount when each packet is sent
+    const checkpoints: PaymentState[] = []
+    const sentPackets: { checkpoint?: PaymentState; totalSent: number; count: number }[] = []
+    let totalSent = 4000
+    const sendData = alice1.sendData.bind(alice1)
+    alice1.sendData = (data: Buffer) => {
+      totalSent += +deserializeIlpPrepare(data).amount
+      sentPackets.push({
+        checkpoint: checkpoints[checkpoints.length - 1],
+        totalSent,
+        count: sentPackets.length + 1,
+      })
+      return sendData(data)
+    }
+
+    const { pay, maxSourceAmount } = await resumePayment(
+      {
+        ...state,
+        amountSent: '4000',
+        amountDelivered: '4000',
+      },
+      alice1,
+      {
+        onCheckpoint: (state) => checkpoints.push(state),
+      }
+    )
+    expect(maxSourceAmount).toEqual(new BigNumber(10_000))
+
+    const receipt = await pay()
+    expect(receipt.error).toBeUndefined()
+    expect(receipt.amountSent).toEqual(new BigNumber(10_000))
+    expect(receipt.amountDelivered).toEqual(new BigNumber(10_000))
+
+    // Only the remaining amount was sent over the resumed connection
+    const serverConnection = await connectionPromise
+    expect(serverConnection.totalReceived).toBe('6000')
+
+    // Checkpoint before each packet is sent, including its amount and sequence number
+    expect(sentPackets.length).toBeGreaterThan(0)
+    sentPackets.forEach(({ checkpoint, totalSent, count }) => {
+      expect(+checkpoint!.amountSent).toBeGreaterThanOrEqual(totalSent)
+      expect(checkpoint!.nextSequence).toBeGreaterThanOrEqual(state.nextSequence + count)
+    })
+
+    // In-flight amounts are also assumed to deliver at least the minimum exchange rate (1% slippage)
+    checkpoints.forEach(({ amountSent, amountDelivered }) =>
+      expect(+amountDelivered).toBeGreaterThanOrEqual(+amountSent * 0.99)
+    )
+    expect(checkpoints[checkpoints.length - 1].amountSent).toBe('10000')
+    expect(checkpoints[checkpoints.length - 1].amountDelivered).toBe('10000')
+    expect(checkpoints[0].nextSequence).toBeGreaterThan(state.nextSequence)
+
+    await app.shutdown()
+    await streamServer.close()
+  })
+
+  it('resumes receiving money up to the remaining receive max', async () => {
+    const [senderPlugin, receiverPlugin] = MirrorPlugin.createPair()
+    await receiverPlugin.connect()
+
+    const sharedSecret = randomBytes(32)
+    const encryptionKey = await generatePskEncryptionKey(sharedSecret)
+
+    // Record the frames of each request, and close the connection
+    const requestFrames: Frame[][] = []
+    receiverPlugin.registerDataHandler(async (data) => {
+      const prepare = deserializeIlpPrepare(data)
+      const { sequence, frames } = await Packet.decryptAndDeserialize(encryptionKey, prepare.data)
+      requestFrames.push(frames)
+
+      const streamReply = new Packet(sequence, IlpPacketType.Reject, 0, [
+        new ConnectionCloseFrame(ErrorCode.NoError, ''),
+      ])
+      return serializeIlpReject({
+        code: IlpError.F99_APPLICATION_ERROR,
+        message: '',
+        triggeredBy: '',
+        data: await streamReply.serializeAndEncrypt(encryptionKey),
+      })
+    })
+
+    const state: PaymentState = {
+      sharedSecret: sharedSecret.toString('base64'),
+      destinationAddress: 'private.bob',
+      sourceAccount: {
+        ilpAddress: 'private.alice' as IlpAddress,
+        assetCode: 'ABC',
+        assetScale: 0 as AssetScale,
+      },
+      destinationAccount: {
+        ilpAddress: 'private.bob' as IlpAddress,
+        assetCode: 'ABC',
+        assetScale: 0 as AssetScale,
+      },
+      targetType: 'FixedSend',
+      targetAmount: '100',
+      minExchangeRate: ['1', '2'],
+      lowerBoundRate: ['1', '1'],
+      upperBoundRate: ['2', '1'],
+      maxPacketAmount: '100',
+      amountSent: '0',
+      amountDelivered: '0',
+      nextSequence: 1,
+      receiveMax: '10',
+      amountReceived: '4',
+    }
+
+    await expect(resumePayment({ ...state, amountReceived: '11' }, senderPlugin)).rejects.toBe(
+      PaymentError.InvalidPaymentState
+    )
+
+    const { pay, toJSON } = await resumePayment(state, senderPlugin)
+    expect(toJSON().receiveMax).toBe('10')
+    expect(toJSON().amountReceived).toBe('4')
+
+    const receipt = await pay()
+    expect(receipt.error).toBe(PaymentError.ClosedByRecipient)
+    expect(receipt.amountReceived).toEqual(new BigNumber(4))
+
+    // Sender shares its address with the remaining receive limit
+    expect(requestFrames[0]).toContainEqual(new ConnectionNewAddressFrame('private.alice'))
+    expect(requestFrames[0]).toContainEqual(new StreamMaxMoneyFrame(1, 10, 4))
+  })
+
+  it('enforces the mandate after resuming', async () => {
+    const [senderPlugin, receiverPlugin] = MirrorPlugin.createPair()
+    await receiverPlugin.connect()
+
+    const mandate = {
+      mandateUrl: 'https://wallet.example/mandates/123',
+      accountUrl: 'https://wallet.example/alice',
+      amount: '1000',
+      balance: '500',
+      assetCode: 'ABC',
+      assetScale: 0,
+    }
+    const state: PaymentState = {
+      sharedSecret: randomBytes(32).toString('base64'),
+      destinationAddress: 'private.bob',
+      sourceAccount: {
+        ilpAddress: 'private.alice' as IlpAddress,
+        assetCode: 'ABC',
+        assetScale: 0 as AssetScale,
+      },
+      destinationAccount: {
+        ilpAddress: 'private.bob' as IlpAddress,
+        assetCode: 'ABC',
+        assetScale: 0 as AssetScale,
+      },
+      targetType: 'FixedSend',
+      targetAmount: '100',
+      minExchangeRate: ['1', '2'],
+      lowerBoundRate: ['1', '1'],
+      upperBoundRate: ['2', '1'],
+      maxPacketAmount: '100',
+      amountSent: '0',
+      amountDelivered: '0',
+      nextSequence: 1,
+      mandate,
+    }
+
+    // Mandate is fetched again, since it may have changed since the snapshot
+    const fetchedMandate = (changes: { [key: string]: string } = {}) => ({
+      id: mandate.mandateUrl,
+      account: mandate.accountUrl,
+      amount: mandate.amount,
+      balance: mandate.balance,
+      assetCode: mandate.assetCode,
+      assetScale: mandate.assetScale,
+      ...changes,
+    })
+    const scope = nock('https://wallet.example')
+      .get('/mandates/123')
+      .reply(200, fetchedMandate({ expiresAt: new Date(Date.now() - 1000).toISOString() }))
+      .get('/mandates/123')
+      .reply(200, fetchedMandate({ assetCode: 'XYZ' }))
+      .get('/mandates/123')
+      .reply(200, fetchedMandate({ balance: '99' }))
+      .get('/mandates/123')
+      .reply(200, fetchedMandate({ balance: '60' }))
+
+    await expect(resumePayment(state, senderPlugin)).rejects.toBe(PaymentError.InvalidMandate)
+    await expect(resumePayment(state, senderPlugin)).rejects.toBe(PaymentError.InvalidMandate)
+    await expect(resumePayment(state, senderPlugin)).rejects.toBe(
+      PaymentError.InsufficientMandateBalance
+    )
+
+    await expect(
+      resumePayment({ ...state, mandate: { ...mandate, assetCode: 'XYZ' } }, senderPlugin)
+    ).rejects.toBe(PaymentError.InvalidPaymentState)
+
+    // Balance only needs to cover the remaining amount to send
+    const { toJSON, cancel, ...quote } = await resumePayment(
+      { ...state, amountSent: '40', amountDelivered: '40' },
+      senderPlugin
+    )
+    expect(quote.mandate?.balance).toEqual(new BigNumber(60))
+    expect(toJSON().mandate).toEqual({ ...mandate, balance: '60' })
+    await cancel()
+    scope.done()
+  })
+
+  it('fails if the payment state is invalid', async () => {
+    const plugin = new MirrorPlugin()
+    await expect(
+      resumePayment(
+        {
+          sharedSecret: randomBytes(31).toString('base64'),
+        } as PaymentState,
+        plugin
+      )
+    ).rejects.toBe(PaymentError.InvalidPaymentState)
+    expect(plugin.isConnected()).toBe(false)
+  })
+})
+
 describe('interledger.rs integration', () => {
   it('pays to SPSP server', async () => {
     // TODO Switch all of this over to custom Docker network after this PR is merged:
@@ -0,0 +1,83 @@
+/* eslint-disable @typescript-eslint/no-non-null-assertion */
+import { describe, it, expect } from '@jest/globals'
+import createLogger from 'ilp-logger'
+import { IlpError } from 'ilp-packet'
+import { ControllerMap, StreamFulfill, StreamReject, StreamRequest } from '../src/controllers'
+import { CongestionController } from '../src/controllers/liquidity-congestion'
+import { PacingController } from '../src/controllers/pacer'
+import { Int, RejectBuilder, sleep } from '../src/utils'
+
+const log = createLogger('ilp-pay:test')
+
+const createRequest = (amount: number, isFulfillable = true): StreamRequest => ({
+  sequence: 0,
+  sourceAmount: Int.from(amount)!,
+  minDestinationAmount: Int.ZERO,
+  requestFrames: [],
+  isFulfillable,
+  log,
+})
+
+const createFulfill = () => new StreamFulfill(log)
+
+const createReject = (code: IlpError) => new StreamReject(log, new RejectBuilder().setCode(code))
+
+const setup = () => {
+  const controllers: ControllerMap = new Map()
+  controllers.set(PacingController, new PacingController())
+  const congestion = new CongestionController(controllers)
+  controllers.set(CongestionController, congestion)
+  return congestion
+}
+
+describe('CongestionController', () => {
+  it('does not limit packets before a T04 error', () => {
+    const congestion = setup()
+    congestion.applyRequest(createRequest(1000))(createFulfill())
+    congestion.applyRequest(createRequest(1000))(createReject(IlpError.T00_INTERNAL_ERROR))
+    expect(congestion.getNextPacketAmount()).toBeUndefined()
+  })
+
+  it('reduces packet amounts after T04 errors', () => {
+    const congestion = setup()
+
+    congestion.applyRequest(createRequest(1000))(createReject(IlpError.T04_INSUFFICIENT_LIQUIDITY))
+    expect(congestion.getNextPacketAmount()).toEqual(Int.from(500))
+
+    // Subsequent T04s further reduce the bandwidth
+    congestion.applyRequest(createRequest(500))(createReject(IlpError.T04_INSUFFICIENT_LIQUIDITY))
+    expect(congestion.getNextPacketAmount()).toEqual(Int.from(250))
+  })
+
+  it('increases packet amounts after Fulfills', () => {
+    const congestion = setup()
+
+    congestion.applyRequest(createRequest(1000))(createReject(IlpError.T04_INSUFFICIENT_LIQUIDITY))
+    congestion.applyRequest(createRequest(500))(createFulfill())
+    congestion.applyRequest(createRequest(500))(createFulfill())
+
+    const packetAmount = congestion.getNextPacketAmount()!
+    expect(packetAmount.isGreaterThan(Int.from(500)!)).toBe(true)
+  })
+
+  it('limits bandwidth to the recently fulfilled throughput', async () => {
+    const congestion = setup()
+
+    // Fulfill 10 units in ~200ms => ~50 units / second, so packets at 40 / second are ~1 unit
+    for (let i = 0; i < 11; i++) {
+      congestion.applyRequest(createRequest(1))(createFulfill())
+      await sleep(20)
+    }
+    congestion.applyRequest(createRequest(1000))(createReject(IlpError.T04_INSUFFICIENT_LIQUIDITY))
+
+    expect(congestion.getNextPacketAmount()).toEqual(Int.ONE)
+  })
+
+  it('ignores packets that cannot be fulfilled', () => {
+    const congestion = setup()
+    congestion.applyRequest(createRequest(1000, false))(
+      createReject(IlpError.T04_INSUFFICIENT_LIQUIDITY)
+    )
+    expect(congestion.getNextPacketAmount()).toBeUndefined()
+  })
+})
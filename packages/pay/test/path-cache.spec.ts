@@ -0,0 +1,50 @@
+import { describe, it, expect } from '@jest/globals'
+import { AssetScale } from 'ilp-protocol-ildcp'
+import { PathCache } from '../src/path-cache'
+import { Int, PositiveInt, Ratio, sleep } from '../src/utils'
+
+const path = {
+  sourceAsset: { assetCode: 'USD', assetScale: 2 as AssetScale },
+  destinationAsset: { assetCode: 'EUR', assetScale: 2 as AssetScale },
+  maxPacketAmount: Int.from(1000) as PositiveInt,
+  lowerBoundRate: new Ratio(Int.from(89) as PositiveInt, Int.from(100) as PositiveInt),
+  upperBoundRate: new Ratio(Int.from(90) as PositiveInt, Int.from(100) as PositiveInt),
+}
+
+describe('PathCache', () => {
+  it('caches paths by destination prefix', () => {
+    const cache = new PathCache()
+    cache.set('g.wallet.alice.connection1', path)
+
+    expect(cache.get('g.wallet.alice.connection2', path.sourceAsset)).toBe(path)
+    expect(cache.get('g.wallet.bob.connection1', path.sourceAsset)).toBeUndefined()
+
+    cache.delete('g.wallet.alice.connection3')
+    expect(cache.get('g.wallet.alice.connection1', path.sourceAsset)).toBeUndefined()
+  })
+
+  it('caches paths until the ttl expires', async () => {
+    const cache = new PathCache({ ttl: 50 })
+    cache.set('g.wallet.alice.connection1', path)
+    expect(cache.get('g.wallet.alice.connection1', path.sourceAsset)).toBe(path)
+
+    await sleep(100)
+    expect(cache.get('g.wallet.alice.connection1', path.sourceAsset)).toBeUndefined()
+  })
+
+  it('ignores paths probed from a different source asset', () => {
+    const cache = new PathCache()
+    cache.set('g.wallet.alice.connection1', path)
+
+    expect(
+      cache.get('g.wallet.alice.connection1', { assetCode: 'USD', assetScale: 6 as AssetScale })
+    ).toBeUndefined()
+    expect(
+      cache.get('g.wallet.alice.connection1', { assetCode: 'GBP', assetScale: 2 as AssetScale })
+    ).toBeUndefined()
+  })
+
+  it('fails if the ttl is invalid', () => {
+    expect(() => new PathCache({ ttl: -1 })).toThrow()
+  })
+})
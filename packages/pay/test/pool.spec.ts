@@ -0,0 +1,196 @@
+/* eslint-disable @typescript-eslint/no-non-null-assertion */
+import { describe, it, expect } from '@jest/globals'
+import BigNumber from 'bignumber.js'
+import { createApp } from 'ilp-connector'
+import {
+  deserializeIlpPrepare,
+  deserializeIlpReject,
+  IlpError,
+  serializeIlpPrepare,
+} from 'ilp-packet'
+import { Connection, createServer, DataAndMoneyStream } from 'ilp-protocol-stream'
+import { randomBytes } from 'ilp-protocol-stream/dist/src/crypto'
+import Long from 'long'
+import { createPaymentPool, PaymentError, Quote } from '../src'
+import { MirrorPlugin } from './helpers/plugin'
+
+const setup = async () => {
+  const [alice1, alice2] = MirrorPlugin.createPair()
+  const [bob1, bob2] = MirrorPlugin.createPair()
+
+  const app = createApp({
+    ilpAddress: 'test.larry',
+    backend: 'one-to-one',
+    spread: 0,
+    accounts: {
+      alice: {
+        relation: 'child',
+        plugin: alice2,
+        assetCode: 'USD',
+        assetScale: 2,
+        maxPacketAmount: '100',
+      },
+      bob: {
+        relation: 'child',
+        plugin: bob1,
+        assetCode: 'USD',
+        assetScale: 2,
+      },
+    },
+  })
+  await app.listen()
+
+  const streamServer = await createServer({
+    plugin: bob2,
+  })
+  streamServer.on('connection', (connection: Connection) => {
+    connection.on('stream', (stream: DataAndMoneyStream) => {
+      stream.setReceiveMax(Long.MAX_UNSIGNED_VALUE)
+    })
+  })
+
+  return { alice1, alice2, app, streamServer }
+}
+
+describe('payment pool', () => {
+  it('pays many recipients concurrently over a single plugin', async () => {
+    const { alice1, app, streamServer } = await setup()
+
+    // Count the IL-DCP requests sent over the shared plugin
+    let ildcpRequests = 0
+    const sendData = alice1.sendData.bind(alice1)
+    alice1.sendData = async (data: Buffer) => {
+      if (deserializeIlpPrepare(data).destination === 'peer.config') {
+        ildcpRequests++
+      }
+      return sendData(data)
+    }
+
+    const pool = createPaymentPool(alice1)
+    const createOptions = (amountToSend: BigNumber.Value) => {
+      const { sharedSecret, destinationAccount } = streamServer.generateAddressAndSecret()
+      return {
+        amountToSend,
+        destinationAddress: destinationAccount,
+        sharedSecret,
+        slippage: 1,
+        prices: {},
+      }
+    }
+
+    const results = await pool.batchQuote([
+      createOptions(1.23),
+      createOptions(0),
+      createOptions(4.56),
+      createOptions(7.89),
+    ])
+    expect(results[1]).toBe(PaymentError.InvalidSourceAmount)
+    expect(ildcpRequests).toBe(1)
+
+    const quotes = [results[0], results[2], results[3]] as Quote[]
+
+    // Each connection is assigned a unique source address to route incoming packets
+    const sourceAddresses = quotes.map((q) => q.sourceAccount.ilpAddress)
+    expect(new Set(sourceAddresses).size).toBe(3)
+    sourceAddresses.forEach((address) => expect(address.startsWith('test.larry.alice.')).toBe(true))
+
+    const receipts = await Promise.all(quotes.map((q) => q.pay()))
+    expect(receipts.map((r) => r.error)).toEqual([undefined, undefined, undefined])
+    expect(receipts.map((r) => r.amountDelivered)).toEqual([
+      new BigNumber(1.23),
+      new BigNumber(4.56),
+      new BigNumber(7.89),
+    ])
+
+    // Shared plugin remains connected after the payments end
+    expect(alice1.isConnected()).toBe(true)
+
+    await pool.close()
+    expect(alice1.isConnected()).toBe(false)
+
+    await app.shutdown()
+    await streamServer.close()
+  })
+
+  it('removes the data handler if the plugin fails to connect', async () => {
+    const { alice1, app, streamServer } = await setup()
+
+    // Fail to connect the first time only
+    const connect = alice1.connect.bind(alice1)
+    let failConnect = true
+    alice1.connect = async () => {
+      if (failConnect) {
+        failConnect = false
+        throw new Error('Failed to connect')
+      }
+      return connect()
+    }
+    const defaultDataHandler = alice1.dataHandler
+
+    const pool = createPaymentPool(alice1)
+    const { sharedSecret, destinationAccount } = streamServer.generateAddressAndSecret()
+    const options = {
+      amountToSend: 1,
+      destinationAddress: destinationAccount,
+      sharedSecret,
+      slippage: 1,
+      prices: {},
+    }
+
+    await expect(pool.quote(options)).rejects.toBe(PaymentError.Disconnected)
+    expect(alice1.dataHandler).toBe(defaultDataHandler)
+
+    // Connecting again registers the handler
+    const { cancel } = await pool.quote(options)
+    expect(alice1.dataHandler).not.toBe(defaultDataHandler)
+    await cancel()
+
+    await pool.close()
+    await app.shutdown()
+    await streamServer.close()
+  })
+
+  it('routes incoming packets by destination address', async () => {
+    const { alice1, alice2, app, streamServer } = await setup()
+
+    const pool = createPaymentPool(alice1)
+    const { sharedSecret, destinationAccount } = streamServer.generateAddressAndSecret()
+    const { sourceAccount, cancel } = await pool.quote({
+      amountToSend: 1,
+      destinationAddress: destinationAccount,
+      sharedSecret,
+      slippage: 1,
+      prices: {},
+    })
+
+    const sendPrepare = async (destination: string) =>
+      deserializeIlpReject(
+        await alice2.sendData(
+          serializeIlpPrepare({
+            destination,
+            amount: '1',
+            executionCondition: randomBytes(32),
+            expiresAt: new Date(Date.now() + 30_000),
+            data: randomBytes(100),
+          })
+        )
+      )
+
+    // Connection rejects packets it cannot decrypt
+    const routedReject = await sendPrepare(sourceAccount.ilpAddress)
+    expect(routedReject.code).toBe(IlpError.F06_UNEXPECTED_PAYMENT)
+    expect(routedReject.triggeredBy).toBe(sourceAccount.ilpAddress)
+
+    const unknownReject = await sendPrepare('test.larry.alice.unknown')
+    expect(unknownReject.code).toBe(IlpError.F02_UNREACHABLE)
+
+    // After the payment is cancelled, packets are no longer routed to it
+    await cancel()
+    const closedReject = await sendPrepare(sourceAccount.ilpAddress)
+    expect(closedReject.code).toBe(IlpError.F02_UNREACHABLE)
+
+    await pool.close()
+    await app.shutdown()
+    await streamServer.close()
+  })
+})
@@ -0,0 +1,264 @@
+import { describe, it, expect, jest, afterEach } from '@jest/globals'
+import nock from 'nock'
+import {
+  StaticRateBackend,
+  CallbackRateBackend,
+  CachedRateBackend,
+  FallbackRateBackend,
+  Prices,
+} from '../src/rates'
+import { CoinCapRateBackend } from '../src/rates/coincap'
+import { EcbRateBackend } from '../src/rates/ecb'
+import { sleep } from '../src/utils'
+import { createMockServer } from './helpers/server'
+
+afterEach(() => {
+  nock.cleanAll()
+})
+
+describe('CachedRateBackend', () => {
+  it('caches prices until the ttl expires', async () => {
+    const fetchPrices = jest.fn(async () => ({ USD: 1, EUR: 1.1 }))
+    const backend = new CachedRateBackend(new CallbackRateBackend(fetchPrices), { ttl: 100 })
+
+    await expect(backend.fetchPrices(['USD', 'EUR'])).resolves.toEqual({ USD: 1, EUR: 1.1 })
+    await expect(backend.fetchPrices(['USD', 'EUR'])).resolves.toEqual({ USD: 1, EUR: 1.1 })
+    expect(fetchPrices).toBeCalledTimes(1)
+
+    await sleep(150)
+    await backend.fetchPrices(['USD', 'EUR'])
+    expect(fetchPrices).toBeCalledTimes(2)
+  })
+
+  it('shares a single request between concurrent callers', async () => {
+    const fetchPrices = jest.fn(async () => {
+      await sleep(20)
+      return { USD: 1 }
+    })
+    const backend = new CachedRateBackend(new CallbackRateBackend(fetchPrices))
+
+    await Promise.all([backend.fetchPrices(['USD']), backend.fetchPrices(['USD'])])
+    expect(fetchPrices).toBeCalledTimes(1)
+  })
+
+  it('only shares requests between concurrent callers for the same assets', async () => {
+    const fetchPrices = jest.fn(async (assetCodes: string[]) => {
+      await sleep(20)
+      return assetCodes.reduce((prices, code) => ({ ...prices, [code]: 1 }), {} as Prices)
+    })
+    const backend = new CachedRateBackend(new CallbackRateBackend(fetchPrices))
+
+    const [usd, usdXrp, xrpUsd] = await Promise.all([
+      backend.fetchPrices(['USD']),
+      backend.fetchPrices(['USD', 'XRP']),
+      backend.fetchPrices(['XRP', 'USD']),
+    ])
+    expect(usd).toEqual({ USD: 1 })
+    expect(usdXrp).toEqual({ USD: 1, XRP: 1 })
+    expect(xrpUsd).toEqual({ USD: 1, XRP: 1 })
+    expect(fetchPrices).toBeCalledTimes(2)
+  })
+
+  it('refetches if cached prices are missing an asset', async () => {
+    const fetchPrices = jest.fn(async () => ({ USD: 1 }))
+    const backend = new CachedRateBackend(new CallbackRateBackend(fetchPrices))
+
+    await backend.fetchPrices(['USD'])
+    await backend.fetchPrices(['USD', 'XRP'])
+    expect(fetchPrices).toBeCalledTimes(2)
+  })
+
+  it('caches prices of each asset independently', async () => {
+    const fetchPrices = jest.fn(async (assetCodes: string[]) =>
+      assetCodes.reduce((prices, code) => ({ ...prices, [code]: 1 }), {} as Prices)
+    )
+    const backend = new CachedRateBackend(new CallbackRateBackend(fetchPrices))
+
+    await backend.fetchPrices(['USD', 'EUR'])
+    await backend.fetchPrices(['XRP', 'BTC'])
+    expect(fetchPrices).toBeCalledTimes(2)
+
+    // Fetching prices of other assets doesn't evict cached prices
+    await expect(backend.fetchPrices(['USD', 'EUR'])).resolves.toMatchObject({ USD: 1, EUR: 1 })
+    await expect(backend.fetchPrices(['EUR', 'XRP'])).resolves.toMatchObject({ EUR: 1, XRP: 1 })
+    expect(fetchPrices).toBeCalledTimes(2)
+  })
+
+  it('only uses stale prices if they include all the assets', async () => {
+    let available = true
+    const backend = new CachedRateBackend(
+      new CallbackRateBackend(async (assetCodes) => {
+        if (!available) {
+          throw new Error('unavailable')
+        }
+        return assetCodes.reduce((prices, code) => ({ ...prices, [code]: 1 }), {} as Prices)
+      }),
+      { ttl: 0, maxStaleness: 100 }
+    )
+
+    await backend.fetchPrices(['USD'])
+    available = false
+
+    await expect(backend.fetchPrices(['USD'])).resolves.toEqual({ USD: 1 })
+    await expect(backend.fetchPrices(['USD', 'EUR'])).rejects.toThrow('unavailable')
+  })
+
+  it('uses stale prices within the staleness limit if fetching fails', async () => {
+    let prices: Prices | undefined = { USD: 1 }
+    const backend = new CachedRateBackend(
+      new CallbackRateBackend(async () => {
+        if (!prices) {
+          throw new Error('unavailable')
+        }
+        return prices
+      }),
+      { ttl: 0, maxStaleness: 100 }
+    )
+
+    await backend.fetchPrices(['USD'])
+    prices = undefined
+
+    await expect(backend.fetchPrices(['USD'])).resolves.toEqual({ USD: 1 })
+
+    await sleep(150)
+    await expect(backend.fetchPrices(['USD'])).rejects.toThrow('unavailable')
+  })
+
+  it('throws if the ttl is invalid', () => {
+    expect(() => new CachedRateBackend(new StaticRateBackend({}), { ttl: -1 })).toThrow()
+  })
+})
+
+describe('FallbackRateBackend', () => {
+  it('falls back to the next backend if one fails', async () => {
+    const backend = new FallbackRateBackend([
+      new CallbackRateBackend(() => Promise.reject(new Error('outage'))),
+      new StaticRateBackend({ USD: 1, JPY: 0.0093 }),
+    ])
+
+    await expect(backend.fetchPrices(['USD', 'JPY'])).resolves.toEqual({ USD: 1, JPY: 0.0093 })
+  })
+
+  it('falls back to the next backend if prices are missing', async () => {
+    const backend = new FallbackRateBackend([
+      new StaticRateBackend({ USD: 1, BTC: 9000 }),
+      new StaticRateBackend({ USD: 1, EUR: 1.12 }),
+    ])
+
+    await expect(backend.fetchPrices(['EUR', 'USD'])).resolves.toEqual({ USD: 1, EUR: 1.12 })
+  })
+
+  it('fails if all backends fail', async () => {
+    const backend = new FallbackRateBackend([
+      new CallbackRateBackend(() => Promise.reject(new Error('outage'))),
+      new StaticRateBackend({ USD: 1 }),
+    ])
+
+    await expect(backend.fetchPrices(['USD', 'EUR'])).rejects.toThrow(
+      'All rate backends failed: Error: outage; no prices for USD, EUR'
+    )
+  })
+})
+
+describe('CoinCapRateBackend', () => {
+  it('fetches prices and rates', async () => {
+    nock('https://api.coincap.io')
+      .get('/v2/assets')
+      .reply(200, {
+        timestamp: Date.now(),
+        data: [{ symbol: 'BTC', priceUsd: '9124.51' }],
+      })
+      .get('/v2/rates')
+      .reply(200, {
+        timestamp: Date.now(),
+        data: [{ symbol: 'EUR', rateUsd: '1.12' }],
+      })
+
+    await expect(new CoinCapRateBackend().fetchPrices()).resolves.toEqual({
+      BTC: 9124.51,
+      EUR: 1.12,
+    })
+  })
+
+  it('fetches prices with a custom HTTP client', async () => {
+    const server = await createMockServer({
+      '/v2/assets': {
+        body: { timestamp: Date.now(), data: [{ symbol: 'ETH', priceUsd: '208.46' }] },
+      },
+      '/v2/rates': {
+        body: { timestamp: Date.now(), data: [{ symbol: 'GBP', rateUsd: '1.23' }] },
+      },
+    })
+
+    await expect(new CoinCapRateBackend(server.httpClient).fetchPrices()).resolves.toEqual({
+      ETH: 208.46,
+      GBP: 1.23,
+    })
+    expect(server.requests.map((r) => r.path)).toEqual(['/v2/assets', '/v2/rates'])
+
+    await server.close()
+  })
+
+  it('fails if the API responds with an error', async () => {
+    const server = await createMockServer({
+      '/v2/assets': { status: 503, body: 'Service Unavailable' },
+    })
+
+    await expect(new CoinCapRateBackend(server.httpClient).fetchPrices()).rejects.toThrow(
+      'failed with status 503'
+    )
+
+    await server.close()
+  })
+})
+
+describe('EcbRateBackend', () => {
+  const createResponse = (date: Date) => `<?xml version="1.0" encoding="UTF-8"?>
+<gesmes:Envelope xmlns:gesmes="http://www.gesmes.org/xml/2002-08-01" xmlns="http://www.ecb.int/vocabulary/2002-08-01/eurofxref">
+  <gesmes:subject>Reference rates</gesmes:subject>
+  <Cube>
+    <Cube time="${date.toISOString().slice(0, 10)}">
+      <Cube currency="USD" rate="1.25"/>
+      <Cube currency="JPY" rate="125"/>
+      <Cube currency="XYZ" rate="0"/>
+    </Cube>
+  </Cube>
+</gesmes:Envelope>`
+
+  it('fetches prices relative to the euro', async () => {
+    nock('https://www.ecb.europa.eu')
+      .get('/stats/eurofxref/eurofxref-daily.xml')
+      .reply(200, createResponse(new Date()))
+
+    await expect(new EcbRateBackend().fetchPrices()).resolves.toEqual({
+      EUR: 1,
+      USD: 0.8,
+      JPY: 0.008,
+    })
+  })
+
+  it('fails if the rates are outdated', async () => {
+    nock('https://www.ecb.europa.eu')
+      .get('/stats/eurofxref/eurofxref-daily.xml')
+      .reply(200, createResponse(new Date(Date.now() - 5 * 24 * 60 * 60 * 1000)))
+
+    await expect(new EcbRateBackend().fetchPrices()).rejects.toThrow('Invalid timestamp')
+  })
+
+  it('fetches prices with a custom HTTP client', async () => {
+    const server = await createMockServer({
+      '/stats/eurofxref/eurofxref-daily.xml': {
+        body: createResponse(new Date()),
+        headers: { 'Content-Type': 'text/xml' },
+      },
+    })
+
+    await expect(new EcbRateBackend(server.httpClient).fetchPrices()).resolves.toEqual({
+      EUR: 1,
+      USD: 0.8,
+      JPY: 0.008,
+    })
+
+    await server.close()
+  })
+})
@@ -19,18 +19,58 @@ import {
   ErrorCode,
   ConnectionAssetDetailsFrame,
   StreamReceiptFrame,
+  StreamMaxMoneyFrame,
+  StreamMoneyFrame,
 } from 'ilp-protocol-stream/dist/src/packet'
-import { LongValue } from 'ilp-protocol-stream/dist/src/util/long'
+import { longFromValue, LongValue } from 'ilp-protocol-stream/dist/src/util/long'
 import { createReceipt } from 'ilp-protocol-stream/dist/src/util/receipt'
 import Long from 'long'
 
 /** Parameters to statelessly generate new STREAM connections and handle incoming packets for STREAM connections. */
 export interface ServerOptions {
-  /** Secret used to statelessly generate credentials for incoming STREAM connections. */
-  serverSecret: Buffer
+  /** Secret used to statelessly generate credentials for incoming STREAM connections. Required unless a keyring is provided. */
+  serverSecret?: Buffer
+
+  /**
+   * Active secrets to statelessly generate and validate credentials, identified by key IDs encoded in each
+   * connection token, to rotate secrets without invalidating outstanding credentials. New credentials use
+   * the first, primary key. Credentials from any key in the keyring, or from the key marked as the former
+   * `serverSecret`, are accepted.
+   */
+  keyring?: ServerKey[]
 
   /** Base ILP address of this STREAM server to access it over the Interledger network. */
   serverAddress: string
+
+  /**
+   * Set of revoked connection IDs which may no longer receive money, such as a `Set`, or a synchronous
+   * cache kept up-to-date from a shared database. Default: in-memory set
+   */
+  denylist?: ConnectionDenylist
+}
+
+/** Secret in a keyring to generate and validate STREAM connection credentials */
+export interface ServerKey {
+  /** Identifier of this key encoded in each connection token: integer 0-255. */
+  keyId: number
+
+  /** 32-byte secret to derive keys for many STREAM connections. */
+  secret: Buffer
+
+  /**
+   * Is this secret a former `serverSecret`? If so, credentials it generated before the keyring was configured,
+   * without a key ID, are also accepted. Only one key may be marked as legacy.
+   */
+  legacy?: boolean
+}
+
+/** Set of revoked connection IDs, checked synchronously for each incoming packet */
+export interface ConnectionDenylist {
+  /** Revoke the connection */
+  add(connectionId: string): void
+
+  /** Was the connection revoked? */
+  has(connectionId: string): boolean
 }
 
 /** Credentials for a client to setup a STREAM connection with a STREAM server */
@@ -50,20 +90,39 @@ export interface IncomingMoney {
   /** Arbitrary data to attribute or handle an incoming payment, encoded when the credentials were generated. */
   paymentTag?: string
 
+  /**
+   * Maximum amount the recipient can receive over this STREAM connection, encoded when the credentials were generated.
+   * The stateless server only rejects individual packets exceeding it: the API consumer must track the total received
+   * over the connection, and decline money that would exceed it with `declineOverReceiveMax`.
+   * `StatefulStreamReceiver` tracks and enforces the total by default.
+   */
+  receiveMax?: Long
+
   /**
    * Sign and include and STREAM receipt for the total amount received on this STREAM connection, per `connectionId`,
-   * including the additional amount from this packet. Amount must be within the u64 range.
+   * including the additional amount from this packet. If a receive max was encoded, also advertise it with this total
+   * in `StreamMaxMoney` frames, which are omitted until the total is set. Amount must be within the u64 range.
    */
   setTotalReceived(totalReceived: LongValue): void
 
   /** Fulfill the money from this incoming ILP Prepare packet */
   accept(): IlpFulfill
 
-  /** Temporarily decline the incoming money: inform STREAM sender to backoff in time (T00 Reject: Temporary Internal Error) */
-  temporaryDecline(): IlpReject
+  /**
+   * Temporarily decline the incoming money: inform STREAM sender to backoff in time (T00 Reject: Temporary Internal Error,
+   * or the given temporary error code, such as T04: Insufficient Liquidity)
+   */
+  temporaryDecline(code?: IlpError): IlpReject
 
   /** Inform the sender to close their connection */
   finalDecline(): IlpReject
+
+  /**
+   * Decline the incoming money since it would exceed the receive max, but keep the connection open: inform the sender
+   * of the remaining amount it may send, the receive max less the total received, with `StreamMaxMoney` frames
+   * (F99 Reject). Amounts must be within the u64 range.
+   */
+  declineOverReceiveMax(receiveMax: LongValue, totalReceived: LongValue): IlpReject
 }
 
 /** Application-layer metadata to encode within the credentials of a new STREAM connection. */
@@ -88,6 +147,32 @@ interface ConnectionDetails {
     code: string
     scale: number
   }
+
+  /**
+   * Maximum amount the recipient can receive over this connection, such as the remaining amount of an invoice.
+   * Shared with the sender so it may limit how much it sends. Since the server is stateless, it only rejects
+   * individual packets that exceed it, and the API consumer must enforce the total received over the connection,
+   * such as with `StatefulStreamReceiver`.
+   */
+  receiveMax?: LongValue
+
+  /** Time after which the connection may no longer receive money, such as when an invoice expires. */
+  expiresAt?: Date
+}
+
+/** Keys derived from a server secret */
+interface DerivedKeys {
+  /** Identifier encoded in each connection token, or `undefined` for a single server secret */
+  keyId?: number
+
+  /** Accept connection tokens generated from this secret without a key ID */
+  legacy: boolean
+
+  /** Derived key for generating shared secrets */
+  sharedSecretKeyGen: Buffer
+
+  /** Derived key for generating connection tokens */
+  connectionTokenKeyGen: Buffer
 }
 
 /**
@@ -95,11 +180,14 @@ interface ConnectionDetails {
  * serverAddress + "." + base64url(encrypt(connectionToken, serverSecret))
  * - Encrypted with AES-256-GCM
  * - Random 12-byte IV ensures uniqueness
+ * - If credentials are generated from a keyring, the encrypted token is prefixed with
+ *   the UInt8 key ID of the secret it was encrypted with
  *
  * connectionToken schema:
  * ===================================
  *
- * - `flags`         -- UInt8 -- Bit string of enabled features: (1) payment tag, (2) receipt details, (3) asset details
+ * - `flags`         -- UInt8 -- Bit string of enabled features: (1) payment tag, (2) receipt details, (3) asset details,
+ *                                (4) receive max, (5) expiry
  *
  *   (If payment tag is enabled...)
  * - `paymentTag`    -- VarOctetString
@@ -111,6 +199,12 @@ interface ConnectionDetails {
  *   (If asset details are enabled...)
  * - `assetCode`     -- VarOctetString
  * - `assetScale`    -- UInt8
+ *
+ *   (If receive max is enabled...)
+ * - `receiveMax`    -- UInt64
+ *
+ *   (If expiry is enabled...)
+ * - `expiresAt`     -- UInt64 -- UNIX timestamp in milliseconds
  */
 
 /**
@@ -139,19 +233,48 @@ export class StreamServer {
     PAYMENT_TAG: 1, // 2^0
     RECEIPTS: 2, // 2^1
     ASSET_DETAILS: 4, // 2^2
+    RECEIVE_MAX: 8, // 2^3
+    EXPIRY: 16, // 2^4
   }
 
   /** Base ILP address of the server accessible over its Interledger network */
   private serverAddress: IlpAddress
 
-  /** Derived key for generating shared secrets */
-  private sharedSecretKeyGen: Buffer
+  /** Derived keys of each active secret. The first is used to generate new credentials */
+  private keys: DerivedKeys[]
 
-  /** Derived key for generating connection tokens */
-  private connectionTokenKeyGen: Buffer
+  /** Connection IDs that were revoked */
+  private denylist: ConnectionDenylist
 
-  constructor({ serverSecret, serverAddress }: ServerOptions) {
-    if (serverSecret.byteLength !== 32) {
+  constructor({ serverSecret, keyring, serverAddress, denylist = new Set() }: ServerOptions) {
+    let secrets: { keyId?: number; secret: Buffer; legacy?: boolean }[]
+    if (serverSecret && !keyring) {
+      secrets = [{ secret: serverSecret, legacy: true }]
+    } else if (keyring && !serverSecret) {
+      if (keyring.length === 0) {
+        throw new Error('Keyring must include at least one key')
+      }
+
+      for (const { keyId } of keyring) {
+        if (!Number.isInteger(keyId) || keyId < 0 || keyId > 255) {
+          throw new Error('Key IDs must be integers between 0 and 255')
+        }
+      }
+
+      if (new Set(keyring.map(({ keyId }) => keyId)).size !== keyring.length) {
+        throw new Error('Key IDs must be unique')
+      }
+
+      if (keyring.filter(({ legacy }) => legacy).length > 1) {
+        throw new Error('Only one key may be marked as legacy')
+      }
+
+      secrets = keyring
+    } else {
+      throw new Error('Either a server secret or a keyring must be provided')
+    }
+
+    if (secrets.some(({ secret }) => secret.byteLength !== 32)) {
       throw new Error('Server secret must be 32 bytes')
     }
 
@@ -160,17 +283,23 @@ export class StreamServer {
     }
 
     this.serverAddress = serverAddress
-    this.sharedSecretKeyGen = hmac(serverSecret, StreamServer.SHARED_SECRET_GENERATION_STRING)
-    this.connectionTokenKeyGen = hmac(serverSecret, StreamServer.TOKEN_GENERATION_STRING)
+    this.keys = secrets.map(({ keyId, secret, legacy = false }) => ({
+      keyId,
+      legacy,
+      sharedSecretKeyGen: hmac(secret, StreamServer.SHARED_SECRET_GENERATION_STRING),
+      connectionTokenKeyGen: hmac(secret, StreamServer.TOKEN_GENERATION_STRING),
+    }))
+    this.denylist = denylist
   }
 
   /**
    * Generate credentials to return to a STREAM client so they may establish a connection to this STREAM server.
    * Throws if the receipt nonce or secret are invalid lengths, the asset scale was not 0-255,
+   * the receive max was not within the u64 range, the expiry was an invalid date,
    * or that data cannot fit within an ILP address.
    */
   generateCredentials(options: ConnectionDetails = {}): StreamCredentials {
-    const { receiptSetup, asset } = options
+    const { receiptSetup, asset, expiresAt } = options
 
     if (receiptSetup) {
       if (receiptSetup.nonce.byteLength !== 16) {
@@ -186,12 +315,27 @@ export class StreamServer {
       throw new Error('Failed to generate credentials: invalid asset scale')
     }
 
+    let receiveMax: Long | undefined
+    if (options.receiveMax !== undefined) {
+      try {
+        receiveMax = longFromValue(options.receiveMax, true)
+      } catch (_) {
+        throw new Error('Failed to generate credentials: receive max must be within the u64 range')
+      }
+    }
+
+    if (expiresAt && !(expiresAt.getTime() >= 0)) {
+      throw new Error('Failed to generate credentials: invalid expiry')
+    }
+
     const paymentTag = options.paymentTag ? Buffer.from(options.paymentTag, 'ascii') : undefined
 
     const flags =
       (paymentTag ? StreamServer.TOKEN_FLAGS.PAYMENT_TAG : 0) |
       (receiptSetup ? StreamServer.TOKEN_FLAGS.RECEIPTS : 0) |
-      (asset ? StreamServer.TOKEN_FLAGS.ASSET_DETAILS : 0)
+      (asset ? StreamServer.TOKEN_FLAGS.ASSET_DETAILS : 0) |
+      (receiveMax ? StreamServer.TOKEN_FLAGS.RECEIVE_MAX : 0) |
+      (expiresAt ? StreamServer.TOKEN_FLAGS.EXPIRY : 0)
 
     const writer = new Writer(StreamServer.TOKEN_GENERATION_BUFFER)
     writer.writeUInt8(flags)
@@ -210,10 +354,20 @@ export class StreamServer {
       writer.writeUInt8(asset.scale)
     }
 
-    const token = encrypt(this.connectionTokenKeyGen, writer.getBuffer())
-    const sharedSecret = hmac(this.sharedSecretKeyGen, token)
+    if (receiveMax) {
+      writer.writeUInt64(receiveMax)
+    }
+
+    if (expiresAt) {
+      writer.writeUInt64(expiresAt.getTime())
+    }
+
+    const [{ keyId, connectionTokenKeyGen, sharedSecretKeyGen }] = this.keys
+    const token = encrypt(connectionTokenKeyGen, writer.getBuffer())
+    const sharedSecret = hmac(sharedSecretKeyGen, token)
 
-    const destinationAddress = `${this.serverAddress}.${base64url(token)}`
+    const localSegment = keyId !== undefined ? Buffer.concat([Buffer.of(keyId), token]) : token
+    const destinationAddress = `${this.serverAddress}.${base64url(localSegment)}`
     if (!isValidIlpAddress(destinationAddress)) {
       throw new Error(
         'Failed to generate credentials: too much data to encode within an ILP address'
@@ -226,6 +380,20 @@ export class StreamServer {
     }
   }
 
+  /**
+   * Revoke the connection, so it may no longer receive money, and all subsequent
+   * packets are rejected with a final `ConnectionClose`.
+   * @param connectionId SHA-256 hash of the ILP address of the connection, hex-encoded
+   */
+  revoke(connectionId: string): void {
+    this.denylist.add(connectionId)
+  }
+
+  /** Derive the unique identifier of a connection: SHA-256 hash of its destination ILP address, hex-encoded */
+  private static getConnectionId(destinationAddress: string): string {
+    return sha256(Buffer.from(destinationAddress, 'ascii')).toString('hex')
+  }
+
   private extractLocalAddressSegment(destinationAddress: string): string | undefined {
     const localAddressParts = destinationAddress.slice(this.serverAddress.length + 1).split('.')
     if (destinationAddress.startsWith(this.serverAddress + '.') && !!localAddressParts[0]) {
@@ -233,10 +401,47 @@ export class StreamServer {
     }
   }
 
-  private decryptToken(token: Buffer): ConnectionDetails | undefined {
+  /**
+   * Decrypt the connection token in the local address segment and derive the shared secret of the connection.
+   * First, try the key identified by the key ID prefix, then try the legacy key without a prefix, such as for
+   * credentials generated before a keyring was configured. Since the first byte of an unprefixed token is random,
+   * it may match a key ID, so at most two decryptions are attempted for each packet.
+   */
+  private decryptToken(
+    localSegment: Buffer
+  ): { connectionDetails: ConnectionDetails; sharedSecret: Buffer } | undefined {
+    const candidates: [DerivedKeys, Buffer][] = []
+
+    const identifiedKey = this.keys.find(
+      ({ keyId }) => keyId !== undefined && keyId === localSegment[0]
+    )
+    if (identifiedKey) {
+      candidates.push([identifiedKey, localSegment.slice(1)])
+    }
+
+    const legacyKey = this.keys.find(({ legacy }) => legacy)
+    if (legacyKey) {
+      candidates.push([legacyKey, localSegment])
+    }
+
+    for (const [{ connectionTokenKeyGen, sharedSecretKeyGen }, token] of candidates) {
+      const connectionDetails = StreamServer.parseToken(connectionTokenKeyGen, token)
+      if (connectionDetails) {
+        return {
+          connectionDetails,
+          sharedSecret: hmac(sharedSecretKeyGen, token),
+        }
+      }
+    }
+  }
+
+  private static parseToken(
+    connectionTokenKeyGen: Buffer,
+    token: Buffer
+  ): ConnectionDetails | undefined {
     try {
       const details: ConnectionDetails = {}
-      const decryptedToken = decrypt(this.connectionTokenKeyGen, token)
+      const decryptedToken = decrypt(connectionTokenKeyGen, token)
 
       const reader = new Reader(decryptedToken)
       const flags = reader.readUInt8Number()
@@ -244,6 +449,8 @@ export class StreamServer {
       const hasPaymentTag = (flags & StreamServer.TOKEN_FLAGS.PAYMENT_TAG) !== 0
       const hasReceiptDetails = (flags & StreamServer.TOKEN_FLAGS.RECEIPTS) !== 0
       const hasAssetDetails = (flags & StreamServer.TOKEN_FLAGS.ASSET_DETAILS) !== 0
+      const hasReceiveMax = (flags & StreamServer.TOKEN_FLAGS.RECEIVE_MAX) !== 0
+      const hasExpiry = (flags & StreamServer.TOKEN_FLAGS.EXPIRY) !== 0
 
       if (hasPaymentTag) {
         details.paymentTag = reader.readVarOctetString().toString('ascii')
@@ -263,6 +470,14 @@ export class StreamServer {
         }
       }
 
+      if (hasReceiveMax) {
+        details.receiveMax = reader.readUInt64Long()
+      }
+
+      if (hasExpiry) {
+        details.expiresAt = new Date(reader.readUInt64Long().toNumber())
+      }
+
       return details
     } catch (_) {
       // No-op: failed decryption or structurally invalid
@@ -276,7 +491,7 @@ export class StreamServer {
   decodePaymentTag(destinationAddress: string): string | void {
     const token = this.extractLocalAddressSegment(destinationAddress)
     if (token) {
-      return this.decryptToken(Buffer.from(token, 'base64'))?.paymentTag
+      return this.decryptToken(Buffer.from(token, 'base64'))?.connectionDetails.paymentTag
     }
   }
 
@@ -285,7 +500,7 @@ export class StreamServer {
    * ensure it's addressed to the server and decode encrypted metadata to attribute and handle the payment.
    */
   createReply(prepare: IlpPrepare): IncomingMoney | IlpReply {
-    const connectionId = sha256(Buffer.from(prepare.destination, 'ascii')).toString('hex')
+    const connectionId = StreamServer.getConnectionId(prepare.destination)
     const log = createLogger(`ilp-receiver:${connectionId.slice(0, 6)}`)
     const reply = new ReplyBuilder().setIlpAddress(this.serverAddress)
 
@@ -296,20 +511,23 @@ export class StreamServer {
       return reply.buildReject(IlpError.F02_UNREACHABLE)
     }
 
-    const token = Buffer.from(localSegment, 'base64')
-    const connectionDetails = this.decryptToken(token)
-    if (!connectionDetails) {
+    const decryptedToken = this.decryptToken(Buffer.from(localSegment, 'base64'))
+    if (!decryptedToken) {
       log.trace(
         'invalid connection token: cannot attribute incoming packet. token=%s',
         localSegment
       )
       return reply.buildReject(IlpError.F06_UNEXPECTED_PAYMENT)
     }
+    const { connectionDetails, sharedSecret } = decryptedToken
     const { paymentTag, receiptSetup, asset } = connectionDetails
+    const receiveMax =
+      connectionDetails.receiveMax !== undefined
+        ? longFromValue(connectionDetails.receiveMax, true)
+        : undefined
 
     log.debug('got incoming Prepare. amount: %s', prepare.amount)
 
-    const sharedSecret = hmac(this.sharedSecretKeyGen, token)
     const encryptionKey = hmac(sharedSecret, StreamServer.ENCRYPTION_KEY_STRING)
     let streamRequest: Packet
     try {
@@ -336,6 +554,21 @@ export class StreamServer {
       .setSequence(streamRequest.sequence)
       .setReceivedAmount(prepare.amount)
 
+    // Connection IDs may be revoked with or without additional segments appended to the credentials' address
+    const isRevoked =
+      this.denylist.has(connectionId) ||
+      this.denylist.has(StreamServer.getConnectionId(`${this.serverAddress}.${localSegment}`))
+    const isExpired = !!connectionDetails.expiresAt && connectionDetails.expiresAt <= new Date()
+    if (isRevoked || isExpired) {
+      log.debug(
+        'rejecting with F99 and closing connection: connection %s',
+        isRevoked ? 'was revoked' : 'expired'
+      )
+      return reply
+        .addFrames(new ConnectionCloseFrame(ErrorCode.NoError, ''))
+        .buildReject(IlpError.F99_APPLICATION_ERROR)
+    }
+
     const closeFrame = streamRequest.frames.find(
       (frame): frame is ConnectionCloseFrame => frame.type === FrameType.ConnectionClose
     )
@@ -364,15 +597,29 @@ export class StreamServer {
     }
 
     /**
-     * Why no `StreamMaxMoney` frame in the reply?
-     * - Limits on how much money can be received should probably be negotiated
-     *   at the application layer instead of STREAM. The API consumer can optionally
-     *   limit the amount received by declining incoming money, and by default, STREAM
-     *   senders assume there's no limit on the remote maximum
-     * - `ilp-protocol-stream` sender does not publicly expose the remote amount
-     *   received on each individual stream (it's only tracked for backpressure),
-     *   so it's unnecessary to reply with the total received on a per-stream basis
+     * Advertise the receive max on each stream the sender is sending money over, so it may limit how much
+     * it sends, or fail early if its payment cannot be completed. Since the server is stateless, the total
+     * received over the connection is only known once the API consumer calls `setTotalReceived` or
+     * `declineOverReceiveMax`, so `StreamMaxMoney` frames are only added then: otherwise, the sender would
+     * assume nothing was received, and send more than the remaining amount. Without a receive max encoded
+     * in the token and until then, STREAM senders assume there's no limit on the remote maximum.
      */
+    const maxMoneyFrames = streamRequest.frames
+      .filter((frame): frame is StreamMoneyFrame => frame.type === FrameType.StreamMoney)
+      .map(
+        ({ streamId }) =>
+          new StreamMaxMoneyFrame(streamId, receiveMax ?? Long.MAX_UNSIGNED_VALUE, 0)
+      )
+    let addedMaxMoneyFrames = false
+    const addMaxMoneyFrames = (totalReceived: LongValue) => {
+      maxMoneyFrames.forEach((frame) => {
+        frame.totalReceived = longFromValue(totalReceived, true)
+      })
+      if (!addedMaxMoneyFrames) {
+        addedMaxMoneyFrames = true
+        reply.addFrames(...maxMoneyFrames)
+      }
+    }
 
     const receivedAmount = Long.fromString(prepare.amount, true)
     const didReceiveMinimum = receivedAmount.greaterThanOrEqual(streamRequest.prepareAmount)
@@ -399,12 +646,27 @@ export class StreamServer {
       return reply.buildFulfill(fulfillment)
     }
 
+    if (receiveMax && receivedAmount.greaterThan(receiveMax)) {
+      log.debug(
+        'rejecting with F99: amount exceeds receive max. amount: %s, receive max: %s',
+        receivedAmount,
+        receiveMax
+      )
+      return reply.buildReject(IlpError.F99_APPLICATION_ERROR)
+    }
+
     return {
       connectionId,
 
       paymentTag,
 
+      receiveMax,
+
       setTotalReceived: (totalReceived: LongValue) => {
+        if (receiveMax) {
+          addMaxMoneyFrames(totalReceived)
+        }
+
         if (receiptSetup) {
           /**
            * Even if we receive money over multiple streams with different stream IDs, we only generate
@@ -424,12 +686,42 @@ export class StreamServer {
 
       accept: () => reply.buildFulfill(fulfillment),
 
-      temporaryDecline: () => reply.buildReject(IlpError.T00_INTERNAL_ERROR),
+      temporaryDecline: (code = IlpError.T00_INTERNAL_ERROR) => reply.buildReject(code),
 
       finalDecline: () =>
         reply
           .addFrames(new ConnectionCloseFrame(ErrorCode.NoError, ''))
           .buildReject(IlpError.F99_APPLICATION_ERROR),
+
+      declineOverReceiveMax: (connectionReceiveMax: LongValue, totalReceived: LongValue) => {
+        maxMoneyFrames.forEach((frame) => {
+          frame.receiveMax = longFromValue(connectionReceiveMax, true)
+        })
+        addMaxMoneyFrames(totalReceived)
+
+        return reply.buildReject(IlpError.F99_APPLICATION_ERROR)
+      },
     }
   }
 }
+
+export {
+  StatefulStreamReceiver,
+  StatefulReceiverOptions,
+  ReceiverStore,
+  InMemoryReceiverStore,
+} from './stateful'
+
+export {
+  createResponder,
+  createNodeHandler,
+  createKoaMiddleware,
+  createExpressMiddleware,
+  ResponderOptions,
+  ReceivingAccount,
+  CredentialsRequest,
+  CredentialsResponse,
+  KoaContext,
+  ExpressRequest,
+  ExpressResponse,
+} from './responder'
@@ -0,0 +1,248 @@
+import { IncomingMessage, ServerResponse } from 'http'
+import createLogger from 'ilp-logger'
+import { LongValue } from 'ilp-protocol-stream/dist/src/util/long'
+import { StreamServer } from '.'
+
+const log = createLogger('ilp-receiver:responder')
+
+/** Media type to request Open Payments STREAM credentials */
+const OPEN_PAYMENTS_MEDIA_TYPE = 'application/ilp-stream+json'
+
+/** Media type to request SPSP STREAM credentials */
+const SPSP_MEDIA_TYPE = 'application/spsp4+json'
+
+/** Recipient account to generate STREAM credentials for, resolved from the URL path of a request */
+export interface ReceivingAccount {
+  /** Arbitrary data to attribute or handle incoming payments, such as an identifier of the user account or invoice */
+  paymentTag?: string
+
+  /** Asset code or symbol identifying the currency of the recipient account */
+  assetCode: string
+
+  /** Precision of the asset denomination: number of decimal places of the ordinary unit, between 0 and 255 (inclusive) */
+  assetScale: number
+
+  /** Parameters to generate authentic STREAM receipts so a third party may verify incoming payments */
+  receiptSetup?: {
+    secret: Buffer
+    nonce: Buffer
+  }
+
+  /** Maximum amount the recipient can receive over each connection, such as the remaining amount of an invoice */
+  receiveMax?: LongValue
+
+  /** Time after which each connection may no longer receive money */
+  expiresAt?: Date
+}
+
+/** Parameters to respond to SPSP and Open Payments requests with STREAM credentials */
+export interface ResponderOptions {
+  /** STREAM server to generate credentials, with the same secret and address as the server handling packets */
+  server: StreamServer
+
+  /** Resolve the recipient account at the URL path, such as `/alice`, or `undefined` if none exists */
+  getAccount: (path: string) => Promise<ReceivingAccount | undefined>
+}
+
+/** HTTP request for STREAM credentials, independent of the web framework */
+export interface CredentialsRequest {
+  /** HTTP method of the request, such as `GET` */
+  method: string
+
+  /** URL path of the request, without the query string */
+  path: string
+
+  /** `Accept` header of the request */
+  accept?: string
+}
+
+/** HTTP response to a request for STREAM credentials, independent of the web framework */
+export interface CredentialsResponse {
+  /** HTTP status code */
+  status: number
+
+  /** Headers of the response */
+  headers: {
+    [name: string]: string
+  }
+
+  /** Serialized JSON body, if any */
+  body?: string
+}
+
+/** Is the media type acceptable per the `Accept` header? Parameters other than a quality of 0 are ignored */
+const isAcceptable = (accept: string, mediaType: string): boolean =>
+  accept.split(',').some((value) => {
+    const [type, ...params] = value.split(';').map((s) => s.trim().toLowerCase())
+    return type === mediaType && !params.some((param) => /^q=0(\.0*)?$/.test(param))
+  })
+
+/**
+ * Create a framework-agnostic handler to respond to SPSP and Open Payments requests with new STREAM credentials
+ * for the recipient at the URL path. Responds with Open Payments credentials and asset details if
+ * `application/ilp-stream+json` is acceptable, or SPSP credentials with asset details encoded in the connection
+ * if `application/spsp4+json` is acceptable. Credentials are only generated if the response includes them,
+ * so not for `HEAD` requests.
+ */
+export const createResponder = ({ server, getAccount }: ResponderOptions) => async ({
+  method,
+  path,
+  accept = '',
+}: CredentialsRequest): Promise<CredentialsResponse> => {
+  if (method !== 'GET' && method !== 'HEAD') {
+    return { status: 405, headers: { Allow: 'GET, HEAD' } }
+  }
+
+  try {
+    const account = await getAccount(path)
+    if (!account) {
+      return { status: 404, headers: {} }
+    }
+
+    const isOpenPayments = isAcceptable(accept, OPEN_PAYMENTS_MEDIA_TYPE)
+    const isSpsp = isAcceptable(accept, SPSP_MEDIA_TYPE)
+    if (!isOpenPayments && !isSpsp) {
+      return { status: 406, headers: {} }
+    }
+
+    const headers = {
+      'Content-Type': isOpenPayments ? OPEN_PAYMENTS_MEDIA_TYPE : SPSP_MEDIA_TYPE,
+      'Cache-Control': 'no-store', // Credentials are unique to each request
+    }
+    if (method === 'HEAD') {
+      return { status: 200, headers }
+    }
+
+    const { paymentTag, assetCode, assetScale, receiptSetup, receiveMax, expiresAt } = account
+    const details = { paymentTag, receiptSetup, receiveMax, expiresAt }
+
+    // Open Payments shares asset details in the response
+    if (isOpenPayments) {
+      const { ilpAddress, sharedSecret } = server.generateCredentials(details)
+      return {
+        status: 200,
+        headers,
+        body: JSON.stringify({
+          ilpAddress,
+          sharedSecret: sharedSecret.toString('base64'),
+          assetCode,
+          assetScale,
+        }),
+      }
+    }
+
+    // SPSP shares asset details over STREAM, so they're encoded in the connection token
+    const { ilpAddress, sharedSecret } = server.generateCredentials({
+      ...details,
+      asset: {
+        code: assetCode,
+        scale: assetScale,
+      },
+    })
+    return {
+      status: 200,
+      headers,
+      body: JSON.stringify({
+        destination_account: ilpAddress,
+        shared_secret: sharedSecret.toString('base64'),
+        receipts_enabled: !!receiptSetup,
+      }),
+    }
+  } catch (err) {
+    log.error('failed to generate credentials for %s: %s', path, err)
+    return { status: 500, headers: {} }
+  }
+}
+
+/** Request handler for the Node `http` module, such as `http.createServer(createNodeHandler(options))` */
+export const createNodeHandler = (
+  options: ResponderOptions
+): ((req: IncomingMessage, res: ServerResponse) => Promise<void>) => {
+  const respond = createResponder(options)
+  return async (req, res) => {
+    const { status, headers, body } = await respond({
+      method: req.method ?? 'GET',
+      path: new URL(req.url ?? '/', 'http://localhost').pathname,
+      accept: req.headers.accept,
+    })
+    res.writeHead(status, headers).end(body)
+  }
+}
+
+/** Subset of the Koa context used by the middleware */
+export interface KoaContext {
+  method: string
+  path: string
+  status: number
+  body: unknown
+  get(field: string): string
+  set(field: { [name: string]: string }): void
+}
+
+/** Is the request not addressed to the responder, so it should be handled by the next middleware? */
+const isPassThrough = (status: number): boolean => status === 404 || status === 405
+
+/**
+ * Koa middleware to respond to SPSP and Open Payments requests. Requests to paths without an account,
+ * or with methods other than `GET` and `HEAD`, are passed to the next middleware.
+ */
+export const createKoaMiddleware = (
+  options: ResponderOptions
+): ((ctx: KoaContext, next: () => Promise<unknown>) => Promise<void>) => {
+  const respond = createResponder(options)
+  return async (ctx, next) => {
+    const { status, headers, body } = await respond({
+      method: ctx.method,
+      path: ctx.path,
+      accept: ctx.get('Accept'),
+    })
+    if (isPassThrough(status)) {
+      await next()
+    } else {
+      ctx.status = status
+      ctx.set(headers)
+      if (body !== undefined) {
+        ctx.body = body // Otherwise, Koa would override the status with 204
+      }
+    }
+  }
+}
+
+/** Subset of the Express request used by the middleware */
+export interface ExpressRequest {
+  method: string
+  path: string
+  get(field: string): string | undefined
+}
+
+/** Subset of the Express response used by the middleware */
+export interface ExpressResponse {
+  status(code: number): this
+  set(field: { [name: string]: string }): this
+  send(body?: string): this
+}
+
+/**
+ * Express middleware to respond to SPSP and Open Payments requests. Requests to paths without an account,
+ * or with methods other than `GET` and `HEAD`, are passed to the next middleware.
+ */
+export const createExpressMiddleware = (
+  options: ResponderOptions
+): ((req: ExpressRequest, res: ExpressResponse, next: (err?: unknown) => void) => void) => {
+  const respond = createResponder(options)
+  return (req, res, next) => {
+    respond({
+      method: req.method,
+      path: req.path,
+      accept: req.get('Accept'),
+    })
+      .then(({ status, headers, body }) => {
+        if (isPassThrough(status)) {
+          next()
+        } else {
+          res.status(status).set(headers).send(body)
+        }
+      })
+      .catch(next)
+  }
+}
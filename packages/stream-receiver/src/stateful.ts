@@ -0,0 +1,249 @@
+import { IlpError, IlpPrepare, IlpReply, isIlpReply } from 'ilp-packet'
+import createLogger from 'ilp-logger'
+import { longFromValue, LongValue, minLong } from 'ilp-protocol-stream/dist/src/util/long'
+import Long from 'long'
+import { StreamServer } from '.'
+
+/**
+ * Persistent store of the amounts received over each STREAM connection and for each payment tag,
+ * and which connections were closed. Each addition and subtraction must be atomic, so concurrent
+ * packets never exceed receive limits, such as using `INCRBY` in Redis or `UPDATE ... RETURNING` in SQL.
+ * Additions must be checked: if the new total would exceed the max u64, reject without changing it.
+ */
+export interface ReceiverStore {
+  /** Add to the total amount received over the connection, and resolve the new total, or reject if it would exceed the max u64 */
+  addToConnectionTotal(connectionId: string, amount: Long): Promise<Long>
+
+  /** Subtract from the total amount received over the connection, such as to revert declined money, and resolve the new total */
+  subtractFromConnectionTotal(connectionId: string, amount: Long): Promise<Long>
+
+  /** Resolve the total amount received over the connection, or 0 if none was received */
+  getConnectionTotal(connectionId: string): Promise<Long>
+
+  /** Add to the total amount received for the payment tag, and resolve the new total, or reject if it would exceed the max u64 */
+  addToPaymentTagTotal(paymentTag: string, amount: Long): Promise<Long>
+
+  /** Subtract from the total amount received for the payment tag, such as to revert declined money, and resolve the new total */
+  subtractFromPaymentTagTotal(paymentTag: string, amount: Long): Promise<Long>
+
+  /** Resolve the total amount received for the payment tag, across all its connections, or 0 if none was received */
+  getPaymentTagTotal(paymentTag: string): Promise<Long>
+
+  /** Record that the connection was closed, so no more money is accepted over it */
+  closeConnection(connectionId: string): Promise<void>
+
+  /** Resolve if the connection was closed */
+  isConnectionClosed(connectionId: string): Promise<boolean>
+}
+
+/** Store of connection and payment tag totals in memory, such as for testing or a single process */
+export class InMemoryReceiverStore implements ReceiverStore {
+  private connectionTotals = new Map<string, Long>()
+  private paymentTagTotals = new Map<string, Long>()
+  private closedConnections = new Set<string>()
+
+  async addToConnectionTotal(connectionId: string, amount: Long): Promise<Long> {
+    return InMemoryReceiverStore.add(this.connectionTotals, connectionId, amount)
+  }
+
+  async subtractFromConnectionTotal(connectionId: string, amount: Long): Promise<Long> {
+    return InMemoryReceiverStore.subtract(this.connectionTotals, connectionId, amount)
+  }
+
+  async getConnectionTotal(connectionId: string): Promise<Long> {
+    return this.connectionTotals.get(connectionId) ?? Long.UZERO
+  }
+
+  async addToPaymentTagTotal(paymentTag: string, amount: Long): Promise<Long> {
+    return InMemoryReceiverStore.add(this.paymentTagTotals, paymentTag, amount)
+  }
+
+  async subtractFromPaymentTagTotal(paymentTag: string, amount: Long): Promise<Long> {
+    return InMemoryReceiverStore.subtract(this.paymentTagTotals, paymentTag, amount)
+  }
+
+  async getPaymentTagTotal(paymentTag: string): Promise<Long> {
+    return this.paymentTagTotals.get(paymentTag) ?? Long.UZERO
+  }
+
+  async closeConnection(connectionId: string): Promise<void> {
+    this.closedConnections.add(connectionId)
+  }
+
+  async isConnectionClosed(connectionId: string): Promise<boolean> {
+    return this.closedConnections.has(connectionId)
+  }
+
+  private static add(totals: Map<string, Long>, key: string, amount: Long): Long {
+    const total = (totals.get(key) ?? Long.UZERO).add(amount)
+    if (total.lessThan(amount)) {
+      throw new RangeError('total would exceed max u64') // Unsigned addition wrapped around
+    }
+    totals.set(key, total)
+    return total
+  }
+
+  private static subtract(totals: Map<string, Long>, key: string, amount: Long): Long {
+    const previousTotal = totals.get(key) ?? Long.UZERO
+    const total = previousTotal.greaterThan(amount) ? previousTotal.subtract(amount) : Long.UZERO
+    totals.set(key, total)
+    return total
+  }
+}
+
+/** Parameters to track the amounts received over STREAM connections and enforce receive limits */
+export interface StatefulReceiverOptions {
+  /** STREAM server to validate incoming packets and generate replies */
+  server: StreamServer
+
+  /** Store of connection and payment tag totals. Default: in-memory store */
+  store?: ReceiverStore
+
+  /**
+   * Maximum amount to receive over each connection. If the credentials of a connection also encode a
+   * receive max, the lesser of the two is enforced. Default: unlimited
+   */
+  connectionReceiveMax?: LongValue
+
+  /**
+   * Resolve the maximum total amount to receive for a payment tag, across all its connections,
+   * such as the amount of an invoice, or `undefined` if it's unlimited. Default: unlimited
+   */
+  getPaymentTagReceiveMax?: (paymentTag: string) => Promise<LongValue | undefined>
+}
+
+/**
+ * STREAM receiver that tracks the total received over each connection and for each payment tag,
+ * enforces receive limits, and automatically signs STREAM receipts and accepts incoming money.
+ *
+ * Money is credited to the totals before the Fulfill is returned, since the receipt must include the new total.
+ * If the Fulfill is never delivered to the sender, such as if the Prepare expired in transit, the totals
+ * may include money that was not received.
+ */
+export class StatefulStreamReceiver {
+  private readonly server: StreamServer
+  private readonly store: ReceiverStore
+  private readonly connectionReceiveMax?: Long
+  private readonly getPaymentTagReceiveMax?: (paymentTag: string) => Promise<LongValue | undefined>
+
+  constructor({
+    server,
+    store = new InMemoryReceiverStore(),
+    connectionReceiveMax,
+    getPaymentTagReceiveMax,
+  }: StatefulReceiverOptions) {
+    this.server = server
+    this.store = store
+    this.connectionReceiveMax =
+      connectionReceiveMax !== undefined ? longFromValue(connectionReceiveMax, true) : undefined
+    this.getPaymentTagReceiveMax = getPaymentTagReceiveMax
+  }
+
+  /**
+   * Handle the incoming ILP Prepare within the STREAM server, and if it carries money, credit it to the totals of its
+   * connection and payment tag, and accept it with a STREAM receipt for the new connection total. If the money would
+   * exceed a receive limit, decline it and inform the sender of the remaining amount it may send, but keep the
+   * connection open. If the connection was closed, decline it and inform the sender to close the connection.
+   * If a total would exceed the max u64, or the store fails, temporarily decline it with a T04 Reject.
+   */
+  async createReply(prepare: IlpPrepare): Promise<IlpReply> {
+    const moneyOrReply = this.server.createReply(prepare)
+    if (isIlpReply(moneyOrReply)) {
+      return moneyOrReply
+    }
+
+    const { connectionId, paymentTag } = moneyOrReply
+
+    // Enforce the lesser of the configured limit and the receive max encoded in the credentials
+    const connectionReceiveMax =
+      this.connectionReceiveMax && moneyOrReply.receiveMax
+        ? minLong(this.connectionReceiveMax, moneyOrReply.receiveMax)
+        : this.connectionReceiveMax ?? moneyOrReply.receiveMax
+    const log = createLogger(`ilp-receiver:${connectionId.slice(0, 6)}`)
+
+    if (await this.store.isConnectionClosed(connectionId)) {
+      log.debug('declining incoming money: connection is closed')
+      return moneyOrReply.finalDecline()
+    }
+
+    const amount = Long.fromString(prepare.amount, true)
+
+    let connectionTotal: Long
+    try {
+      connectionTotal = await this.store.addToConnectionTotal(connectionId, amount)
+    } catch (err) {
+      log.error('declining incoming money: failed to credit connection total: %s', err)
+      return moneyOrReply.temporaryDecline(IlpError.T04_INSUFFICIENT_LIQUIDITY)
+    }
+    if (connectionReceiveMax && connectionTotal.greaterThan(connectionReceiveMax)) {
+      log.debug(
+        'declining incoming money: %s exceeds connection receive max of %s',
+        connectionTotal,
+        connectionReceiveMax
+      )
+      const revertedTotal = await this.store.subtractFromConnectionTotal(connectionId, amount)
+      moneyOrReply.setTotalReceived(revertedTotal)
+      return moneyOrReply.declineOverReceiveMax(connectionReceiveMax, revertedTotal)
+    }
+
+    if (paymentTag !== undefined) {
+      const receiveMax = await this.getPaymentTagReceiveMax?.(paymentTag)
+      let paymentTagTotal: Long
+      try {
+        paymentTagTotal = await this.store.addToPaymentTagTotal(paymentTag, amount)
+      } catch (err) {
+        log.error('declining incoming money: failed to credit payment tag total: %s', err)
+        await this.store.subtractFromConnectionTotal(connectionId, amount)
+        return moneyOrReply.temporaryDecline(IlpError.T04_INSUFFICIENT_LIQUIDITY)
+      }
+      if (
+        receiveMax !== undefined &&
+        paymentTagTotal.greaterThan(longFromValue(receiveMax, true))
+      ) {
+        log.debug(
+          'declining incoming money: %s exceeds payment tag receive max of %s',
+          paymentTagTotal,
+          receiveMax
+        )
+        const revertedPaymentTagTotal = await this.store.subtractFromPaymentTagTotal(
+          paymentTag,
+          amount
+        )
+        const revertedTotal = await this.store.subtractFromConnectionTotal(connectionId, amount)
+        moneyOrReply.setTotalReceived(revertedTotal)
+
+        // Advertise the remaining amount for the payment tag, relative to the total of this connection
+        const paymentTagReceiveMax = longFromValue(receiveMax, true)
+        let remainingAmount = paymentTagReceiveMax.greaterThan(revertedPaymentTagTotal)
+          ? paymentTagReceiveMax.subtract(revertedPaymentTagTotal)
+          : Long.UZERO
+        if (connectionReceiveMax) {
+          const remainingConnectionAmount = connectionReceiveMax.greaterThan(revertedTotal)
+            ? connectionReceiveMax.subtract(revertedTotal)
+            : Long.UZERO
+          remainingAmount = minLong(remainingAmount, remainingConnectionAmount)
+        }
+        return moneyOrReply.declineOverReceiveMax(revertedTotal.add(remainingAmount), revertedTotal)
+      }
+    }
+
+    log.debug('accepting incoming money: %s. connection total: %s', amount, connectionTotal)
+    moneyOrReply.setTotalReceived(connectionTotal)
+    return moneyOrReply.accept()
+  }
+
+  /** Close the connection, so any more money sent over it is declined and the sender is informed to close it */
+  closeConnection(connectionId: string): Promise<void> {
+    return this.store.closeConnection(connectionId)
+  }
+
+  /** Resolve the total amount received over the connection */
+  getConnectionTotal(connectionId: string): Promise<Long> {
+    return this.store.getConnectionTotal(connectionId)
+  }
+
+  /** Resolve the total amount received for the payment tag, across all its connections */
+  getPaymentTagTotal(paymentTag: string): Promise<Long> {
+    return this.store.getPaymentTagTotal(paymentTag)
+  }
+}
@@ -11,6 +11,7 @@ import {
   deserializeIlpPrepare,
   serializeIlpFulfill,
   serializeIlpReply,
+  IlpReply,
 } from 'ilp-packet'
 import { base64url, encrypt, hmac, sha256 } from '../src/utils'
 import {
@@ -21,6 +22,8 @@ import {
   FrameType,
   ConnectionNewAddressFrame,
   StreamReceiptFrame,
+  StreamMoneyFrame,
+  StreamMaxMoneyFrame,
 } from 'ilp-protocol-stream/dist/src/packet'
 import Long from 'long'
 import { verifyReceipt } from 'ilp-protocol-stream/dist/src/util/receipt'
@@ -56,6 +59,60 @@ describe('StreamServer', () => {
           })
       ).toThrowError('Invalid server base ILP address')
     })
+
+    it('throws if neither or both a server secret and keyring are provided', () => {
+      expect(() => new StreamServer({ serverAddress: 'g.me' })).toThrowError(
+        'Either a server secret or a keyring must be provided'
+      )
+      expect(
+        () =>
+          new StreamServer({
+            serverAddress: 'g.me',
+            serverSecret: randomBytes(32),
+            keyring: [{ keyId: 0, secret: randomBytes(32) }],
+          })
+      ).toThrowError('Either a server secret or a keyring must be provided')
+    })
+
+    it('throws if invalid keyring', () => {
+      expect(() => new StreamServer({ serverAddress: 'g.me', keyring: [] })).toThrowError(
+        'Keyring must include at least one key'
+      )
+      expect(
+        () =>
+          new StreamServer({
+            serverAddress: 'g.me',
+            keyring: [{ keyId: 256, secret: randomBytes(32) }],
+          })
+      ).toThrowError('Key IDs must be integers between 0 and 255')
+      expect(
+        () =>
+          new StreamServer({
+            serverAddress: 'g.me',
+            keyring: [
+              { keyId: 1, secret: randomBytes(32) },
+              { keyId: 1, secret: randomBytes(32) },
+            ],
+          })
+      ).toThrowError('Key IDs must be unique')
+      expect(
+        () =>
+          new StreamServer({
+            serverAddress: 'g.me',
+            keyring: [
+              { keyId: 1, secret: randomBytes(32), legacy: true },
+              { keyId: 2, secret: randomBytes(32), legacy: true },
+            ],
+          })
+      ).toThrowError('Only one key may be marked as legacy')
+      expect(
+        () =>
+          new StreamServer({
+            serverAddress: 'g.me',
+            keyring: [{ keyId: 1, secret: randomBytes(16) }],
+          })
+      ).toThrowError('Server secret must be 32 bytes')
+    })
   })
 
   describe('#generateCredentials', () => {
@@ -98,6 +155,22 @@ describe('StreamServer', () => {
       }).toThrowError('Failed to generate credentials: invalid asset scale')
     })
 
+    it('throws if receive max is not within the u64 range', () => {
+      expect(() =>
+        server.generateCredentials({
+          receiveMax: '18446744073709551616',
+        })
+      ).toThrowError('Failed to generate credentials: receive max must be within the u64 range')
+    })
+
+    it('throws if invalid expiry', () => {
+      expect(() =>
+        server.generateCredentials({
+          expiresAt: new Date(NaN),
+        })
+      ).toThrowError('Failed to generate credentials: invalid expiry')
+    })
+
     it('accepts credentials generated by a different instance', () => {
       const server2 = new StreamServer({
         serverAddress,
@@ -555,6 +628,364 @@ describe('handling packets', () => {
   })
 })
 
+describe('receive max', () => {
+  const server = new StreamServer({
+    serverAddress: 'g.receiver',
+    serverSecret: randomBytes(32),
+  })
+
+  it('replies with receive max of each stream', async () => {
+    const { sharedSecret, ilpAddress } = server.generateCredentials({
+      receiveMax: 5000,
+    })
+
+    const key = hmac(sharedSecret, Buffer.from('ilp_stream_encryption'))
+    const data = await new Packet(1, IlpPacketType.Prepare, 100, [
+      new StreamMoneyFrame(1, 1),
+      new StreamMoneyFrame(3, 1),
+    ]).serializeAndEncrypt(key)
+
+    const fulfillmentKey = hmac(sharedSecret, Buffer.from('ilp_stream_fulfillment'))
+    const fulfillment = hmac(fulfillmentKey, data)
+    const executionCondition = sha256(fulfillment)
+
+    const money = server.createReply({
+      amount: '200',
+      destination: ilpAddress,
+      executionCondition,
+      expiresAt: new Date(),
+      data,
+    }) as IncomingMoney
+    expect(+(money.receiveMax as Long)).toBe(5000)
+
+    money.setTotalReceived(1200)
+    const reply = money.accept()
+    expect(reply.fulfillment).toEqual(fulfillment)
+
+    const replyPacket = await Packet.decryptAndDeserialize(key, reply.data)
+    expect(replyPacket.frames).toEqual([
+      new StreamMaxMoneyFrame(1, 5000, 1200),
+      new StreamMaxMoneyFrame(3, 5000, 1200),
+    ])
+  })
+
+  it('omits receive max until the total received is set', async () => {
+    const { sharedSecret, ilpAddress } = server.generateCredentials({
+      receiveMax: 5000,
+    })
+
+    const key = hmac(sharedSecret, Buffer.from('ilp_stream_encryption'))
+    const data = await new Packet(1, IlpPacketType.Prepare, 100, [
+      new StreamMoneyFrame(1, 1),
+    ]).serializeAndEncrypt(key)
+
+    const fulfillmentKey = hmac(sharedSecret, Buffer.from('ilp_stream_fulfillment'))
+    const executionCondition = sha256(hmac(fulfillmentKey, data))
+
+    const money = server.createReply({
+      amount: '200',
+      destination: ilpAddress,
+      executionCondition,
+      expiresAt: new Date(),
+      data,
+    }) as IncomingMoney
+
+    // Otherwise, the sender would assume nothing was received
+    const replyPacket = await Packet.decryptAndDeserialize(key, money.accept().data)
+    expect(replyPacket.frames).toEqual([])
+  })
+
+  it('omits receive max from unfulfillable packets', async () => {
+    const { sharedSecret, ilpAddress } = server.generateCredentials({
+      receiveMax: '18446744073709551615',
+    })
+
+    const key = hmac(sharedSecret, Buffer.from('ilp_stream_encryption'))
+    const data = await new Packet(1, IlpPacketType.Prepare, 0, [
+      new StreamMoneyFrame(1, 1),
+    ]).serializeAndEncrypt(key)
+
+    const reply = server.createReply({
+      amount: '1000',
+      destination: ilpAddress,
+      executionCondition: randomBytes(32),
+      expiresAt: new Date(),
+      data,
+    }) as IlpReject
+    expect(reply.code).toBe(IlpError.F99_APPLICATION_ERROR)
+
+    const replyPacket = await Packet.decryptAndDeserialize(key, reply.data)
+    expect(replyPacket.frames).toEqual([])
+  })
+
+  it('rejects packets exceeding the receive max', async () => {
+    const { sharedSecret, ilpAddress } = server.generateCredentials({
+      receiveMax: 999,
+    })
+
+    const key = hmac(sharedSecret, Buffer.from('ilp_stream_encryption'))
+    const data = await new Packet(1, IlpPacketType.Prepare, 1000, [
+      new StreamMoneyFrame(1, 1),
+    ]).serializeAndEncrypt(key)
+
+    const fulfillmentKey = hmac(sharedSecret, Buffer.from('ilp_stream_fulfillment'))
+    const executionCondition = sha256(hmac(fulfillmentKey, data))
+
+    const reply = server.createReply({
+      amount: '1000',
+      destination: ilpAddress,
+      executionCondition,
+      expiresAt: new Date(),
+      data,
+    }) as IlpReject
+    expect(reply.code).toBe(IlpError.F99_APPLICATION_ERROR)
+
+    // Total received is unknown, so no receive max is advertised, but the connection remains open
+    const replyPacket = await Packet.decryptAndDeserialize(key, reply.data)
+    expect(replyPacket.frames).toEqual([])
+  })
+
+  it('declines money over the receive max without closing the connection', async () => {
+    const { sharedSecret, ilpAddress } = server.generateCredentials({
+      receiveMax: 1000,
+    })
+
+    const key = hmac(sharedSecret, Buffer.from('ilp_stream_encryption'))
+    const data = await new Packet(1, IlpPacketType.Prepare, 200, [
+      new StreamMoneyFrame(1, 1),
+    ]).serializeAndEncrypt(key)
+
+    const fulfillmentKey = hmac(sharedSecret, Buffer.from('ilp_stream_fulfillment'))
+    const executionCondition = sha256(hmac(fulfillmentKey, data))
+
+    const money = server.createReply({
+      amount: '200',
+      destination: ilpAddress,
+      executionCondition,
+      expiresAt: new Date(),
+      data,
+    }) as IncomingMoney
+
+    // Prior packets already delivered 900, so only 100 more may be received
+    const reply = money.declineOverReceiveMax(1000, 900)
+    expect(reply.code).toBe(IlpError.F99_APPLICATION_ERROR)
+
+    const replyPacket = await Packet.decryptAndDeserialize(key, reply.data)
+    expect(replyPacket.frames).toContainEqual(new StreamMaxMoneyFrame(1, 1000, 900))
+    expect(replyPacket.frames.some((f) => f.type === FrameType.ConnectionClose)).toBe(false)
+  })
+
+  it('declines money over a receive max that was not encoded', async () => {
+    const { sharedSecret, ilpAddress } = server.generateCredentials()
+
+    const key = hmac(sharedSecret, Buffer.from('ilp_stream_encryption'))
+    const data = await new Packet(1, IlpPacketType.Prepare, 200, [
+      new StreamMoneyFrame(3, 1),
+    ]).serializeAndEncrypt(key)
+
+    const fulfillmentKey = hmac(sharedSecret, Buffer.from('ilp_stream_fulfillment'))
+    const executionCondition = sha256(hmac(fulfillmentKey, data))
+
+    const money = server.createReply({
+      amount: '200',
+      destination: ilpAddress,
+      executionCondition,
+      expiresAt: new Date(),
+      data,
+    }) as IncomingMoney
+
+    const reply = money.declineOverReceiveMax(500, 400)
+    const replyPacket = await Packet.decryptAndDeserialize(key, reply.data)
+    expect(replyPacket.frames).toEqual([new StreamMaxMoneyFrame(3, 500, 400)])
+  })
+
+  it('omits receive max if none was encoded', async () => {
+    const { sharedSecret, ilpAddress } = server.generateCredentials()
+
+    const key = hmac(sharedSecret, Buffer.from('ilp_stream_encryption'))
+    const data = await new Packet(1, IlpPacketType.Prepare, 0, [
+      new StreamMoneyFrame(1, 1),
+    ]).serializeAndEncrypt(key)
+
+    const fulfillmentKey = hmac(sharedSecret, Buffer.from('ilp_stream_fulfillment'))
+    const executionCondition = sha256(hmac(fulfillmentKey, data))
+
+    const money = server.createReply({
+      amount: '1000',
+      destination: ilpAddress,
+      executionCondition,
+      expiresAt: new Date(),
+      data,
+    }) as IncomingMoney
+    expect(money.receiveMax).toBeUndefined()
+
+    const replyPacket = await Packet.decryptAndDeserialize(key, money.accept().data)
+    expect(replyPacket.frames.length).toBe(0)
+  })
+})
+
+describe('expiry and revocation', () => {
+  const server = new StreamServer({
+    serverAddress: 'g.receiver',
+    serverSecret: randomBytes(32),
+  })
+
+  const sendPrepare = async (
+    server: StreamServer,
+    { sharedSecret, ilpAddress }: { sharedSecret: Buffer; ilpAddress: string },
+    destination = ilpAddress
+  ): Promise<{ reply: IncomingMoney | IlpReply; key: Buffer }> => {
+    const key = hmac(sharedSecret, Buffer.from('ilp_stream_encryption'))
+    const data = await new Packet(1, IlpPacketType.Prepare, 100).serializeAndEncrypt(key)
+
+    const fulfillmentKey = hmac(sharedSecret, Buffer.from('ilp_stream_fulfillment'))
+    const executionCondition = sha256(hmac(fulfillmentKey, data))
+
+    const reply = server.createReply({
+      amount: '100',
+      destination,
+      executionCondition,
+      expiresAt: new Date(),
+      data,
+    })
+    return { reply, key }
+  }
+
+  it('accepts money before credentials expire', async () => {
+    const credentials = server.generateCredentials({
+      expiresAt: new Date(Date.now() + 60_000),
+      paymentTag: 'invoice',
+    })
+
+    const { reply } = await sendPrepare(server, credentials)
+    expect(isIlpReply(reply)).toBe(false)
+    expect(server.decodePaymentTag(credentials.ilpAddress)).toBe('invoice')
+  })
+
+  it('closes connection if credentials expired', async () => {
+    const credentials = server.generateCredentials({
+      expiresAt: new Date(Date.now() - 1),
+    })
+
+    const { reply, key } = await sendPrepare(server, credentials)
+    expect((reply as IlpReject).code).toBe(IlpError.F99_APPLICATION_ERROR)
+
+    const replyPacket = await Packet.decryptAndDeserialize(key, (reply as IlpReject).data)
+    expect(replyPacket.frames).toContainEqual(new ConnectionCloseFrame(ErrorCode.NoError, ''))
+  })
+
+  it('closes connection if it was revoked', async () => {
+    const credentials = server.generateCredentials()
+    const connectionId = sha256(Buffer.from(credentials.ilpAddress, 'ascii')).toString('hex')
+
+    const { reply: money } = await sendPrepare(server, credentials)
+    expect((money as IncomingMoney).connectionId).toBe(connectionId)
+
+    server.revoke(connectionId)
+
+    const { reply, key } = await sendPrepare(server, credentials)
+    expect((reply as IlpReject).code).toBe(IlpError.F99_APPLICATION_ERROR)
+
+    const replyPacket = await Packet.decryptAndDeserialize(key, (reply as IlpReject).data)
+    expect(replyPacket.frames).toContainEqual(new ConnectionCloseFrame(ErrorCode.NoError, ''))
+
+    // Appending segments to the address should not bypass revocation
+    const { reply: reply2 } = await sendPrepare(
+      server,
+      credentials,
+      credentials.ilpAddress + '.foo'
+    )
+    expect((reply2 as IlpReject).code).toBe(IlpError.F99_APPLICATION_ERROR)
+  })
+
+  it('checks a shared denylist', async () => {
+    const denylist = new Set<string>()
+    const serverSecret = randomBytes(32)
+    const server1 = new StreamServer({ serverAddress: 'g.receiver', serverSecret, denylist })
+    const server2 = new StreamServer({ serverAddress: 'g.receiver', serverSecret, denylist })
+
+    const credentials = server1.generateCredentials()
+    const { reply: money } = await sendPrepare(server2, credentials)
+    server1.revoke((money as IncomingMoney).connectionId)
+
+    const { reply } = await sendPrepare(server2, credentials)
+    expect((reply as IlpReject).code).toBe(IlpError.F99_APPLICATION_ERROR)
+  })
+})
+
+describe('secret rotation', () => {
+  const serverAddress = 'g.receiver'
+  const key1 = { keyId: 1, secret: randomBytes(32) }
+  const key2 = { keyId: 2, secret: randomBytes(32) }
+
+  /** Send a fulfillable Prepare to the server, and resolve if it carried money to the connection */
+  const isAccepted = async (
+    server: StreamServer,
+    { sharedSecret, ilpAddress }: { sharedSecret: Buffer; ilpAddress: string }
+  ): Promise<boolean> => {
+    const key = hmac(sharedSecret, Buffer.from('ilp_stream_encryption'))
+    const data = await new Packet(1, IlpPacketType.Prepare, 100).serializeAndEncrypt(key)
+
+    const fulfillmentKey = hmac(sharedSecret, Buffer.from('ilp_stream_fulfillment'))
+    const executionCondition = sha256(hmac(fulfillmentKey, data))
+
+    const reply = server.createReply({
+      amount: '100',
+      destination: ilpAddress,
+      executionCondition,
+      expiresAt: new Date(),
+      data,
+    })
+    return !isIlpReply(reply)
+  }
+
+  it('encodes the key ID of the primary key', () => {
+    const server = new StreamServer({ serverAddress, keyring: [key2, key1] })
+    const { ilpAddress } = server.generateCredentials()
+
+    const token = Buffer.from(ilpAddress.slice(serverAddress.length + 1), 'base64')
+    expect(token[0]).toBe(2)
+  })
+
+  it('accepts credentials from all active keys', async () => {
+    const oldServer = new StreamServer({ serverAddress, keyring: [key1] })
+    const credentials1 = oldServer.generateCredentials({ paymentTag: 'foo' })
+
+    const rotatedServer = new StreamServer({ serverAddress, keyring: [key2, key1] })
+    const credentials2 = rotatedServer.generateCredentials()
+
+    expect(await isAccepted(rotatedServer, credentials1)).toBe(true)
+    expect(await isAccepted(rotatedServer, credentials2)).toBe(true)
+    expect(rotatedServer.decodePaymentTag(credentials1.ilpAddress)).toBe('foo')
+
+    // Old instances without the new key reject credentials generated from it
+    expect(await isAccepted(oldServer, credentials2)).toBe(false)
+  })
+
+  it('rejects credentials from retired keys', async () => {
+    const oldServer = new StreamServer({ serverAddress, keyring: [key1] })
+    const credentials = oldServer.generateCredentials()
+
+    const rotatedServer = new StreamServer({ serverAddress, keyring: [key2] })
+    expect(await isAccepted(rotatedServer, credentials)).toBe(false)
+  })
+
+  it('accepts credentials from a former server secret', async () => {
+    const legacyServer = new StreamServer({ serverAddress, serverSecret: key1.secret })
+    const credentials = legacyServer.generateCredentials()
+
+    const rotatedServer = new StreamServer({
+      serverAddress,
+      keyring: [key2, { ...key1, legacy: true }],
+    })
+    expect(await isAccepted(rotatedServer, credentials)).toBe(true)
+
+    // Unprefixed credentials are only accepted from the legacy key
+    const strictServer = new StreamServer({ serverAddress, keyring: [key2, key1] })
+    expect(await isAccepted(strictServer, credentials)).toBe(false)
+  })
+})
+
 describe('ilp-protocol-stream integration', () => {
   it('accepts incoming payments', async () => {
     const receiptNonce = randomBytes(16)
@@ -0,0 +1,288 @@
+import { describe, it, expect, jest } from '@jest/globals'
+import {
+  StreamServer,
+  createResponder,
+  createNodeHandler,
+  createKoaMiddleware,
+  createExpressMiddleware,
+  ReceivingAccount,
+  KoaContext,
+  ExpressResponse,
+} from '../src'
+import { randomBytes } from 'ilp-protocol-stream/dist/src/crypto'
+import { IlpReply, isValidIlpAddress } from 'ilp-packet'
+import { hmac } from '../src/utils'
+import {
+  ConnectionAssetDetailsFrame,
+  ConnectionNewAddressFrame,
+  IlpPacketType,
+  Packet,
+} from 'ilp-protocol-stream/dist/src/packet'
+import { createServer, get } from 'http'
+import { AddressInfo } from 'net'
+
+describe('SPSP and Open Payments responder', () => {
+  const server = new StreamServer({
+    serverAddress: 'g.wallet',
+    serverSecret: randomBytes(32),
+  })
+
+  const accounts: { [path: string]: ReceivingAccount } = {
+    '/alice': {
+      paymentTag: 'alice',
+      assetCode: 'USD',
+      assetScale: 2,
+    },
+  }
+  const getAccount = async (path: string) => accounts[path]
+  const respond = createResponder({ server, getAccount })
+
+  it('responds with Open Payments credentials and asset details', async () => {
+    const { status, headers, body } = await respond({
+      method: 'GET',
+      path: '/alice',
+      accept: 'application/ilp-stream+json, application/spsp4+json', // Same as `pay`
+    })
+
+    expect(status).toBe(200)
+    expect(headers['Content-Type']).toBe('application/ilp-stream+json')
+    expect(headers['Cache-Control']).toBe('no-store')
+
+    const { ilpAddress, sharedSecret, assetCode, assetScale } = JSON.parse(body as string)
+    expect(isValidIlpAddress(ilpAddress)).toBe(true)
+    expect(Buffer.from(sharedSecret, 'base64').byteLength).toBe(32)
+    expect(assetCode).toBe('USD')
+    expect(assetScale).toBe(2)
+    expect(server.decodePaymentTag(ilpAddress)).toBe('alice')
+  })
+
+  it('responds with SPSP credentials and encodes asset details in the connection', async () => {
+    const { status, headers, body } = await respond({
+      method: 'GET',
+      path: '/alice',
+      accept: 'application/spsp4+json',
+    })
+
+    expect(status).toBe(200)
+    expect(headers['Content-Type']).toBe('application/spsp4+json')
+
+    const {
+      destination_account: destinationAddress,
+      shared_secret: sharedSecretBase64,
+      receipts_enabled: receiptsEnabled,
+    } = JSON.parse(body as string)
+    expect(server.decodePaymentTag(destinationAddress)).toBe('alice')
+    expect(receiptsEnabled).toBe(false)
+
+    // STREAM server shares asset details with the sender
+    const sharedSecret = Buffer.from(sharedSecretBase64, 'base64')
+    const key = hmac(sharedSecret, Buffer.from('ilp_stream_encryption'))
+    const data = await new Packet(1, IlpPacketType.Prepare, 0, [
+      new ConnectionNewAddressFrame(''),
+    ]).serializeAndEncrypt(key)
+
+    const reply = server.createReply({
+      amount: '0',
+      destination: destinationAddress,
+      executionCondition: randomBytes(32),
+      expiresAt: new Date(),
+      data,
+    }) as IlpReply
+
+    const replyPacket = await Packet.decryptAndDeserialize(key, reply.data)
+    expect(replyPacket.frames).toContainEqual(new ConnectionAssetDetailsFrame('USD', 2))
+  })
+
+  it('responds with 404 if no account exists at the path', async () => {
+    const { status } = await respond({
+      method: 'GET',
+      path: '/bob',
+      accept: 'application/spsp4+json',
+    })
+    expect(status).toBe(404)
+  })
+
+  it('responds with 406 if no STREAM credentials are acceptable', async () => {
+    const responses = await Promise.all(
+      ['application/json', 'application/spsp4+json;q=0', undefined].map((accept) =>
+        respond({ method: 'GET', path: '/alice', accept })
+      )
+    )
+    responses.forEach(({ status }) => expect(status).toBe(406))
+  })
+
+  it('responds to HEAD requests without generating credentials', async () => {
+    const generateCredentials = jest.spyOn(server, 'generateCredentials')
+
+    const { status, headers, body } = await respond({
+      method: 'HEAD',
+      path: '/alice',
+      accept: 'application/spsp4+json',
+    })
+    expect(status).toBe(200)
+    expect(headers['Content-Type']).toBe('application/spsp4+json')
+    expect(body).toBeUndefined()
+
+    // Unacceptable requests don't generate credentials either
+    await respond({ method: 'GET', path: '/alice', accept: 'application/json' })
+
+    expect(generateCredentials).not.toHaveBeenCalled()
+    generateCredentials.mockRestore()
+  })
+
+  it('responds with 405 to unsupported methods', async () => {
+    const { status, headers } = await respond({
+      method: 'POST',
+      path: '/alice',
+      accept: 'application/spsp4+json',
+    })
+    expect(status).toBe(405)
+    expect(headers.Allow).toBe('GET, HEAD')
+  })
+
+  it('responds with 500 if credentials cannot be generated', async () => {
+    const respond = createResponder({
+      server,
+      getAccount: async () => ({ assetCode: 'USD', assetScale: 256 }),
+    })
+
+    const { status } = await respond({
+      method: 'GET',
+      path: '/alice',
+      accept: 'application/spsp4+json',
+    })
+    expect(status).toBe(500)
+  })
+
+  it('handles requests from Node http', async () => {
+    const httpServer = createServer(createNodeHandler({ server, getAccount }))
+    await new Promise<void>((resolve) => httpServer.listen(0, '127.0.0.1', resolve))
+    const { port } = httpServer.address() as AddressInfo
+
+    const { statusCode, contentType, body } = await new Promise((resolve, reject) => {
+      get(
+        `http://127.0.0.1:${port}/alice?foo=bar`,
+        { headers: { Accept: 'application/spsp4+json' } },
+        (res) => {
+          let body = ''
+          res.on('data', (chunk) => (body += chunk))
+          res.on('end', () =>
+            resolve({
+              statusCode: res.statusCode,
+              contentType: res.headers['content-type'],
+              body,
+            })
+          )
+        }
+      ).on('error', reject)
+    })
+
+    await new Promise((resolve) => httpServer.close(resolve))
+
+    expect(statusCode).toBe(200)
+    expect(contentType).toBe('application/spsp4+json')
+    expect(server.decodePaymentTag(JSON.parse(body).destination_account)).toBe('alice')
+  })
+
+  it('handles requests as Koa middleware', async () => {
+    const middleware = createKoaMiddleware({ server, getAccount })
+
+    const createContext = (
+      path: string,
+      accept = 'application/ilp-stream+json'
+    ): KoaContext & { headers: { [name: string]: string } } => ({
+      method: 'GET',
+      path,
+      status: 404,
+      body: undefined,
+      headers: {},
+      get: () => accept,
+      set(headers) {
+        Object.assign(this.headers, headers)
+      },
+    })
+
+    let calledNext = false
+    const next = async () => {
+      calledNext = true
+    }
+
+    const ctx = createContext('/alice')
+    await middleware(ctx, next)
+    expect(calledNext).toBe(false)
+    expect(ctx.status).toBe(200)
+    expect(ctx.headers['Content-Type']).toBe('application/ilp-stream+json')
+    expect(JSON.parse(ctx.body as string).assetCode).toBe('USD')
+
+    // Requests for unacceptable media types are handled by the responder
+    const unacceptableCtx = createContext('/alice', 'text/html')
+    await middleware(unacceptableCtx, next)
+    expect(calledNext).toBe(false)
+    expect(unacceptableCtx.status).toBe(406)
+
+    // Requests to other paths are passed to the next middleware
+    await middleware(createContext('/bob'), next)
+    expect(calledNext).toBe(true)
+  })
+
+  it('handles requests as Express middleware', async () => {
+    const middleware = createExpressMiddleware({ server, getAccount })
+
+    const response = await new Promise<{ status?: number; body?: string }>((resolve, reject) => {
+      const result: { status?: number; body?: string } = {}
+      const res: ExpressResponse = {
+        status(code) {
+          result.status = code
+          return this
+        },
+        set() {
+          return this
+        },
+        send(body) {
+          result.body = body
+          resolve(result)
+          return this
+        },
+      }
+
+      middleware(
+        { method: 'GET', path: '/alice', get: () => 'application/spsp4+json' },
+        res,
+        reject
+      )
+    })
+
+    expect(response.status).toBe(200)
+    expect(server.decodePaymentTag(JSON.parse(response.body as string).destination_account)).toBe(
+      'alice'
+    )
+
+    // Requests for unacceptable media types are handled by the responder
+    const status = await new Promise<number>((resolve, reject) => {
+      const res: ExpressResponse = {
+        status(code) {
+          resolve(code)
+          return this
+        },
+        set() {
+          return this
+        },
+        send() {
+          return this
+        },
+      }
+      middleware({ method: 'GET', path: '/alice', get: () => 'text/html' }, res, reject)
+    })
+    expect(status).toBe(406)
+
+    // Requests to other paths are passed to the next middleware
+    const err = await new Promise((resolve) =>
+      middleware(
+        { method: 'GET', path: '/bob', get: () => 'application/spsp4+json' },
+        {} as ExpressResponse,
+        resolve
+      )
+    )
+    expect(err).toBeUndefined()
+  })
+})
@@ -0,0 +1,248 @@
+import { describe, it, expect } from '@jest/globals'
+import { StreamServer, StatefulStreamReceiver, InMemoryReceiverStore } from '../src'
+import { randomBytes } from 'ilp-protocol-stream/dist/src/crypto'
+import { IlpError, IlpFulfill, IlpPrepare, IlpReject, isFulfill } from 'ilp-packet'
+import { hmac, sha256 } from '../src/utils'
+import {
+  ConnectionCloseFrame,
+  ErrorCode,
+  FrameType,
+  IlpPacketType,
+  Packet,
+  StreamMaxMoneyFrame,
+  StreamMoneyFrame,
+  StreamReceiptFrame,
+} from 'ilp-protocol-stream/dist/src/packet'
+import { decodeReceipt } from 'ilp-protocol-stream/dist/src/util/receipt'
+import Long from 'long'
+
+/** Create a fulfillable ILP Prepare carrying the amount to the STREAM credentials, over stream 1 */
+const createPrepare = async (
+  { sharedSecret, ilpAddress }: { sharedSecret: Buffer; ilpAddress: string },
+  amount: number,
+  sequence = 1
+): Promise<IlpPrepare> => {
+  const key = hmac(sharedSecret, Buffer.from('ilp_stream_encryption'))
+  const data = await new Packet(sequence, IlpPacketType.Prepare, amount, [
+    new StreamMoneyFrame(1, 1),
+  ]).serializeAndEncrypt(key)
+
+  const fulfillmentKey = hmac(sharedSecret, Buffer.from('ilp_stream_fulfillment'))
+  const fulfillment = hmac(fulfillmentKey, data)
+
+  return {
+    amount: amount.toString(),
+    destination: ilpAddress,
+    executionCondition: sha256(fulfillment),
+    expiresAt: new Date(Date.now() + 30_000),
+    data,
+  }
+}
+
+/** Connection ID the STREAM server derives from the ILP address of the credentials */
+const getConnectionId = ({ ilpAddress }: { ilpAddress: string }): string =>
+  sha256(Buffer.from(ilpAddress, 'ascii')).toString('hex')
+
+/** Decrypt the STREAM reply packet within the ILP reply */
+const decryptReply = (sharedSecret: Buffer, reply: IlpFulfill | IlpReject): Promise<Packet> =>
+  Packet.decryptAndDeserialize(hmac(sharedSecret, Buffer.from('ilp_stream_encryption')), reply.data)
+
+describe('StatefulStreamReceiver', () => {
+  const serverAddress = 'g.receiver'
+  const server = new StreamServer({
+    serverAddress,
+    serverSecret: randomBytes(32),
+  })
+
+  it('accepts money and tracks connection and payment tag totals', async () => {
+    const store = new InMemoryReceiverStore()
+    const receiver = new StatefulStreamReceiver({ server, store })
+
+    const receiptSecret = randomBytes(32)
+    const credentials1 = server.generateCredentials({
+      paymentTag: 'invoice-1',
+      receiptSetup: {
+        nonce: randomBytes(16),
+        secret: receiptSecret,
+      },
+    })
+    const credentials2 = server.generateCredentials({ paymentTag: 'invoice-1' })
+    const connectionId1 = getConnectionId(credentials1)
+
+    const reply1 = await receiver.createReply(await createPrepare(credentials1, 300, 1))
+    expect(isFulfill(reply1)).toBe(true)
+
+    const reply2 = await receiver.createReply(await createPrepare(credentials1, 200, 2))
+    expect(isFulfill(reply2)).toBe(true)
+
+    // Receipt should be signed for the total received over the connection
+    const receiptFrame = (await decryptReply(credentials1.sharedSecret, reply2)).frames.find(
+      (f): f is StreamReceiptFrame => f.type === FrameType.StreamReceipt
+    ) as StreamReceiptFrame
+    expect(+decodeReceipt(receiptFrame.receipt).totalReceived).toBe(500)
+
+    const reply3 = await receiver.createReply(await createPrepare(credentials2, 150))
+    expect(isFulfill(reply3)).toBe(true)
+
+    expect(+(await receiver.getConnectionTotal(connectionId1))).toBe(500)
+    expect(+(await receiver.getPaymentTagTotal('invoice-1'))).toBe(650)
+    expect(+(await store.getPaymentTagTotal('invoice-2'))).toBe(0)
+  })
+
+  it('declines money if it exceeds the connection receive max, but keeps the connection open', async () => {
+    const store = new InMemoryReceiverStore()
+    const receiver = new StatefulStreamReceiver({
+      server,
+      store,
+      connectionReceiveMax: 1000,
+    })
+
+    const credentials = server.generateCredentials()
+    const connectionId = getConnectionId(credentials)
+
+    const reply1 = await receiver.createReply(await createPrepare(credentials, 999, 1))
+    expect(isFulfill(reply1)).toBe(true)
+
+    // Sender is informed it may only send 1 more
+    const reply2 = (await receiver.createReply(await createPrepare(credentials, 2, 2))) as IlpReject
+    expect(reply2.code).toBe(IlpError.F99_APPLICATION_ERROR)
+    const { frames } = await decryptReply(credentials.sharedSecret, reply2)
+    expect(frames).toContainEqual(new StreamMaxMoneyFrame(1, 1000, 999))
+    expect(frames.some((f) => f.type === FrameType.ConnectionClose)).toBe(false)
+
+    // Declined money isn't credited
+    expect(await store.isConnectionClosed(connectionId)).toBe(false)
+    expect(+(await receiver.getConnectionTotal(connectionId))).toBe(999)
+  })
+
+  it('temporarily declines money if a total would exceed the max u64', async () => {
+    const store = new InMemoryReceiverStore()
+    const receiver = new StatefulStreamReceiver({ server, store })
+
+    const credentials1 = server.generateCredentials({ paymentTag: 'invoice-1' })
+    const credentials2 = server.generateCredentials({ paymentTag: 'invoice-1' })
+    const connectionId1 = getConnectionId(credentials1)
+    const connectionId2 = getConnectionId(credentials2)
+
+    // Connection total would wrap around
+    await store.addToConnectionTotal(connectionId1, Long.MAX_UNSIGNED_VALUE)
+    const reply1 = (await receiver.createReply(await createPrepare(credentials1, 1))) as IlpReject
+    expect(reply1.code).toBe(IlpError.T04_INSUFFICIENT_LIQUIDITY)
+    expect(await receiver.getConnectionTotal(connectionId1)).toEqual(Long.MAX_UNSIGNED_VALUE)
+    expect(+(await receiver.getPaymentTagTotal('invoice-1'))).toBe(0)
+
+    // Payment tag total would wrap around, so the connection total is reverted
+    await store.addToPaymentTagTotal('invoice-1', Long.MAX_UNSIGNED_VALUE)
+    const reply2 = (await receiver.createReply(await createPrepare(credentials2, 1))) as IlpReject
+    expect(reply2.code).toBe(IlpError.T04_INSUFFICIENT_LIQUIDITY)
+    expect(+(await receiver.getConnectionTotal(connectionId2))).toBe(0)
+    expect(await receiver.getPaymentTagTotal('invoice-1')).toEqual(Long.MAX_UNSIGNED_VALUE)
+  })
+
+  it('accepts money after the sender overshoots and completes with a smaller packet', async () => {
+    const receiver = new StatefulStreamReceiver({ server })
+
+    const credentials = server.generateCredentials({ receiveMax: 1000 })
+    const connectionId = getConnectionId(credentials)
+
+    const reply1 = await receiver.createReply(await createPrepare(credentials, 700, 1))
+    expect(isFulfill(reply1)).toBe(true)
+
+    const reply2 = (await receiver.createReply(
+      await createPrepare(credentials, 500, 2)
+    )) as IlpReject
+    expect(reply2.code).toBe(IlpError.F99_APPLICATION_ERROR)
+    expect((await decryptReply(credentials.sharedSecret, reply2)).frames).toContainEqual(
+      new StreamMaxMoneyFrame(1, 1000, 700)
+    )
+
+    // Sender reduces the packet amount to the remaining 300 to complete the payment
+    const reply3 = await receiver.createReply(await createPrepare(credentials, 300, 3))
+    expect(isFulfill(reply3)).toBe(true)
+    expect((await decryptReply(credentials.sharedSecret, reply3)).frames).toContainEqual(
+      new StreamMaxMoneyFrame(1, 1000, 1000)
+    )
+    expect(+(await receiver.getConnectionTotal(connectionId))).toBe(1000)
+  })
+
+  it('declines money if it exceeds the receive max encoded in the credentials', async () => {
+    const receiver = new StatefulStreamReceiver({
+      server,
+      connectionReceiveMax: 10_000,
+    })
+
+    const credentials = server.generateCredentials({ receiveMax: 500 })
+    const connectionId = getConnectionId(credentials)
+
+    const reply1 = await receiver.createReply(await createPrepare(credentials, 300, 1))
+    expect(isFulfill(reply1)).toBe(true)
+
+    const reply2 = (await receiver.createReply(
+      await createPrepare(credentials, 201, 2)
+    )) as IlpReject
+    expect(reply2.code).toBe(IlpError.F99_APPLICATION_ERROR)
+    expect(+(await receiver.getConnectionTotal(connectionId))).toBe(300)
+  })
+
+  it('declines money if it exceeds the payment tag receive max', async () => {
+    const paymentTags: { [paymentTag: string]: number } = {
+      'invoice-1': 500,
+    }
+    const receiver = new StatefulStreamReceiver({
+      server,
+      getPaymentTagReceiveMax: async (paymentTag) => paymentTags[paymentTag],
+    })
+
+    const credentials1 = server.generateCredentials({ paymentTag: 'invoice-1' })
+    const credentials2 = server.generateCredentials({ paymentTag: 'invoice-1' })
+    const connectionId2 = getConnectionId(credentials2)
+
+    const reply1 = await receiver.createReply(await createPrepare(credentials1, 400))
+    expect(isFulfill(reply1)).toBe(true)
+
+    // Limit applies across all connections with the payment tag
+    const reply2 = (await receiver.createReply(await createPrepare(credentials2, 101))) as IlpReject
+    expect(reply2.code).toBe(IlpError.F99_APPLICATION_ERROR)
+    const { frames } = await decryptReply(credentials2.sharedSecret, reply2)
+    expect(frames).toContainEqual(new StreamMaxMoneyFrame(1, 100, 0))
+    expect(frames.some((f) => f.type === FrameType.ConnectionClose)).toBe(false)
+
+    expect(+(await receiver.getPaymentTagTotal('invoice-1'))).toBe(400)
+    expect(+(await receiver.getConnectionTotal(connectionId2))).toBe(0)
+
+    // Payment tags without a limit are unlimited
+    const credentials3 = server.generateCredentials({ paymentTag: 'donations' })
+    const reply3 = await receiver.createReply(await createPrepare(credentials3, 1_000_000))
+    expect(isFulfill(reply3)).toBe(true)
+  })
+
+  it('declines money over closed connections', async () => {
+    const receiver = new StatefulStreamReceiver({ server })
+
+    const credentials = server.generateCredentials()
+    const connectionId = getConnectionId(credentials)
+    await receiver.closeConnection(connectionId)
+
+    const reply = (await receiver.createReply(await createPrepare(credentials, 10))) as IlpReject
+    expect(reply.code).toBe(IlpError.F99_APPLICATION_ERROR)
+    expect((await decryptReply(credentials.sharedSecret, reply)).frames).toContainEqual(
+      new ConnectionCloseFrame(ErrorCode.NoError, '')
+    )
+    expect(await receiver.getConnectionTotal(connectionId)).toEqual(Long.UZERO)
+  })
+
+  it('replies to packets without money', async () => {
+    const receiver = new StatefulStreamReceiver({ server })
+
+    const reply = (await receiver.createReply({
+      amount: '0',
+      destination: 'g.not_receiver',
+      executionCondition: randomBytes(32),
+      expiresAt: new Date(),
+      data: Buffer.alloc(0),
+    })) as IlpReject
+
+    expect(reply.code).toBe(IlpError.F02_UNREACHABLE)
+    expect(reply.triggeredBy).toBe(serverAddress)
+  })
+})